@@ -0,0 +1,249 @@
+/**
+ * Indexed DAG archives
+ * An archive can be opened by reading only its header and index; leaves are
+ * then read from disk one at a time as they are requested
+ *
+ * Layout:
+ *   magic (8 bytes) | header length (uint32 BE) | CBOR header { version, root }
+ *   blocks: leaf length (uint32 BE) | CBOR leaf, repeated
+ *   index: CBOR array of [cid, offset, length]
+ *   footer: index offset (uint64 BE) | index magic (8 bytes)
+ */
+
+import * as fs from 'fs';
+import * as cbor from 'cbor';
+import { Dag, DagLeaf, ScionicError } from './types';
+import { encodeLeaf, decodeLeaf, encodeCbor } from './serialize';
+import { LeafStore, StoredDag, toStoredDag } from './store';
+
+const ARCHIVE_MAGIC = Buffer.from('SMTARCv1', 'ascii');
+const INDEX_MAGIC = Buffer.from('SMTINDEX', 'ascii');
+const ARCHIVE_VERSION = 1;
+const LENGTH_PREFIX_SIZE = 4;
+const FOOTER_SIZE = 16;
+
+/**
+ * Location of one leaf block within an archive
+ */
+interface IndexEntry {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Write a DAG to an indexed archive
+ * Stored DAGs are copied leaf by leaf, so they need not fit in memory
+ */
+export async function writeArchive(dag: Dag | StoredDag, filePath: string): Promise<void> {
+  const stored = 'Store' in dag ? dag : toStoredDag(dag);
+  if (!(await stored.Store.has(stored.Root))) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+
+  const handle = await fs.promises.open(filePath, 'w');
+  try {
+    let position = 0;
+    const write = async (data: Uint8Array): Promise<void> => {
+      await handle.write(data, 0, data.length, position);
+      position += data.length;
+    };
+
+    const header = cbor.encode({ version: ARCHIVE_VERSION, root: stored.Root });
+    await write(ARCHIVE_MAGIC);
+    await write(lengthPrefix(header.length));
+    await write(header);
+
+    const index: Array<[string, number, number]> = [];
+    for await (const hash of stored.Store.hashes()) {
+      const leaf = await stored.Store.get(hash);
+      if (!leaf) {
+        continue;
+      }
+
+      const block = encodeLeaf(leaf);
+      await write(lengthPrefix(block.length));
+      index.push([hash, position, block.length]);
+      await write(block);
+    }
+
+    const indexOffset = position;
+    await write(encodeCbor(index));
+
+    const footer = Buffer.alloc(FOOTER_SIZE);
+    footer.writeBigUInt64BE(BigInt(indexOffset), 0);
+    INDEX_MAGIC.copy(footer, 8);
+    await write(footer);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read-only view of an archive
+ * Opening reads the header and index only; leaves are read on demand
+ */
+export class DagArchive implements LeafStore {
+  private fd: number | null;
+
+  private constructor(
+    fd: number,
+    readonly root: string,
+    private readonly index: Map<string, IndexEntry>
+  ) {
+    this.fd = fd;
+  }
+
+  /**
+   * Open an archive written by writeArchive
+   */
+  static open(filePath: string): DagArchive {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const fileSize = fs.fstatSync(fd).size;
+
+      const prefix = readExact(fd, 0, ARCHIVE_MAGIC.length + LENGTH_PREFIX_SIZE);
+      if (!prefix.subarray(0, ARCHIVE_MAGIC.length).equals(ARCHIVE_MAGIC)) {
+        throw new ScionicError('Not a DAG archive');
+      }
+
+      const headerLength = prefix.readUInt32BE(ARCHIVE_MAGIC.length);
+      const header = cbor.decode(readExact(fd, prefix.length, headerLength));
+      if (header?.version !== ARCHIVE_VERSION || typeof header.root !== 'string') {
+        throw new ScionicError(`Unsupported archive header: ${JSON.stringify(header)}`);
+      }
+
+      if (fileSize < FOOTER_SIZE) {
+        throw new ScionicError('Archive is missing its index');
+      }
+      const footer = readExact(fd, fileSize - FOOTER_SIZE, FOOTER_SIZE);
+      if (!footer.subarray(8).equals(INDEX_MAGIC)) {
+        throw new ScionicError('Archive is missing its index');
+      }
+
+      const indexOffset = Number(footer.readBigUInt64BE(0));
+      if (indexOffset > fileSize - FOOTER_SIZE) {
+        throw new ScionicError(`Archive index offset ${indexOffset} is out of range`);
+      }
+      const rawIndex = cbor.decode(readExact(fd, indexOffset, fileSize - FOOTER_SIZE - indexOffset));
+      const index = new Map<string, IndexEntry>();
+      for (const [hash, offset, length] of rawIndex as Array<[string, number, number]>) {
+        index.set(hash, { offset, length });
+      }
+
+      if (!index.has(header.root)) {
+        throw new ScionicError('Root leaf not found in archive');
+      }
+
+      return new DagArchive(fd, header.root, index);
+    } catch (error) {
+      fs.closeSync(fd);
+      throw error;
+    }
+  }
+
+  /**
+   * Number of leaves in the archive
+   */
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Read a single leaf from disk
+   */
+  getLeaf(hash: string): DagLeaf | undefined {
+    const entry = this.index.get(hash);
+    if (!entry) {
+      return undefined;
+    }
+    if (this.fd === null) {
+      throw new ScionicError('Archive is closed');
+    }
+
+    return decodeLeaf(readExact(this.fd, entry.offset, entry.length));
+  }
+
+  hasLeaf(hash: string): boolean {
+    return this.index.has(hash);
+  }
+
+  async get(hash: string): Promise<DagLeaf | undefined> {
+    return this.getLeaf(hash);
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return this.hasLeaf(hash);
+  }
+
+  async put(_leaf: DagLeaf): Promise<void> {
+    throw new ScionicError('Archive is read-only');
+  }
+
+  async delete(_hash: string): Promise<boolean> {
+    throw new ScionicError('Archive is read-only');
+  }
+
+  async *hashes(): AsyncIterable<string> {
+    for (const hash of this.index.keys()) {
+      yield hash;
+    }
+  }
+
+  /**
+   * View the archive as a StoredDag for the stored-DAG operations
+   */
+  toStoredDag(): StoredDag {
+    return { Root: this.root, Store: this };
+  }
+
+  /**
+   * View the archive as a Dag whose Leafs are read from disk on access
+   * Listing keys only touches the index; reading a leaf decodes just that block
+   */
+  toDag(): Dag {
+    const leafs = new Proxy({} as Record<string, DagLeaf>, {
+      get: (_target, prop) => (typeof prop === 'string' ? this.getLeaf(prop) : undefined),
+      has: (_target, prop) => typeof prop === 'string' && this.hasLeaf(prop),
+      ownKeys: () => [...this.index.keys()],
+      getOwnPropertyDescriptor: (_target, prop) => {
+        if (typeof prop !== 'string' || !this.hasLeaf(prop)) {
+          return undefined;
+        }
+        // An accessor keeps Object.keys from reading every leaf
+        return { get: () => this.getLeaf(prop), enumerable: true, configurable: true };
+      },
+      set: () => {
+        throw new ScionicError('Archive-backed DAG is read-only');
+      },
+      deleteProperty: () => {
+        throw new ScionicError('Archive-backed DAG is read-only');
+      },
+    });
+
+    return { Root: this.root, Leafs: leafs };
+  }
+
+  /**
+   * Close the underlying file
+   */
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+function lengthPrefix(length: number): Buffer {
+  const prefix = Buffer.alloc(LENGTH_PREFIX_SIZE);
+  prefix.writeUInt32BE(length, 0);
+  return prefix;
+}
+
+function readExact(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  if (length > 0 && fs.readSync(fd, buffer, 0, length, position) < length) {
+    throw new ScionicError(`Truncated archive at offset ${position}`);
+  }
+  return buffer;
+}
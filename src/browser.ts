@@ -5,11 +5,29 @@
 
 export * from './types';
 export { BrowserMerkleTree } from './browserMerkleTree';
+export { proofDepth, encodeProofPath, decodeProofPath, MAX_PATH_BITMAP_DEPTH } from './merklePath';
 export { createCID, parseCID, verifyCID, hashData } from './browserHash';
-export { toCBOR, fromCBOR, toJSON, fromJSON } from './serialize';
-
-import { BrowserDagLeafBuilder } from './browserLeaf';
-import { Dag, DagLeaf, LeafType, DEFAULT_CHUNK_SIZE } from './types';
+export {
+  toCBOR,
+  fromCBOR,
+  toJSON,
+  fromJSON,
+  encodePacket,
+  decodePacket,
+  encodeBatchPacket,
+  decodeBatchPacket,
+  framePacket,
+  readFramedPackets,
+  PacketFrameDecoder,
+  DEFAULT_MAX_FRAME_SIZE,
+} from './serialize';
+export { CHUNK_SIZE_KEY, getChunkSize } from './chunking';
+export { resolvePath, listDirectory } from './lookup';
+export { DagIndex } from './dagIndex';
+
+import { BrowserDagLeafBuilder, leafHashData, rootLeafHashData, computeLinksMerkleRoot } from './browserLeaf';
+import { Dag, DagLeaf, LeafType, DagBuilderConfig } from './types';
+import { resolveChunkSize, recordChunkSize, chunkItemName } from './chunking';
 import { createCID, hashData } from './browserHash';
 import { BrowserMerkleTree } from './browserMerkleTree';
 
@@ -19,16 +37,17 @@ import { BrowserMerkleTree } from './browserMerkleTree';
 export async function createDagFromFile(
   fileName: string,
   content: Uint8Array | Blob,
-  options?: { timestampRoot?: boolean }
+  options?: DagBuilderConfig
 ): Promise<Dag> {
   const data = content instanceof Blob ? new Uint8Array(await content.arrayBuffer()) : content;
   const leaves: Record<string, DagLeaf> = {};
+  const chunkSize = resolveChunkSize(options);
 
   let rootLeaf: DagLeaf;
 
   // Check if file needs chunking
-  if (data.length > DEFAULT_CHUNK_SIZE) {
-    rootLeaf = await processLargeFile(fileName, data, leaves);
+  if (data.length > chunkSize) {
+    rootLeaf = await processLargeFile(fileName, data, chunkSize, leaves);
   } else {
     rootLeaf = await processSmallFile(fileName, data, leaves);
   }
@@ -50,9 +69,14 @@ export async function createDagFromFile(
   delete leaves[rootLeaf.Hash];
 
   // Add timestamp if requested
-  const additionalData = options?.timestampRoot
-    ? { timestamp: new Date().toISOString() }
-    : undefined;
+  const rootData: Record<string, string> = {};
+  if (options?.timestampRoot) {
+    rootData['timestamp'] = new Date().toISOString();
+  }
+
+  // Record a custom chunk size so the DAG can be rebuilt reproducibly
+  recordChunkSize(rootData, chunkSize);
+  const additionalData = Object.keys(rootData).length > 0 ? rootData : undefined;
 
   // Rebuild root with statistics
   const builder = new BrowserDagLeafBuilder(fileName).setType(LeafType.File);
@@ -107,6 +131,7 @@ async function processSmallFile(
 async function processLargeFile(
   fileName: string,
   content: Uint8Array,
+  chunkSize: number,
   leaves: Record<string, DagLeaf>
 ): Promise<DagLeaf> {
   const chunkHashes: string[] = [];
@@ -114,17 +139,15 @@ async function processLargeFile(
   let chunkIndex = 0;
 
   while (offset < content.length) {
-    const chunkSize = Math.min(DEFAULT_CHUNK_SIZE, content.length - offset);
-    const chunk = content.slice(offset, offset + chunkSize);
+    const chunk = content.slice(offset, Math.min(offset + chunkSize, content.length));
 
-    const chunkName = `${fileName}.chunk.${chunkIndex}`;
-    const chunkBuilder = new BrowserDagLeafBuilder(chunkName).setType(LeafType.Chunk).setData(chunk);
+    const chunkBuilder = new BrowserDagLeafBuilder(chunkItemName(fileName, chunkIndex)).setType(LeafType.Chunk).setData(chunk);
 
     const chunkLeaf = await chunkBuilder.buildLeaf();
     leaves[chunkLeaf.Hash] = chunkLeaf;
     chunkHashes.push(chunkLeaf.Hash);
 
-    offset += chunkSize;
+    offset += chunk.length;
     chunkIndex++;
   }
 
@@ -207,6 +230,7 @@ function toBuffer(data: Uint8Array): Buffer {
 
 /**
  * Verify DAG integrity
+ * Recomputes every leaf's CID and checks the root statistics
  */
 export async function verifyDag(dag: Dag): Promise<void> {
   const rootLeaf = dag.Leafs[dag.Root];
@@ -218,28 +242,80 @@ export async function verifyDag(dag: Dag): Promise<void> {
   for (const [hash, leaf] of Object.entries(dag.Leafs)) {
     await verifyLeaf(hash, leaf, dag);
   }
+
+  await verifyRootStatistics(rootLeaf, dag);
 }
 
 /**
  * Verify a single leaf
  */
 async function verifyLeaf(expectedHash: string, leaf: DagLeaf, dag: Dag): Promise<void> {
+  if (leaf.Hash !== expectedHash) {
+    throw new Error(`Leaf stored under ${expectedHash} has hash ${leaf.Hash}`);
+  }
+
+  const links = leaf.Links || [];
+
   // Verify linked children exist
-  if (leaf.Links) {
-    for (const linkHash of leaf.Links) {
-      if (!dag.Leafs[linkHash]) {
-        throw new Error(`Linked leaf ${linkHash} not found in DAG`);
-      }
+  for (const linkHash of links) {
+    if (!dag.Leafs[linkHash]) {
+      throw new Error(`Linked leaf ${linkHash} not found in DAG`);
     }
   }
 
-  // Verify content hash if present
-  if (leaf.ContentHash && leaf.Content) {
+  if (links.length !== leaf.CurrentLinkCount) {
+    throw new Error(`Link count mismatch for leaf ${expectedHash}`);
+  }
+
+  // Verify Classic Merkle root commits to exactly these links
+  const computedRoot = (await computeLinksMerkleRoot(links)) || new Uint8Array(0);
+  if (!arraysEqual(computedRoot, leaf.ClassicMerkleRoot || new Uint8Array(0))) {
+    throw new Error(`Classic Merkle root mismatch for leaf ${expectedHash}`);
+  }
+
+  // Verify content hash if content is present
+  if (leaf.Content) {
     const computedHash = await hashData(leaf.Content);
-    if (!arraysEqual(computedHash, leaf.ContentHash)) {
+    if (!leaf.ContentHash || !arraysEqual(computedHash, leaf.ContentHash)) {
       throw new Error(`Content hash mismatch for leaf ${expectedHash}`);
     }
   }
+
+  // Recompute CID
+  const leafData = expectedHash === dag.Root ? rootLeafHashData(leaf) : leafHashData(leaf);
+  const computedCid = await createCID(leafData);
+  if (computedCid !== expectedHash) {
+    throw new Error(`CID mismatch for leaf ${expectedHash}: computed ${computedCid}`);
+  }
+}
+
+/**
+ * Verify root LeafCount, ContentSize and DagSize against the leaves present
+ */
+async function verifyRootStatistics(rootLeaf: DagLeaf, dag: Dag): Promise<void> {
+  const cbor = await import('cbor');
+  const leafCount = Object.keys(dag.Leafs).length;
+  let contentSize = 0;
+  let dagSize = cbor.encode(createTempRootForSize(rootLeaf, rootLeaf.AdditionalData)).length;
+
+  for (const [hash, leaf] of Object.entries(dag.Leafs)) {
+    if ((leaf.Type === LeafType.File || leaf.Type === LeafType.Chunk) && leaf.Content) {
+      contentSize += leaf.Content.length;
+    }
+    if (hash !== dag.Root) {
+      dagSize += cbor.encode(createLeafForSize(leaf)).length;
+    }
+  }
+
+  if (rootLeaf.LeafCount !== leafCount) {
+    throw new Error(`Root LeafCount ${rootLeaf.LeafCount} does not match ${leafCount} leaves in DAG`);
+  }
+  if (rootLeaf.ContentSize !== contentSize) {
+    throw new Error(`Root ContentSize ${rootLeaf.ContentSize} does not match computed ${contentSize}`);
+  }
+  if (rootLeaf.DagSize !== dagSize) {
+    throw new Error(`Root DagSize ${rootLeaf.DagSize} does not match computed ${dagSize}`);
+  }
 }
 
 /**
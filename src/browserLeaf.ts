@@ -20,6 +20,61 @@ function sortMapForVerification(
     .map(([k, v]) => ({ Key: k, Value: v }));
 }
 
+/**
+ * Build the structure that is CBOR-encoded to produce a leaf's CID
+ */
+export function leafHashData(
+  leaf: Pick<DagLeaf, 'ItemName' | 'Type' | 'ClassicMerkleRoot' | 'CurrentLinkCount' | 'ContentHash' | 'AdditionalData'>
+): Record<string, unknown> {
+  return {
+    ItemName: leaf.ItemName,
+    Type: leaf.Type,
+    MerkleRoot: leaf.ClassicMerkleRoot ? toBuffer(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
+    CurrentLinkCount: leaf.CurrentLinkCount,
+    ContentHash: leaf.ContentHash ? toBuffer(leaf.ContentHash) : null,
+    AdditionalData: sortMapForVerification(leaf.AdditionalData),
+  };
+}
+
+/**
+ * Build the structure that is CBOR-encoded to produce a root leaf's CID
+ */
+export function rootLeafHashData(
+  leaf: Pick<DagLeaf, 'ItemName' | 'Type' | 'ClassicMerkleRoot' | 'CurrentLinkCount' | 'ContentHash' | 'AdditionalData' | 'LeafCount' | 'ContentSize' | 'DagSize'>
+): Record<string, unknown> {
+  return {
+    ItemName: leaf.ItemName,
+    Type: leaf.Type,
+    MerkleRoot: leaf.ClassicMerkleRoot ? toBuffer(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
+    CurrentLinkCount: leaf.CurrentLinkCount,
+    LeafCount: leaf.LeafCount,
+    ContentSize: leaf.ContentSize,
+    DagSize: leaf.DagSize,
+    ContentHash: leaf.ContentHash ? toBuffer(leaf.ContentHash) : null,
+    AdditionalData: sortMapForVerification(leaf.AdditionalData),
+  };
+}
+
+/**
+ * Compute the Classic Merkle root committing to a list of links
+ */
+export async function computeLinksMerkleRoot(links: string[]): Promise<Uint8Array | undefined> {
+  if (links.length > 1) {
+    const hashedLeaves: Uint8Array[] = [];
+    for (const link of links) {
+      const linkBytes = new TextEncoder().encode(link);
+      hashedLeaves.push(await hashData(linkBytes));
+    }
+    const tree = new BrowserMerkleTree(hashedLeaves);
+    await tree.build();
+    return tree.getRoot();
+  } else if (links.length === 1) {
+    const linkBytes = new TextEncoder().encode(links[0]);
+    return await hashData(linkBytes);
+  }
+  return undefined;
+}
+
 /**
  * Builder for creating DAG leaves (browser version)
  */
@@ -57,20 +112,7 @@ export class BrowserDagLeafBuilder {
     }
 
     // Build merkle root for links
-    let merkleRoot: Uint8Array | undefined;
-    if (this.links.length > 1) {
-      const hashedLeaves: Uint8Array[] = [];
-      for (const link of this.links) {
-        const linkBytes = new TextEncoder().encode(link);
-        hashedLeaves.push(await hashData(linkBytes));
-      }
-      const tree = new BrowserMerkleTree(hashedLeaves);
-      await tree.build();
-      merkleRoot = tree.getRoot();
-    } else if (this.links.length === 1) {
-      const linkBytes = new TextEncoder().encode(this.links[0]);
-      merkleRoot = await hashData(linkBytes);
-    }
+    const merkleRoot = await computeLinksMerkleRoot(this.links);
 
     // Compute content hash
     let contentHash: Uint8Array | undefined;
@@ -79,14 +121,14 @@ export class BrowserDagLeafBuilder {
     }
 
     // Create leaf data for hashing
-    const leafData = {
+    const leafData = leafHashData({
       ItemName: this.itemName,
       Type: this.leafType,
-      MerkleRoot: merkleRoot ? toBuffer(merkleRoot) : Buffer.alloc(0),
+      ClassicMerkleRoot: merkleRoot,
       CurrentLinkCount: this.links.length,
-      ContentHash: contentHash ? toBuffer(contentHash) : null,
-      AdditionalData: sortMapForVerification(additionalData),
-    };
+      ContentHash: contentHash,
+      AdditionalData: additionalData,
+    });
 
     // Create CID
     const hash = await createCID(leafData);
@@ -132,19 +174,7 @@ export class BrowserDagLeafBuilder {
     leaf.DagSize = dagSize;
 
     // Recompute hash with root fields
-    const leafData = {
-      ItemName: leaf.ItemName,
-      Type: leaf.Type,
-      MerkleRoot: leaf.ClassicMerkleRoot ? toBuffer(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
-      CurrentLinkCount: leaf.CurrentLinkCount,
-      LeafCount: leafCount,
-      ContentSize: contentSize,
-      DagSize: dagSize,
-      ContentHash: leaf.ContentHash ? toBuffer(leaf.ContentHash) : null,
-      AdditionalData: sortMapForVerification(additionalData),
-    };
-
-    leaf.Hash = await createCID(leafData);
+    leaf.Hash = await createCID(rootLeafHashData(leaf));
 
     return leaf;
   }
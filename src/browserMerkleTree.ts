@@ -3,8 +3,9 @@
  * Uses Web Crypto API instead of Node's crypto
  */
 
-import { MerkleProof } from './types';
+import { MerkleProof, MerkleMultiProof } from './types';
 import { hashData } from './browserHash';
+import { checkProofShape, encodeProofPath } from './merklePath';
 
 /**
  * Hash a pair of nodes (browser-compatible)
@@ -16,6 +17,10 @@ async function hashPair(left: Uint8Array, right: Uint8Array): Promise<Uint8Array
   return await hashData(combined);
 }
 
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
 /**
  * Browser-compatible Merkle Tree
  */
@@ -105,9 +110,8 @@ export class BrowserMerkleTree {
     }
 
     const siblings: Uint8Array[] = [];
-    let path = 0;
+    const siblingOnRight: boolean[] = [];
     let index = leafIndex;
-    let siblingCount = 0;
 
     for (let level = 0; level < this.layers.length - 1; level++) {
       const layer = this.layers[level];
@@ -116,12 +120,7 @@ export class BrowserMerkleTree {
 
       if (siblingIndex < layer.length) {
         siblings.push(layer[siblingIndex]);
-
-        if (!isRightNode) {
-          path |= 1 << siblingCount;
-        }
-
-        siblingCount++;
+        siblingOnRight.push(!isRightNode);
       }
 
       index = Math.floor(index / 2);
@@ -129,21 +128,30 @@ export class BrowserMerkleTree {
 
     return {
       Siblings: siblings,
-      Path: path,
+      ...encodeProofPath(siblingOnRight),
     };
   }
 
   /**
    * Verify a Merkle proof (async for browser compatibility)
+   * Malformed proofs are rejected the same way as MerkleTree.verify
    */
-  static async verify(leaf: Uint8Array, proof: MerkleProof, root: Uint8Array): Promise<boolean> {
-    let current = leaf;
+  static async verify(
+    leaf: Uint8Array,
+    proof: MerkleProof,
+    root: Uint8Array,
+    leafCount?: number
+  ): Promise<boolean> {
+    const path = checkProofShape(proof, root, leafCount);
+    if (!path) {
+      return false;
+    }
 
+    let current = leaf;
     for (let i = 0; i < proof.Siblings.length; i++) {
       const sibling = proof.Siblings[i];
-      const siblingOnRight = (proof.Path & (1 << i)) !== 0;
 
-      if (siblingOnRight) {
+      if (path[i]) {
         current = await hashPair(current, sibling);
       } else {
         current = await hashPair(sibling, current);
@@ -153,6 +161,113 @@ export class BrowserMerkleTree {
     return current.length === root.length && current.every((val, idx) => val === root[idx]);
   }
 
+  /**
+   * Generate one proof for several leaves
+   * Uses the same sibling selection as MerkleTree.getMultiProof
+   */
+  getMultiProof(leafIndices: number[]): MerkleMultiProof {
+    if (this.layers.length === 0) {
+      throw new Error('Tree not built yet - call build() first');
+    }
+    if (leafIndices.length === 0) {
+      throw new Error('No leaf indices given');
+    }
+    for (const index of leafIndices) {
+      if (!Number.isInteger(index) || index < 0 || index >= this.leaves.length) {
+        throw new Error('Leaf index out of bounds');
+      }
+    }
+
+    const siblings: Uint8Array[] = [];
+    let known = [...new Set(leafIndices)].sort((a, b) => a - b);
+    let count = this.leaves.length;
+
+    for (let level = 0; count > 1; level++) {
+      const layer = this.layers[level];
+      const parents: number[] = [];
+
+      for (let k = 0; k < known.length; k++) {
+        const index = known[k];
+        if (index % 2 === 1) {
+          siblings.push(layer[index - 1]);
+        } else if (known[k + 1] === index + 1) {
+          k++;
+        } else if (index + 1 < count) {
+          siblings.push(layer[index + 1]);
+        }
+        parents.push(index >> 1);
+      }
+
+      known = parents;
+      count = Math.ceil(count / 2);
+    }
+
+    return {
+      LeafCount: this.leaves.length,
+      Siblings: siblings,
+    };
+  }
+
+  /**
+   * Verify a multiproof (async for browser compatibility)
+   */
+  static async verifyMulti(
+    leaves: Uint8Array[],
+    leafIndices: number[],
+    proof: MerkleMultiProof,
+    root: Uint8Array
+  ): Promise<boolean> {
+    const count = proof.LeafCount;
+    if (leaves.length === 0 || leaves.length !== leafIndices.length || !Number.isSafeInteger(count) || count < 1) {
+      return false;
+    }
+
+    let nodes = new Map<number, Uint8Array>();
+    for (let i = 0; i < leafIndices.length; i++) {
+      const index = leafIndices[i];
+      if (!Number.isInteger(index) || index < 0 || index >= count) {
+        return false;
+      }
+      const existing = nodes.get(index);
+      if (existing && !bytesEqual(existing, leaves[i])) {
+        return false;
+      }
+      nodes.set(index, leaves[i]);
+    }
+
+    let next = 0;
+    let levelCount = count;
+    while (levelCount > 1) {
+      const known = [...nodes.keys()].sort((a, b) => a - b);
+      const parents = new Map<number, Uint8Array>();
+
+      for (let k = 0; k < known.length; k++) {
+        const index = known[k];
+        const node = nodes.get(index)!;
+        let parent: Uint8Array;
+
+        if (index % 2 === 1) {
+          if (next >= proof.Siblings.length) return false;
+          parent = await hashPair(proof.Siblings[next++], node);
+        } else if (known[k + 1] === index + 1) {
+          parent = await hashPair(node, nodes.get(index + 1)!);
+          k++;
+        } else if (index + 1 < levelCount) {
+          if (next >= proof.Siblings.length) return false;
+          parent = await hashPair(node, proof.Siblings[next++]);
+        } else {
+          parent = await hashPair(node, node);
+        }
+        parents.set(index >> 1, parent);
+      }
+
+      nodes = parents;
+      levelCount = Math.ceil(levelCount / 2);
+    }
+
+    return next === proof.Siblings.length && bytesEqual(nodes.get(0)!, root);
+  }
+
   getLeafCount(): number {
     return this.leaves.length;
   }
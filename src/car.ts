@@ -0,0 +1,551 @@
+/**
+ * CAR (Content Addressable aRchive) import and export
+ * The DAG root is the single root in the CAR header, and every block's bytes
+ * hash to its CID:
+ * - a leaf block holds the CBOR hash data its CID commits to (leafHashData,
+ *   or rootLeafHashData for the root)
+ * - a raw block holds a leaf's content, keyed by its content hash
+ * - a CBOR links block holds a leaf's links and stored proofs, which the leaf
+ *   commits to through its Merkle root
+ *
+ * A leaf's content and links blocks are written just before the leaf block, so
+ * readers can rebuild each leaf as soon as its block arrives. A DAG read back
+ * from a CAR is identical to the one written and passes verifyDag.
+ */
+
+import * as cbor from 'cbor';
+import { Dag, DagLeaf, LeafType, ScionicError } from './types';
+import { encodeLeafLinks, decodeLeafLinks } from './serialize';
+import {
+  cidToBytes,
+  cidFromBytes,
+  cidForBytes,
+  cidForDigest,
+  encodeHashData,
+  encodeVarint,
+  decodeVarint,
+  hashData,
+  CBOR_CODEC,
+  RAW_CODEC,
+} from './hash';
+import { leafHashData, rootLeafHashData } from './leaf';
+import { LeafStore, StoredDag, toStoredDag } from './store';
+
+/**
+ * Fixed prefix identifying a CARv2 file
+ */
+const CAR_V2_PRAGMA = Buffer.from([0x0a, 0xa1, 0x67, 0x76, 0x65, 0x72, 0x73, 0x69, 0x6f, 0x6e, 0x02]);
+const CAR_V2_HEADER_SIZE = 40;
+const CAR_V2_INDEX_SORTED = 0x0400;
+const CID_TAG = 42;
+
+/**
+ * Options for CAR export
+ */
+export interface CarOptions {
+  /** CAR format version (default 1) */
+  version?: 1 | 2;
+}
+
+/**
+ * Encode a DAG as a CAR file
+ * Version 2 wraps the same payload with a header and a sorted index
+ */
+export function toCAR(dag: Dag, options: CarOptions = {}): Uint8Array {
+  const rootLeaf = dag.Leafs[dag.Root];
+  if (!rootLeaf) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+
+  const sections: Uint8Array[] = [encodeCarHeader(dag.Root), ...encodeLeafBlocks(rootLeaf, true)];
+  for (const leaf of Object.values(dag.Leafs)) {
+    if (leaf.Hash !== dag.Root) {
+      sections.push(...encodeLeafBlocks(leaf, false));
+    }
+  }
+
+  const payload = Buffer.concat(sections);
+  const version = options.version ?? 1;
+  if (version === 1) {
+    return payload;
+  }
+  if (version !== 2) {
+    throw new ScionicError(`Unsupported CAR version: ${version}`);
+  }
+
+  return wrapCarV2(payload, sections);
+}
+
+/**
+ * Decode a CARv1 or CARv2 file into a DAG
+ */
+export function fromCAR(data: Uint8Array): Dag {
+  let payload = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  if (startsWithPragma(payload)) {
+    const { dataOffset, dataSize } = decodeCarV2Header(payload.subarray(CAR_V2_PRAGMA.length));
+    if (dataOffset + dataSize > payload.length) {
+      throw new ScionicError('Truncated CARv2 payload');
+    }
+    payload = payload.subarray(dataOffset, dataOffset + dataSize);
+  }
+
+  let offset = 0;
+  const readSection = (): Uint8Array => {
+    const [length, read] = decodeVarint(payload, offset);
+    const start = offset + read;
+    if (start + length > payload.length) {
+      throw new ScionicError(`Truncated CAR section at offset ${offset}`);
+    }
+    offset = start + length;
+    return payload.subarray(start, offset);
+  };
+
+  const root = decodeCarHeader(readSection());
+  const assembler = new LeafAssembler();
+  const leaves: Record<string, DagLeaf> = {};
+  while (offset < payload.length) {
+    const leaf = assembler.add(readSection());
+    if (leaf) {
+      leaves[leaf.Hash] = leaf;
+    }
+  }
+  assembler.finish();
+
+  if (!leaves[root]) {
+    throw new ScionicError(`Root ${root} not found in CAR`);
+  }
+
+  return { Root: root, Leafs: leaves };
+}
+
+/**
+ * Encode a DAG as a CARv1 stream, one header or block at a time
+ * Stored DAGs are read leaf by leaf, so they need not fit in memory
+ */
+export async function* toCARStream(dag: Dag | StoredDag): AsyncGenerator<Uint8Array> {
+  const stored = 'Store' in dag ? dag : toStoredDag(dag);
+  const rootLeaf = await stored.Store.get(stored.Root);
+  if (!rootLeaf) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+
+  yield encodeCarHeader(stored.Root);
+  yield* encodeLeafBlocks(rootLeaf, true);
+
+  for await (const hash of stored.Store.hashes()) {
+    if (hash === stored.Root) {
+      continue;
+    }
+    const leaf = await stored.Store.get(hash);
+    if (leaf) {
+      yield* encodeLeafBlocks(leaf, false);
+    }
+  }
+}
+
+/**
+ * Decode a CARv1 or CARv2 stream, putting each leaf into a store as it arrives
+ * Accepts any async iterable of bytes, such as a Node.js Readable
+ */
+export async function fromCARStream(source: AsyncIterable<Uint8Array>, store: LeafStore): Promise<StoredDag> {
+  const reader = new StreamReader(source);
+
+  // CARv2 carries a CARv1 payload at dataOffset; anything after it is index
+  let payloadEnd = Infinity;
+  if (startsWithPragma(await reader.peek(CAR_V2_PRAGMA.length))) {
+    await reader.read(CAR_V2_PRAGMA.length);
+    const { dataOffset, dataSize } = decodeCarV2Header(await reader.read(CAR_V2_HEADER_SIZE));
+    if (dataOffset < reader.position) {
+      throw new ScionicError(`Invalid CARv2 data offset: ${dataOffset}`);
+    }
+    await reader.read(dataOffset - reader.position);
+    payloadEnd = dataOffset + dataSize;
+  }
+
+  const headerSection = await reader.readSection();
+  if (!headerSection) {
+    throw new ScionicError('CAR stream is empty');
+  }
+  const root = decodeCarHeader(headerSection);
+
+  const assembler = new LeafAssembler();
+  let sawRoot = false;
+  while (reader.position < payloadEnd) {
+    const section = await reader.readSection();
+    if (!section) {
+      if (payloadEnd !== Infinity) {
+        throw new ScionicError('Truncated CARv2 payload');
+      }
+      break;
+    }
+
+    const leaf = assembler.add(section);
+    if (leaf) {
+      sawRoot = sawRoot || leaf.Hash === root;
+      await store.put(leaf);
+    }
+  }
+  assembler.finish();
+
+  if (!sawRoot) {
+    throw new ScionicError(`Root ${root} not found in CAR`);
+  }
+
+  return { Root: root, Store: store };
+}
+
+/**
+ * Encode the CARv1 header section: dag-cbor { roots: [CID], version: 1 }
+ */
+function encodeCarHeader(root: string): Uint8Array {
+  // dag-cbor links are tag 42 over the binary CID with a leading zero byte
+  const link = new cbor.Tagged(CID_TAG, Buffer.concat([Buffer.from([0]), cidToBytes(root)]));
+  return withLengthPrefix(cbor.encode({ roots: [link], version: 1 }));
+}
+
+function decodeCarHeader(section: Uint8Array): string {
+  const header = cbor.decode(Buffer.from(section.buffer, section.byteOffset, section.byteLength));
+  if (header?.version !== 1) {
+    throw new ScionicError(`Unsupported CAR header version: ${header?.version}`);
+  }
+
+  const roots = header.roots;
+  if (!Array.isArray(roots) || roots.length !== 1) {
+    throw new ScionicError('CAR header must have exactly one root');
+  }
+
+  const link = roots[0];
+  if (!(link instanceof cbor.Tagged) || link.tag !== CID_TAG || !(link.value instanceof Uint8Array)) {
+    throw new ScionicError('CAR root is not a CID link');
+  }
+
+  return cidFromBytes(link.value.subarray(1));
+}
+
+/**
+ * Encode one leaf as CAR block sections: its content and links blocks, then the leaf block
+ */
+function encodeLeafBlocks(leaf: DagLeaf, isRoot: boolean): Uint8Array[] {
+  const sections: Uint8Array[] = [];
+
+  if (leaf.Content) {
+    const contentCid = cidForBytes(leaf.Content, RAW_CODEC);
+    if (!leaf.ContentHash || cidForDigest(leaf.ContentHash, RAW_CODEC) !== contentCid) {
+      throw new ScionicError(`Leaf ${leaf.Hash} content does not match its content hash`);
+    }
+    sections.push(encodeBlock(contentCid, leaf.Content));
+  }
+
+  if (leaf.Links || leaf.stored_proofs) {
+    const links = encodeLeafLinks(leaf);
+    sections.push(encodeBlock(cidForBytes(links, CBOR_CODEC), links));
+  }
+
+  const fields = encodeHashData(isRoot ? rootLeafHashData(leaf) : leafHashData(leaf));
+  if (cidForBytes(fields, CBOR_CODEC) !== leaf.Hash) {
+    throw new ScionicError(`Leaf ${leaf.Hash} does not hash to its CID`);
+  }
+  sections.push(encodeBlock(leaf.Hash, fields));
+
+  return sections;
+}
+
+/**
+ * Encode a CAR block section: CID bytes followed by the block bytes
+ */
+function encodeBlock(cid: string, data: Uint8Array): Uint8Array {
+  return withLengthPrefix(Buffer.concat([cidToBytes(cid), data]));
+}
+
+/**
+ * Decode a CAR block section, checking that its bytes hash to its CID
+ */
+function decodeBlock(section: Uint8Array): { cid: string; codec: number; data: Uint8Array } {
+  const { cidLength, codec, digest } = readBlockCid(section);
+  const cid = cidFromBytes(section.subarray(0, cidLength));
+  const data = section.subarray(cidLength);
+
+  if (!Buffer.from(hashData(data)).equals(digest)) {
+    throw new ScionicError(`Block ${cid} does not hash to its CID`);
+  }
+
+  return { cid, codec, data };
+}
+
+/**
+ * Rebuild a leaf's CID fields from the hash data in its block
+ */
+function decodeLeafFields(cid: string, data: Uint8Array): DagLeaf {
+  const fields = cbor.decode(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  if (
+    typeof fields?.ItemName !== 'string' ||
+    !Object.values(LeafType).includes(fields.Type) ||
+    typeof fields.CurrentLinkCount !== 'number' ||
+    !Array.isArray(fields.AdditionalData)
+  ) {
+    throw new ScionicError(`Block ${cid} is not a leaf`);
+  }
+
+  const leaf: DagLeaf = {
+    Hash: cid,
+    ItemName: fields.ItemName,
+    Type: fields.Type,
+    CurrentLinkCount: fields.CurrentLinkCount,
+  };
+
+  if (fields.ContentHash) {
+    leaf.ContentHash = new Uint8Array(fields.ContentHash);
+  }
+  if (fields.MerkleRoot?.length > 0) {
+    leaf.ClassicMerkleRoot = new Uint8Array(fields.MerkleRoot);
+  }
+  if (fields.LeafCount !== undefined) {
+    leaf.LeafCount = fields.LeafCount;
+    leaf.ContentSize = fields.ContentSize;
+    leaf.DagSize = fields.DagSize;
+  }
+  if (fields.AdditionalData.length > 0) {
+    leaf.AdditionalData = {};
+    for (const { Key, Value } of fields.AdditionalData) {
+      leaf.AdditionalData[Key] = Value;
+    }
+  }
+
+  return leaf;
+}
+
+/**
+ * Rebuilds leaves from CAR block sections in the order encodeLeafBlocks writes them
+ * Only the content and links blocks of the leaf being read are held
+ */
+class LeafAssembler {
+  private contents = new Map<string, Uint8Array>();
+  private links = new Map<string, Pick<DagLeaf, 'Links' | 'stored_proofs'>>();
+
+  /**
+   * Add one block section; returns the leaf it completes, if any
+   */
+  add(section: Uint8Array): DagLeaf | undefined {
+    const { cid, codec, data } = decodeBlock(section);
+
+    if (codec === RAW_CODEC) {
+      this.contents.set(cid, new Uint8Array(data));
+      return undefined;
+    }
+    if (codec !== CBOR_CODEC) {
+      throw new ScionicError(`Unsupported codec in CAR block ${cid}: 0x${codec.toString(16)}`);
+    }
+
+    const decoded = cbor.decode(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+    if (decoded && typeof decoded.Leaf === 'string') {
+      const { Hash, ...links } = decodeLeafLinks(data);
+      this.links.set(Hash, links);
+      return undefined;
+    }
+
+    const leaf = decodeLeafFields(cid, data);
+
+    if (leaf.ContentHash) {
+      const contentCid = cidForDigest(leaf.ContentHash, RAW_CODEC);
+      const content = this.contents.get(contentCid);
+      if (content) {
+        leaf.Content = content;
+        this.contents.delete(contentCid);
+      }
+    }
+
+    const links = this.links.get(leaf.Hash);
+    if (links) {
+      Object.assign(leaf, links);
+      this.links.delete(leaf.Hash);
+    }
+
+    return leaf;
+  }
+
+  /**
+   * Check that every content and links block was claimed by a leaf
+   */
+  finish(): void {
+    const [unclaimed] = [...this.contents.keys(), ...this.links.keys()];
+    if (unclaimed !== undefined) {
+      throw new ScionicError(`CAR block for ${unclaimed} is not followed by its leaf`);
+    }
+  }
+}
+
+/**
+ * Locate the CIDv1 at the start of a block section
+ * Returns its total length, its codec and its SHA256 digest
+ */
+function readBlockCid(section: Uint8Array): { cidLength: number; codec: number; digest: Uint8Array } {
+  let offset = 0;
+  const next = (): number => {
+    const [value, read] = decodeVarint(section, offset);
+    offset += read;
+    return value;
+  };
+
+  const version = next();
+  if (version !== 1) {
+    throw new ScionicError(`Unsupported CID version in CAR block: ${version}`);
+  }
+  const codec = next();
+  const hashFunction = next();
+  const digestLength = next();
+  if (hashFunction !== 0x12 || digestLength !== 32) {
+    throw new ScionicError('Unsupported multihash in CAR block: only SHA2-256 is supported');
+  }
+
+  if (offset + digestLength > section.length) {
+    throw new ScionicError('Truncated CID in CAR block');
+  }
+
+  return { cidLength: offset + digestLength, codec, digest: section.subarray(offset, offset + digestLength) };
+}
+
+/**
+ * Wrap a CARv1 payload in a CARv2 header and append an IndexSorted index
+ */
+function wrapCarV2(payload: Uint8Array, sections: Uint8Array[]): Uint8Array {
+  const dataOffset = CAR_V2_PRAGMA.length + CAR_V2_HEADER_SIZE;
+  const index = encodeSortedIndex(sections);
+
+  // Characteristics (16 bytes) are left zero: the index is not "fully indexed"
+  const header = Buffer.alloc(CAR_V2_HEADER_SIZE);
+  header.writeBigUInt64LE(BigInt(dataOffset), 16);
+  header.writeBigUInt64LE(BigInt(payload.length), 24);
+  header.writeBigUInt64LE(BigInt(dataOffset + payload.length), 32);
+
+  return Buffer.concat([CAR_V2_PRAGMA, header, payload, index]);
+}
+
+/**
+ * Build an IndexSorted index: buckets of (digest, payload offset) entries
+ * grouped by width and sorted by digest
+ */
+function encodeSortedIndex(sections: Uint8Array[]): Uint8Array {
+  const buckets = new Map<number, Array<{ digest: Buffer; offset: number }>>();
+
+  // The first section is the header; block offsets point at their length prefix
+  let offset = sections[0].length;
+  for (const section of sections.slice(1)) {
+    const [, prefixLength] = decodeVarint(section);
+    const digest = Buffer.from(readBlockCid(section.subarray(prefixLength)).digest);
+
+    const width = digest.length + 8;
+    if (!buckets.has(width)) {
+      buckets.set(width, []);
+    }
+    buckets.get(width)!.push({ digest, offset });
+    offset += section.length;
+  }
+
+  const parts: Buffer[] = [Buffer.from(encodeVarint(CAR_V2_INDEX_SORTED))];
+  const bucketCount = Buffer.alloc(4);
+  bucketCount.writeInt32LE(buckets.size, 0);
+  parts.push(bucketCount);
+
+  for (const width of [...buckets.keys()].sort((a, b) => a - b)) {
+    const entries = buckets.get(width)!.sort((a, b) => Buffer.compare(a.digest, b.digest));
+    const bucketHeader = Buffer.alloc(12);
+    bucketHeader.writeUInt32LE(width, 0);
+    bucketHeader.writeBigInt64LE(BigInt(entries.length * width), 4);
+    parts.push(bucketHeader);
+
+    for (const entry of entries) {
+      const entryOffset = Buffer.alloc(8);
+      entryOffset.writeBigUInt64LE(BigInt(entry.offset), 0);
+      parts.push(entry.digest, entryOffset);
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+function decodeCarV2Header(header: Uint8Array): { dataOffset: number; dataSize: number } {
+  if (header.length < CAR_V2_HEADER_SIZE) {
+    throw new ScionicError('Truncated CARv2 header');
+  }
+  const view = Buffer.from(header.buffer, header.byteOffset, CAR_V2_HEADER_SIZE);
+  return {
+    dataOffset: Number(view.readBigUInt64LE(16)),
+    dataSize: Number(view.readBigUInt64LE(24)),
+  };
+}
+
+function startsWithPragma(data: Uint8Array): boolean {
+  return data.length >= CAR_V2_PRAGMA.length && CAR_V2_PRAGMA.equals(data.subarray(0, CAR_V2_PRAGMA.length));
+}
+
+function withLengthPrefix(data: Uint8Array): Uint8Array {
+  return Buffer.concat([encodeVarint(data.length), data]);
+}
+
+/**
+ * Pull-based reader over an async byte source
+ */
+class StreamReader {
+  private readonly iterator: AsyncIterator<Uint8Array>;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: Uint8Array[] = [];
+  private pendingLength = 0;
+  private done = false;
+  /** Number of bytes consumed so far */
+  position = 0;
+
+  constructor(source: AsyncIterable<Uint8Array>) {
+    this.iterator = source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Return up to the next n bytes without consuming them
+   * Fewer bytes are returned only at the end of the stream
+   */
+  async peek(n: number): Promise<Buffer> {
+    while (this.buffer.length + this.pendingLength < n && !this.done) {
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.done = true;
+      } else {
+        this.pending.push(next.value);
+        this.pendingLength += next.value.length;
+      }
+    }
+
+    // Concatenate once per peek rather than once per incoming chunk
+    if (this.pending.length > 0 && this.buffer.length < n) {
+      this.buffer = Buffer.concat([this.buffer, ...this.pending]);
+      this.pending = [];
+      this.pendingLength = 0;
+    }
+
+    return this.buffer.subarray(0, n);
+  }
+
+  async read(n: number): Promise<Buffer> {
+    const data = await this.peek(n);
+    if (data.length < n) {
+      throw new ScionicError(`Truncated CAR stream at offset ${this.position}`);
+    }
+    this.buffer = this.buffer.subarray(n);
+    this.position += n;
+    return data;
+  }
+
+  /**
+   * Read one varint-length-prefixed section, or null at a clean end of stream
+   */
+  async readSection(): Promise<Buffer | null> {
+    // A varint is at most 10 bytes; decode from whatever is available
+    const prefix = await this.peek(10);
+    if (prefix.length === 0) {
+      return null;
+    }
+
+    const [length, read] = decodeVarint(prefix);
+    await this.read(read);
+    return this.read(length);
+  }
+}
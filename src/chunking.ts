@@ -0,0 +1,95 @@
+/**
+ * Chunking parameters shared by all DAG builders
+ *
+ * The canonical scheme, used by createDag, createDagFromFile and the streaming
+ * builder alike: content of at most chunkSize bytes becomes a single file leaf;
+ * larger content is split into chunkSize pieces (the last may be shorter),
+ * named by chunkItemName and linked in order from the file leaf.
+ */
+
+import { Dag, DagBuilderConfig, DagLeaf, DEFAULT_CHUNK_SIZE, ScionicError } from './types';
+
+/**
+ * Root AdditionalData key recording a non-default chunk size
+ * DAGs built with the default size omit it, keeping their CIDs identical to Go
+ */
+export const CHUNK_SIZE_KEY = 'chunk_size';
+
+/**
+ * Item name of the chunk at `index` of a file
+ */
+export function chunkItemName(fileName: string, index: number): string {
+  return `${fileName}.chunk.${index}`;
+}
+
+/**
+ * Validate a chunk size
+ */
+export function validateChunkSize(chunkSize: number): number {
+  if (!Number.isSafeInteger(chunkSize) || chunkSize <= 0) {
+    throw new ScionicError(`Invalid chunk size: ${chunkSize}`);
+  }
+  return chunkSize;
+}
+
+/**
+ * Get the chunk size requested by a builder config
+ */
+export function resolveChunkSize(config?: DagBuilderConfig): number {
+  if (config?.chunkSize === undefined) {
+    return DEFAULT_CHUNK_SIZE;
+  }
+  return validateChunkSize(config.chunkSize);
+}
+
+/**
+ * Record the chunk size in root additional data if it differs from the default
+ */
+export function recordChunkSize(additionalData: Record<string, string>, chunkSize: number): void {
+  if (chunkSize !== DEFAULT_CHUNK_SIZE) {
+    additionalData[CHUNK_SIZE_KEY] = chunkSize.toString();
+  }
+}
+
+/**
+ * Get the chunk size a DAG was built with
+ * Returns DEFAULT_CHUNK_SIZE when the root does not record one
+ */
+export function getChunkSize(dag: Dag): number {
+  const rootLeaf = dag.Leafs[dag.Root];
+  if (!rootLeaf) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+
+  return chunkSizeFromRoot(rootLeaf);
+}
+
+/**
+ * Get the chunk size recorded in a root leaf
+ */
+export function chunkSizeFromRoot(rootLeaf: DagLeaf): number {
+  const recorded = rootLeaf.AdditionalData?.[CHUNK_SIZE_KEY];
+  if (recorded === undefined) {
+    return DEFAULT_CHUNK_SIZE;
+  }
+  return validateChunkSize(Number(recorded));
+}
+
+/**
+ * Get the chunk size of a chunked file from its root and first chunk
+ * Roots without a recorded size fall back to the first chunk's length, since
+ * DAGs built elsewhere may omit the key at any size; a recorded size must
+ * match the first chunk whenever that chunk is not also the last
+ */
+export function fileChunkSize(rootLeaf: DagLeaf, firstChunk: DagLeaf, chunkCount: number): number {
+  const firstLength = firstChunk.Content?.length ?? 0;
+  if (rootLeaf.AdditionalData?.[CHUNK_SIZE_KEY] === undefined) {
+    return validateChunkSize(firstLength);
+  }
+
+  const chunkSize = chunkSizeFromRoot(rootLeaf);
+  if (chunkCount > 1 && firstLength !== chunkSize) {
+    throw new ScionicError(`First chunk is ${firstLength} bytes, expected chunk size ${chunkSize}`);
+  }
+  return chunkSize;
+}
@@ -4,104 +4,266 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { DagLeafBuilder } from './leaf';
-import { Dag, DagLeaf, LeafType, ScionicError, DEFAULT_CHUNK_SIZE, DagBuilderConfig } from './types';
-import { MerkleTree } from './merkleTree';
+import * as cbor from 'cbor';
+import { DagLeafBuilder, leafHashData, rootLeafHashData, computeLinksMerkleRoot } from './leaf';
+import { Dag, DagLeaf, LeafType, ScionicError, DagBuilderConfig } from './types';
+import { resolveChunkSize, recordChunkSize, chunkItemName } from './chunking';
+import { createCID } from './hash';
+import { HashWorkerPool } from './workerPool';
+import { LeafSink } from './sink';
+import { StoredDag, toStoredDag } from './store';
 import { createHash } from 'crypto';
 
 /**
- * Create a DAG from a file or directory
+ * State shared while building a DAG
+ * Each finished leaf is emitted by whoever links to it, so the root is the
+ * only leaf that is never emitted during processing
  */
-export async function createDag(
-  inputPath: string,
-  timestampRoot: boolean = false,
-  config?: DagBuilderConfig
-): Promise<Dag> {
-  const stats = fs.statSync(inputPath);
-  const leaves: Record<string, DagLeaf> = {};
+interface BuildContext {
+  /** Receives every finished non-root leaf */
+  emit: (leaf: DagLeaf) => Promise<void>;
+  /** Chunk size for large files */
+  chunkSize: number;
+  /** Worker pool when parallel building is enabled */
+  pool?: HashWorkerPool;
+  /** Bounds how many files are in flight when building in parallel */
+  fileSlots?: ConcurrencyLimit;
+  /** First failure of a parallel build; once set, no new entries are started */
+  failure?: { error: unknown };
+}
 
-  let rootLeaf: DagLeaf;
+/**
+ * Files kept in flight per worker, so reading the next file overlaps hashing
+ */
+const FILES_PER_WORKER = 2;
 
-  if (stats.isFile()) {
-    rootLeaf = await processFile(inputPath, path.basename(inputPath), leaves);
-  } else if (stats.isDirectory()) {
-    rootLeaf = await processDirectory(inputPath, path.basename(inputPath), leaves);
-  } else {
-    throw new ScionicError('Input must be a file or directory');
+/**
+ * Counting semaphore for bounding concurrent work
+ */
+class ConcurrencyLimit {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  /**
+   * Wait for a free slot and take it
+   */
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
   }
 
-  // Calculate statistics for root BEFORE removing it from leaves
-  // Include all leaves in the DAG (including root which is still in leaves at this point)
-  const leafCount = Object.keys(leaves).length;
-  let contentSize = 0;
-  let childrenDagSize = 0;
+  /**
+   * Free a slot, handing it straight to the next waiter if there is one
+   */
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
 
-  // Calculate content size and children DAG size
-  for (const [hash, leaf] of Object.entries(leaves)) {
-    // Skip the root itself when counting children
-    if (hash === rootLeaf.Hash) {
-      continue;
+/**
+ * Running totals for the root statistics, accumulated as leaves are emitted
+ * Only leaf hashes are retained, for de-duplicating identical leaves
+ */
+class StatisticsCollector {
+  private seen = new Set<string>();
+  leafCount = 0;
+  contentSize = 0;
+  childrenDagSize = 0;
+
+  /**
+   * Account for a non-root leaf
+   * Returns false if an identical leaf was already counted
+   */
+  add(leaf: DagLeaf): boolean {
+    if (this.seen.has(leaf.Hash)) {
+      return false;
     }
+    this.seen.add(leaf.Hash);
+    this.leafCount++;
 
     // ContentSize is sum of all content in files and chunks
     if (leaf.Type === LeafType.File || leaf.Type === LeafType.Chunk) {
       if (leaf.Content) {
-        contentSize += leaf.Content.length;
+        this.contentSize += leaf.Content.length;
       }
     }
 
     // DagSize is the size of serialized CBOR for each child leaf
-    // Must match Go's CalculateTotalDagSize structure EXACTLY
-    // Go includes all fields but serializes them as they are (including nil/empty values)
-    const sortedLinks = leaf.Links ? [...leaf.Links].sort() : [];
-    const sortedAdditionalData = leaf.AdditionalData && Object.keys(leaf.AdditionalData).length > 0
-      ? Object.entries(leaf.AdditionalData).sort((a, b) => a[0].localeCompare(b[0])).reduce((acc, [k, v]) => { acc[k] = v; return acc; }, {} as Record<string, string>)
-      : {};
-
-    const leafForSize = {
-      Hash: leaf.Hash,
-      ItemName: leaf.ItemName,
-      Type: leaf.Type,
-      ContentHash: leaf.ContentHash ? Buffer.from(leaf.ContentHash) : null,
-      Content: leaf.Content ? Buffer.from(leaf.Content) : null,
-      ClassicMerkleRoot: leaf.ClassicMerkleRoot ? Buffer.from(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
-      CurrentLinkCount: leaf.CurrentLinkCount,
-      LeafCount: leaf.LeafCount || 0,
-      ContentSize: leaf.ContentSize || 0,
-      DagSize: leaf.DagSize || 0,
-      Links: sortedLinks,
-      AdditionalData: sortedAdditionalData,
-    };
-    const cbor = require('cbor');
-    const leafCbor = cbor.encode(leafForSize);
+    const leafSize = calculateLeafSize(leaf);
 
     if (process.env.DEBUG_DAGSIZE) {
-      console.log(`[DAGSIZE]   Child ${leaf.ItemName}: ${leafCbor.length} bytes`);
+      console.log(`[DAGSIZE]   Child ${leaf.ItemName}: ${leafSize} bytes`);
     }
 
-    childrenDagSize += leafCbor.length;
+    this.childrenDagSize += leafSize;
+    return true;
   }
+}
 
-  // For root file, also add its content to contentSize
-  if (rootLeaf.Type === LeafType.File && rootLeaf.Content) {
-    contentSize += rootLeaf.Content.length;
+/**
+ * Create a DAG from a file or directory
+ */
+export async function createDag(
+  inputPath: string,
+  timestampRoot: boolean = false,
+  config?: DagBuilderConfig
+): Promise<Dag> {
+  const leaves: Record<string, DagLeaf> = {};
+
+  const rootLeaf = await buildDag(inputPath, timestampRoot, config, (leaf) => {
+    leaves[leaf.Hash] = leaf;
+  });
+
+  // Add root to leaves
+  leaves[rootLeaf.Hash] = rootLeaf;
+
+  return {
+    Root: rootLeaf.Hash,
+    Leafs: leaves,
+  };
+}
+
+/**
+ * Create a DAG from a file or directory without holding it in memory
+ * Every leaf is written to the sink as soon as it is finished, the root last;
+ * only the hashes needed for parent Merkle roots are retained. Produces the
+ * same root CID as createDag.
+ * @returns The root leaf
+ */
+export async function createDagToSink(
+  inputPath: string,
+  sink: LeafSink,
+  timestampRoot: boolean = false,
+  config?: DagBuilderConfig
+): Promise<DagLeaf> {
+  const rootLeaf = await buildDag(inputPath, timestampRoot, config, (leaf) => sink.put(leaf));
+  await sink.put(rootLeaf);
+  return rootLeaf;
+}
+
+/**
+ * Build all leaves under inputPath, passing each distinct non-root leaf to put
+ * @returns The final root leaf, with statistics
+ */
+async function buildDag(
+  inputPath: string,
+  timestampRoot: boolean,
+  config: DagBuilderConfig | undefined,
+  put: (leaf: DagLeaf) => void | Promise<void>
+): Promise<DagLeaf> {
+  const stats = await fs.promises.stat(inputPath);
+  const collector = new StatisticsCollector();
+  const context: BuildContext = {
+    chunkSize: resolveChunkSize(config),
+    emit: async (leaf) => {
+      if (collector.add(leaf)) {
+        await put(leaf);
+      }
+    },
+  };
+
+  if (config?.enableParallel) {
+    context.pool = new HashWorkerPool(config.maxWorkers || 0);
+    context.fileSlots = new ConcurrencyLimit(context.pool.size * FILES_PER_WORKER);
   }
 
-  // Now remove the root from leaves - we'll rebuild it with statistics
-  delete leaves[rootLeaf.Hash];
+  let rootLeaf: DagLeaf;
+
+  try {
+    if (stats.isFile()) {
+      rootLeaf = await processFile(inputPath, path.basename(inputPath), context);
+    } else if (stats.isDirectory()) {
+      rootLeaf = await processDirectory(inputPath, path.basename(inputPath), context);
+    } else {
+      throw new ScionicError('Input must be a file or directory');
+    }
+  } finally {
+    await context.pool?.close();
+  }
 
   // Add timestamp if requested
-  const additionalData = rootLeaf.AdditionalData || {};
+  const additionalData: Record<string, string> = {};
   if (timestampRoot) {
     additionalData['timestamp'] = new Date().toISOString();
   }
 
+  // Record a custom chunk size so the DAG can be rebuilt reproducibly
+  recordChunkSize(additionalData, context.chunkSize);
+
+  return await finalizeRootLeaf(rootLeaf, collector, additionalData);
+}
+
+/**
+ * Rebuild the root leaf with DAG statistics and assemble the final DAG
+ * Shared by every builder so the same leaves always produce the same root CID
+ * @param rootLeaf - Root as built by processFile/processDirectory, still present in leaves
+ * @param leaves - All leaves including the provisional root
+ * @param additionalData - Extra root metadata (timestamp, chunk size)
+ */
+export async function finalizeDag(
+  rootLeaf: DagLeaf,
+  leaves: Record<string, DagLeaf>,
+  additionalData?: Record<string, string>
+): Promise<Dag> {
+  const collector = new StatisticsCollector();
+  for (const [hash, leaf] of Object.entries(leaves)) {
+    // Skip the root itself when counting children
+    if (hash !== rootLeaf.Hash) {
+      collector.add(leaf);
+    }
+  }
+
+  const finalRoot = await finalizeRootLeaf(rootLeaf, collector, additionalData);
+
+  // Replace the provisional root with the final one
+  delete leaves[rootLeaf.Hash];
+  leaves[finalRoot.Hash] = finalRoot;
+
+  return {
+    Root: finalRoot.Hash,
+    Leafs: leaves,
+  };
+}
+
+/**
+ * Rebuild the provisional root leaf with LeafCount, ContentSize and DagSize
+ */
+async function finalizeRootLeaf(
+  rootLeaf: DagLeaf,
+  collector: StatisticsCollector,
+  additionalData?: Record<string, string>
+): Promise<DagLeaf> {
+  // Children plus the root itself
+  const leafCount = collector.leafCount + 1;
+  let contentSize = collector.contentSize;
+
+  // For root file, also add its content to contentSize
+  if (rootLeaf.Type === LeafType.File && rootLeaf.Content) {
+    contentSize += rootLeaf.Content.length;
+  }
+
+  const rootData = { ...rootLeaf.AdditionalData, ...additionalData };
+  const rootAdditionalData = Object.keys(rootData).length > 0 ? rootData : undefined;
+
   // Rebuild root with statistics, preserving content
   const builder = new DagLeafBuilder(rootLeaf.ItemName).setType(rootLeaf.Type);
 
   // Preserve the content from the original leaf
   if (rootLeaf.Content) {
     builder.setData(rootLeaf.Content);
+    if (rootLeaf.ContentHash) {
+      builder.setContentHash(rootLeaf.ContentHash);
+    }
   }
 
   if (rootLeaf.Links) {
@@ -112,64 +274,34 @@ export async function createDag(
 
   // Calculate temporary root size with DagSize=0 to get CBOR size
   const tempRoot = await builder.buildRootLeaf(
-    Object.keys(additionalData).length > 0 ? additionalData : undefined,
+    rootAdditionalData,
     leafCount,
     contentSize,
     0 // temporary DagSize
   );
 
   // Serialize temp root to get its size
-  // IMPORTANT: Must match Go's tempLeafData structure EXACTLY
-  // Field order matters for CBOR encoding!
-  const sortedAdditionalData = tempRoot.AdditionalData && Object.keys(tempRoot.AdditionalData).length > 0
-    ? Object.entries(tempRoot.AdditionalData).sort((a, b) => a[0].localeCompare(b[0])).map(([k, v]) => ({ Key: k, Value: v }))
-    : [];
-
-  const tempRootForSize = {
-    ItemName: tempRoot.ItemName,
-    Type: tempRoot.Type,
-    MerkleRoot: tempRoot.ClassicMerkleRoot ? Buffer.from(tempRoot.ClassicMerkleRoot) : Buffer.alloc(0),
-    CurrentLinkCount: tempRoot.CurrentLinkCount,
-    LeafCount: tempRoot.LeafCount,
-    ContentSize: tempRoot.ContentSize,
-    DagSize: 0,
-    ContentHash: tempRoot.ContentHash ? Buffer.from(tempRoot.ContentHash) : null,
-    AdditionalData: sortedAdditionalData,
-  };
-  const cbor = require('cbor');
-  const rootCbor = cbor.encode(tempRootForSize);
-  const rootLeafSize = rootCbor.length;
+  const rootLeafSize = calculateRootLeafSize(tempRoot);
 
   // DagSize calculation verified to match Go implementation
   if (process.env.DEBUG_DAGSIZE) {
-    console.log(`[DAGSIZE] childrenDagSize: ${childrenDagSize}, rootLeafSize: ${rootLeafSize}`);
+    console.log(`[DAGSIZE] childrenDagSize: ${collector.childrenDagSize}, rootLeafSize: ${rootLeafSize}`);
   }
 
   // Final DagSize = children DAG size + root leaf CBOR size
-  const dagSize = childrenDagSize + rootLeafSize;
+  const dagSize = collector.childrenDagSize + rootLeafSize;
 
   if (process.env.DEBUG_DAGSIZE) {
     console.log(`[DAGSIZE] Final dagSize: ${dagSize}`);
   }
 
   // Now create final root with correct DagSize
-  rootLeaf = await builder.buildRootLeaf(
-    Object.keys(additionalData).length > 0 ? additionalData : undefined,
+  return await builder.buildRootLeaf(
+    rootAdditionalData,
     leafCount,
     contentSize,
     dagSize
   );
-
-  // Build final DAG
-  const dag: Dag = {
-    Root: rootLeaf.Hash,
-    Leafs: leaves,
-  };
-
-  // Add root to leaves
-  dag.Leafs[rootLeaf.Hash] = rootLeaf;
-
-  return dag;
 }
 
 /**
@@ -178,66 +310,87 @@ export async function createDag(
 async function processFile(
   filePath: string,
   itemName: string,
-  leaves: Record<string, DagLeaf>
+  context: BuildContext
 ): Promise<DagLeaf> {
-  const stats = fs.statSync(filePath);
+  const stats = await fs.promises.stat(filePath);
   const fileSize = stats.size;
 
   // Check if file needs chunking
-  if (fileSize > DEFAULT_CHUNK_SIZE) {
-    return await processLargeFile(filePath, itemName, leaves);
+  if (fileSize > context.chunkSize) {
+    return await processLargeFile(filePath, itemName, fileSize, context);
   }
 
-  // Small file - read all content
-  const content = fs.readFileSync(filePath);
-
-  const builder = new DagLeafBuilder(itemName)
-    .setType(LeafType.File)
-    .setData(content);
+  const builder = new DagLeafBuilder(itemName).setType(LeafType.File);
 
-  const leaf = await builder.buildLeaf();
-  leaves[leaf.Hash] = leaf;
+  if (context.pool) {
+    // Small file - read and hash content in a worker
+    const { data, hash } = await context.pool.hashFileRange(filePath, 0, fileSize);
+    builder.setData(data).setContentHash(hash);
+  } else {
+    // Small file - read all content
+    builder.setData(await fs.promises.readFile(filePath));
+  }
 
-  return leaf;
+  return await builder.buildLeaf();
 }
 
 /**
  * Process a large file by chunking
+ * Chunks are emitted as they are built; only their hashes are kept
  */
 async function processLargeFile(
   filePath: string,
   itemName: string,
-  leaves: Record<string, DagLeaf>
+  fileSize: number,
+  context: BuildContext
 ): Promise<DagLeaf> {
-  const stats = fs.statSync(filePath);
-  const fileSize = stats.size;
-  const chunkHashes: string[] = [];
+  const chunkCount = Math.ceil(fileSize / context.chunkSize);
+  let chunkHashes: string[];
 
-  // Read and process chunks
-  const fd = fs.openSync(filePath, 'r');
-  let offset = 0;
-  let chunkIndex = 0;
-
-  while (offset < fileSize) {
-    const chunkSize = Math.min(DEFAULT_CHUNK_SIZE, fileSize - offset);
-    const buffer = Buffer.alloc(chunkSize);
-    fs.readSync(fd, buffer, 0, chunkSize, offset);
-
-    const chunkName = `${itemName}.chunk.${chunkIndex}`;
-    const chunkBuilder = new DagLeafBuilder(chunkName)
+  const buildChunk = async (chunkIndex: number, data: Uint8Array, hash?: Uint8Array): Promise<string> => {
+    const chunkBuilder = new DagLeafBuilder(chunkItemName(itemName, chunkIndex))
       .setType(LeafType.Chunk)
-      .setData(buffer);
+      .setData(data);
+
+    if (hash) {
+      chunkBuilder.setContentHash(hash);
+    }
 
     const chunkLeaf = await chunkBuilder.buildLeaf();
-    leaves[chunkLeaf.Hash] = chunkLeaf;
-    chunkHashes.push(chunkLeaf.Hash);
+    await context.emit(chunkLeaf);
+    return chunkLeaf.Hash;
+  };
 
-    offset += chunkSize;
-    chunkIndex++;
+  if (context.pool) {
+    // Hash all chunks in parallel, keeping them in file order
+    const pool = context.pool;
+    chunkHashes = await Promise.all(
+      Array.from({ length: chunkCount }, async (_, chunkIndex) => {
+        const offset = chunkIndex * context.chunkSize;
+        const chunkSize = Math.min(context.chunkSize, fileSize - offset);
+        const { data, hash } = await pool.hashFileRange(filePath, offset, chunkSize);
+        return buildChunk(chunkIndex, data, hash);
+      })
+    );
+  } else {
+    // Read and process chunks one at a time
+    chunkHashes = [];
+    const handle = await fs.promises.open(filePath, 'r');
+
+    try {
+      for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+        const offset = chunkIndex * context.chunkSize;
+        const chunkSize = Math.min(context.chunkSize, fileSize - offset);
+        const buffer = Buffer.alloc(chunkSize);
+        await handle.read(buffer, 0, chunkSize, offset);
+
+        chunkHashes.push(await buildChunk(chunkIndex, buffer));
+      }
+    } finally {
+      await handle.close();
+    }
   }
 
-  fs.closeSync(fd);
-
   // Create parent file leaf linking to chunks
   const fileBuilder = new DagLeafBuilder(itemName).setType(LeafType.File);
 
@@ -245,51 +398,93 @@ async function processLargeFile(
     fileBuilder.addLink(hash);
   }
 
-  const fileLeaf = await fileBuilder.buildLeaf();
-  leaves[fileLeaf.Hash] = fileLeaf;
-
-  return fileLeaf;
+  return await fileBuilder.buildLeaf();
 }
 
 /**
  * Process a directory
+ * Entries are read incrementally and each child is emitted once built
  */
 async function processDirectory(
   dirPath: string,
   itemName: string,
-  leaves: Record<string, DagLeaf>
+  context: BuildContext
 ): Promise<DagLeaf> {
-  const entries = fs.readdirSync(dirPath, { withFileTypes: true });
-  const childHashes: string[] = [];
-
-  // Process each entry
-  for (const entry of entries) {
+  const processEntry = async (entry: fs.Dirent): Promise<string | null> => {
     const entryPath = path.join(dirPath, entry.name);
     let childLeaf: DagLeaf;
 
     if (entry.isFile()) {
-      childLeaf = await processFile(entryPath, entry.name, leaves);
+      childLeaf = await processFile(entryPath, entry.name, context);
     } else if (entry.isDirectory()) {
-      childLeaf = await processDirectory(entryPath, entry.name, leaves);
+      childLeaf = await processDirectory(entryPath, entry.name, context);
     } else {
       // Skip special files
-      continue;
+      return null;
     }
 
-    childHashes.push(childLeaf.Hash);
+    await context.emit(childLeaf);
+    return childLeaf.Hash;
+  };
+
+  const dir = await fs.promises.opendir(dirPath);
+  let childHashes: Array<string | null>;
+
+  if (context.fileSlots) {
+    // Process files concurrently, but only as many across the whole build as
+    // there are slots; subdirectories are walked in turn so the walk stays bounded.
+    // Once any entry fails no new ones are started, and the first failure is
+    // rethrown after the running ones settle
+    const fileSlots = context.fileSlots;
+    const pending: Array<Promise<string | null>> = [];
+    const fail = (error: unknown): null => {
+      context.failure = context.failure || { error };
+      return null;
+    };
+
+    try {
+      for await (const entry of dir) {
+        if (context.failure) {
+          break;
+        }
+        if (entry.isDirectory()) {
+          pending.push(Promise.resolve(await processEntry(entry)));
+          continue;
+        }
+
+        await fileSlots.acquire();
+        if (context.failure) {
+          fileSlots.release();
+          break;
+        }
+        pending.push(processEntry(entry).catch(fail).finally(() => fileSlots.release()));
+      }
+    } catch (error) {
+      fail(error);
+    }
+
+    childHashes = await Promise.all(pending);
+    if (context.failure) {
+      throw context.failure.error;
+    }
+  } else {
+    // Process each entry
+    childHashes = [];
+    for await (const entry of dir) {
+      childHashes.push(await processEntry(entry));
+    }
   }
 
-  // Create directory leaf
+  // Create directory leaf (links are sorted by the builder)
   const dirBuilder = new DagLeafBuilder(itemName).setType(LeafType.Directory);
 
   for (const hash of childHashes) {
-    dirBuilder.addLink(hash);
+    if (hash) {
+      dirBuilder.addLink(hash);
+    }
   }
 
-  const dirLeaf = await dirBuilder.buildLeaf();
-  leaves[dirLeaf.Hash] = dirLeaf;
-
-  return dirLeaf;
+  return await dirBuilder.buildLeaf();
 }
 
 /**
@@ -334,60 +529,182 @@ async function recomputeRootLeaf(
   return newRoot;
 }
 
+/**
+ * Calculate the serialized size of a non-root leaf
+ * Must match Go's CalculateTotalDagSize structure EXACTLY
+ * Go includes all fields but serializes them as they are (including nil/empty values)
+ */
+export function calculateLeafSize(leaf: DagLeaf): number {
+  const sortedLinks = leaf.Links ? [...leaf.Links].sort() : [];
+  const sortedAdditionalData = leaf.AdditionalData && Object.keys(leaf.AdditionalData).length > 0
+    ? Object.entries(leaf.AdditionalData).sort((a, b) => a[0].localeCompare(b[0])).reduce((acc, [k, v]) => { acc[k] = v; return acc; }, {} as Record<string, string>)
+    : {};
+
+  const leafForSize = {
+    Hash: leaf.Hash,
+    ItemName: leaf.ItemName,
+    Type: leaf.Type,
+    ContentHash: leaf.ContentHash ? Buffer.from(leaf.ContentHash) : null,
+    Content: leaf.Content ? Buffer.from(leaf.Content) : null,
+    ClassicMerkleRoot: leaf.ClassicMerkleRoot ? Buffer.from(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
+    CurrentLinkCount: leaf.CurrentLinkCount,
+    LeafCount: leaf.LeafCount || 0,
+    ContentSize: leaf.ContentSize || 0,
+    DagSize: leaf.DagSize || 0,
+    Links: sortedLinks,
+    AdditionalData: sortedAdditionalData,
+  };
+
+  return cbor.encode(leafForSize).length;
+}
+
+/**
+ * Calculate the serialized size of the root leaf
+ * Must match Go's tempLeafData structure: the root hash data with DagSize=0
+ */
+export function calculateRootLeafSize(root: DagLeaf): number {
+  const tempRootForSize = {
+    ...rootLeafHashData(root),
+    DagSize: 0,
+  };
+  return cbor.encode(tempRootForSize).length;
+}
+
 /**
  * Verify the integrity of a DAG
+ * Every leaf's CID is recomputed from its hash-relevant fields, and the root's
+ * statistics are checked against the leaves actually present
  */
 export async function verifyDag(dag: Dag): Promise<void> {
-  const rootLeaf = dag.Leafs[dag.Root];
+  await verifyStoredDag(toStoredDag(dag));
+}
+
+/**
+ * Verify the integrity of a DAG held in a LeafStore
+ * Leaves are checked one at a time, so only one leaf is in memory at once
+ */
+export async function verifyStoredDag(dag: StoredDag): Promise<void> {
+  const rootLeaf = await dag.Store.get(dag.Root);
   if (!rootLeaf) {
     throw new ScionicError('Root leaf not found in DAG');
   }
 
+  const statistics: RootStatistics = {
+    leafCount: 0,
+    contentSize: 0,
+    dagSize: calculateRootLeafSize(rootLeaf),
+  };
+
   // Verify all leaves
-  for (const [hash, leaf] of Object.entries(dag.Leafs)) {
+  for await (const hash of dag.Store.hashes()) {
+    const leaf = await dag.Store.get(hash);
+    if (!leaf) {
+      throw new ScionicError(`Leaf ${hash} not found in store`);
+    }
+
     await verifyLeaf(hash, leaf, dag);
+
+    statistics.leafCount++;
+    if ((leaf.Type === LeafType.File || leaf.Type === LeafType.Chunk) && leaf.Content) {
+      statistics.contentSize += leaf.Content.length;
+    }
+    if (hash !== dag.Root) {
+      statistics.dagSize += calculateLeafSize(leaf);
+    }
   }
+
+  verifyRootStatistics(rootLeaf, statistics);
 }
 
 /**
  * Verify a single leaf
  */
-async function verifyLeaf(expectedHash: string, leaf: DagLeaf, dag: Dag): Promise<void> {
+async function verifyLeaf(expectedHash: string, leaf: DagLeaf, dag: StoredDag): Promise<void> {
+  if (leaf.Hash !== expectedHash) {
+    throw new ScionicError(`Leaf stored under ${expectedHash} has hash ${leaf.Hash}`);
+  }
+
+  const links = leaf.Links || [];
+
   // Verify all linked children exist
-  if (leaf.Links) {
-    for (const linkHash of leaf.Links) {
-      if (!dag.Leafs[linkHash]) {
-        throw new ScionicError(`Linked leaf ${linkHash} not found in DAG`);
-      }
+  for (const linkHash of links) {
+    if (!(await dag.Store.has(linkHash))) {
+      throw new ScionicError(`Linked leaf ${linkHash} not found in DAG`);
     }
   }
 
-  // Verify Classic Merkle root if present
-  if (leaf.ClassicMerkleRoot && leaf.Links && leaf.Links.length > 1) {
-    // Hash each link first, then build tree from hashes
-    const hashedLeaves = leaf.Links.map((link) => {
-      const linkBytes = Buffer.from(link, 'utf-8');
-      return new Uint8Array(createHash('sha256').update(linkBytes).digest());
-    });
-    const tree = new MerkleTree(hashedLeaves);
-    const computedRoot = tree.getRoot();
+  await verifyLeafIntegrity(leaf, expectedHash === dag.Root);
+}
 
-    if (!arraysEqual(computedRoot, leaf.ClassicMerkleRoot)) {
-      throw new ScionicError(`Classic Merkle root mismatch for leaf ${expectedHash}`);
-    }
+/**
+ * Verify everything a leaf commits to on its own: its links against its
+ * Classic Merkle root, its content against its content hash, and its CID
+ * Root leaves are hashed with their statistics
+ */
+export async function verifyLeafIntegrity(leaf: DagLeaf, isRoot: boolean): Promise<void> {
+  const links = leaf.Links || [];
+
+  if (links.length !== leaf.CurrentLinkCount) {
+    throw new ScionicError(
+      `Link count mismatch for leaf ${leaf.Hash}: has ${links.length} links, expected ${leaf.CurrentLinkCount}`
+    );
+  }
+
+  // Verify Classic Merkle root commits to exactly these links
+  const computedRoot = computeLinksMerkleRoot(links) || new Uint8Array(0);
+  const storedRoot = leaf.ClassicMerkleRoot || new Uint8Array(0);
+  if (!arraysEqual(computedRoot, storedRoot)) {
+    throw new ScionicError(`Classic Merkle root mismatch for leaf ${leaf.Hash}`);
   }
 
-  // Verify content hash if present
-  if (leaf.ContentHash && leaf.Content) {
+  await verifyLeafCommitments(leaf, isRoot);
+}
+
+/**
+ * Verify a leaf's content against its content hash and its fields against its CID
+ * Links are not checked; partial DAGs verify pruned links with stored proofs instead
+ */
+export async function verifyLeafCommitments(leaf: DagLeaf, isRoot: boolean): Promise<void> {
+  // Verify content hash if content is present
+  if (leaf.Content) {
     const computedHash = new Uint8Array(createHash('sha256').update(leaf.Content).digest());
-    if (!arraysEqual(computedHash, leaf.ContentHash)) {
-      throw new ScionicError(`Content hash mismatch for leaf ${expectedHash}`);
+    if (!leaf.ContentHash || !arraysEqual(computedHash, leaf.ContentHash)) {
+      throw new ScionicError(`Content hash mismatch for leaf ${leaf.Hash}`);
     }
   }
 
-  // Note: CID verification would require recomputing the CID which involves
-  // creating the same CBOR structure - this is complex and would need exact
-  // match with Go/Rust implementations
+  // Recompute the CID from the same structure DagLeafBuilder hashes
+  const leafData = isRoot ? rootLeafHashData(leaf) : leafHashData(leaf);
+  const computedCid = await createCID(leafData);
+  if (computedCid !== leaf.Hash) {
+    throw new ScionicError(`CID mismatch for leaf ${leaf.Hash}: computed ${computedCid}`);
+  }
+}
+
+/**
+ * Statistics accumulated over the leaves present in a DAG
+ */
+interface RootStatistics {
+  leafCount: number;
+  contentSize: number;
+  dagSize: number;
+}
+
+/**
+ * Verify the root's LeafCount, ContentSize and DagSize against the leaves present
+ */
+function verifyRootStatistics(rootLeaf: DagLeaf, statistics: RootStatistics): void {
+  const { leafCount, contentSize, dagSize } = statistics;
+
+  if (rootLeaf.LeafCount !== leafCount) {
+    throw new ScionicError(`Root LeafCount ${rootLeaf.LeafCount} does not match ${leafCount} leaves in DAG`);
+  }
+  if (rootLeaf.ContentSize !== contentSize) {
+    throw new ScionicError(`Root ContentSize ${rootLeaf.ContentSize} does not match computed ${contentSize}`);
+  }
+  if (rootLeaf.DagSize !== dagSize) {
+    throw new ScionicError(`Root DagSize ${rootLeaf.DagSize} does not match computed ${dagSize}`);
+  }
 }
 
 /**
@@ -426,17 +743,20 @@ function recreateLeaf(leaf: DagLeaf, currentPath: string, dag: Dag): void {
   if (leaf.Type === LeafType.File) {
     // Reconstruct file from chunks or direct content
     if (leaf.Links && leaf.Links.length > 0) {
-      // File with chunks
-      const chunks: Uint8Array[] = [];
-      for (const linkHash of leaf.Links) {
-        const chunkLeaf = dag.Leafs[linkHash];
-        if (!chunkLeaf || !chunkLeaf.Content) {
-          throw new ScionicError(`Chunk ${linkHash} not found or has no content`);
+      // File with chunks, written one chunk at a time so archive-backed
+      // DAGs never hold the whole file in memory
+      const fd = fs.openSync(path.join(currentPath, leaf.ItemName), 'w');
+      try {
+        for (const linkHash of leaf.Links) {
+          const chunkLeaf = dag.Leafs[linkHash];
+          if (!chunkLeaf || !chunkLeaf.Content) {
+            throw new ScionicError(`Chunk ${linkHash} not found or has no content`);
+          }
+          fs.writeSync(fd, chunkLeaf.Content);
         }
-        chunks.push(chunkLeaf.Content);
+      } finally {
+        fs.closeSync(fd);
       }
-      const fullContent = Buffer.concat(chunks);
-      fs.writeFileSync(path.join(currentPath, leaf.ItemName), fullContent);
     } else if (leaf.Content) {
       // Small file with direct content
       fs.writeFileSync(path.join(currentPath, leaf.ItemName), leaf.Content);
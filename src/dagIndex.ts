@@ -0,0 +1,138 @@
+/**
+ * Parent index for DAGs
+ * One breadth-first walk from the root records each leaf's parent and depth,
+ * so ancestors and paths can be looked up without searching the DAG again
+ */
+
+import { Dag, DagLeaf, ScionicError } from './types';
+import { StoredDag } from './store';
+
+/**
+ * Parent pointers, depths and item names for every leaf reachable from the root
+ * Linked leaves that are absent from a partial DAG are indexed too, with a parent
+ * and depth but no name. A leaf linked from several parents keeps the first one
+ * the walk reaches
+ */
+export class DagIndex {
+  private readonly parents = new Map<string, string>();
+  private readonly depths = new Map<string, number>();
+  private readonly names = new Map<string, string>();
+
+  private constructor(readonly root: string) {
+    this.depths.set(root, 0);
+  }
+
+  /**
+   * Index an in-memory DAG
+   */
+  static fromDag(dag: Dag): DagIndex {
+    const index = new DagIndex(dag.Root);
+    const queue: string[] = [dag.Root];
+
+    for (let head = 0; head < queue.length; head++) {
+      const leaf = dag.Leafs[queue[head]];
+      if (leaf) {
+        queue.push(...index.addLeaf(leaf));
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Index a DAG held in a LeafStore
+   * Every reachable leaf is read once; only the index is kept in memory
+   */
+  static async fromStore(dag: StoredDag): Promise<DagIndex> {
+    const index = new DagIndex(dag.Root);
+    const queue: string[] = [dag.Root];
+
+    for (let head = 0; head < queue.length; head++) {
+      const leaf = await dag.Store.get(queue[head]);
+      if (leaf) {
+        queue.push(...index.addLeaf(leaf));
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Record a leaf that is already indexed (or is the root) and link its children
+   * Returns the children seen for the first time
+   */
+  addLeaf(leaf: DagLeaf): string[] {
+    const depth = this.depths.get(leaf.Hash);
+    if (depth === undefined) {
+      throw new ScionicError(`Leaf ${leaf.Hash} is not linked from an indexed leaf`);
+    }
+
+    this.names.set(leaf.Hash, leaf.ItemName);
+
+    const added: string[] = [];
+    for (const link of leaf.Links || []) {
+      if (!this.depths.has(link)) {
+        this.parents.set(link, leaf.Hash);
+        this.depths.set(link, depth + 1);
+        added.push(link);
+      }
+    }
+    return added;
+  }
+
+  /**
+   * True if the leaf is the root or is linked below it
+   */
+  has(hash: string): boolean {
+    return this.depths.has(hash);
+  }
+
+  /**
+   * Parent of a leaf; undefined for the root and for leaves not in the index
+   */
+  getParent(hash: string): string | undefined {
+    return this.parents.get(hash);
+  }
+
+  /**
+   * Number of links between the root and a leaf; the root has depth 0
+   */
+  getDepth(hash: string): number | undefined {
+    return this.depths.get(hash);
+  }
+
+  /**
+   * Ancestors of a leaf from the root down to its parent
+   */
+  getAncestors(hash: string): string[] {
+    if (!this.has(hash)) {
+      throw new ScionicError(`Leaf ${hash} is not reachable from root ${this.root}`);
+    }
+
+    const ancestors: string[] = [];
+    for (let current = this.parents.get(hash); current !== undefined; current = this.parents.get(current)) {
+      ancestors.push(current);
+    }
+    return ancestors.reverse();
+  }
+
+  /**
+   * Path of a leaf relative to the root, such as "docs/readme.md"
+   * The root's path is empty; undefined if the leaf or an ancestor below the root is absent
+   */
+  getPath(hash: string): string | undefined {
+    if (!this.has(hash)) {
+      return undefined;
+    }
+
+    const segments: string[] = [];
+    for (let current = hash; current !== this.root; current = this.parents.get(current)!) {
+      const name = this.names.get(current);
+      if (name === undefined) {
+        return undefined;
+      }
+      segments.push(name);
+    }
+    return segments.reverse().join('/');
+  }
+}
@@ -6,6 +6,7 @@
 
 import { Dag, DagLeaf, ScionicError } from './types';
 import { getPartial } from './partial';
+import { StoredDag } from './store';
 
 /**
  * Type of difference detected
@@ -199,6 +200,41 @@ export function diff(firstDag: Dag, secondDag: Dag): DagDiff {
   return { diffs, summary };
 }
 
+/**
+ * Compare two DAGs held in LeafStores and return the differences
+ * Membership is checked against the other store, so neither DAG is loaded whole
+ */
+export async function diffStoredDags(firstDag: StoredDag, secondDag: StoredDag): Promise<DagDiff> {
+  const diffs: Record<string, LeafDiff> = {};
+  const summary: DiffSummary = { added: 0, removed: 0, total: 0 };
+
+  // Find added leaves (in second but not in first)
+  for await (const hash of secondDag.Store.hashes()) {
+    if (!(await firstDag.Store.has(hash))) {
+      const leaf = await secondDag.Store.get(hash);
+      if (leaf) {
+        diffs[hash] = { type: DiffType.Added, hash, leaf };
+        summary.added++;
+        summary.total++;
+      }
+    }
+  }
+
+  // Find removed leaves (in first but not in second)
+  for await (const hash of firstDag.Store.hashes()) {
+    if (!(await secondDag.Store.has(hash))) {
+      const leaf = await firstDag.Store.get(hash);
+      if (leaf) {
+        diffs[hash] = { type: DiffType.Removed, hash, leaf };
+        summary.removed++;
+        summary.total++;
+      }
+    }
+  }
+
+  return { diffs, summary };
+}
+
 /**
  * Compare old DAG with a set of new leaves (e.g., from partial DAG)
  * Identifies added leaves and removed leaves no longer referenced by new structure
@@ -0,0 +1,70 @@
+/**
+ * Glob patterns over DAG paths
+ * "*" matches any run of characters within one path segment, "?" one character,
+ * "[abc]" or "[!abc]" one character from a set, and "**" any number of whole
+ * segments, including none. Paths and patterns use "/" between item names
+ */
+
+import { ScionicError } from './types';
+
+const GLOBSTAR = '**';
+
+type SegmentPattern = RegExp | typeof GLOBSTAR;
+
+/**
+ * Compile a glob into a function that tests paths relative to the root
+ */
+export function compileGlob(pattern: string): (itemPath: string) => boolean {
+  const segments = splitSegments(pattern).map((segment) => compileSegment(pattern, segment));
+  return (itemPath) => matchSegments(segments, splitSegments(itemPath), 0, 0);
+}
+
+function splitSegments(itemPath: string): string[] {
+  return itemPath.split('/').filter((segment) => segment !== '' && segment !== '.');
+}
+
+function compileSegment(pattern: string, segment: string): SegmentPattern {
+  if (segment === GLOBSTAR) {
+    return GLOBSTAR;
+  }
+
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const end = segment.indexOf(']', i + 2);
+      if (end === -1) {
+        throw new ScionicError(`Invalid glob "${pattern}": unterminated character class`);
+      }
+      const negated = segment[i + 1] === '!';
+      const members = segment.slice(negated ? i + 2 : i + 1, end).replace(/[\\\]^]/g, '\\$&');
+      source += `[${negated ? '^' : ''}${members}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+function matchSegments(patterns: SegmentPattern[], segments: string[], p: number, s: number): boolean {
+  if (p === patterns.length) {
+    return s === segments.length;
+  }
+
+  const pattern = patterns[p];
+  if (pattern === GLOBSTAR) {
+    for (let skip = s; skip <= segments.length; skip++) {
+      if (matchSegments(patterns, segments, p + 1, skip)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return s < segments.length && pattern.test(segments[s]) && matchSegments(patterns, segments, p + 1, s + 1);
+}
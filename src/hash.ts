@@ -4,6 +4,7 @@
 
 import { createHash } from 'crypto';
 import * as cbor from 'cbor';
+import { ScionicError } from './types';
 
 /**
  * Hash data using SHA256
@@ -15,7 +16,7 @@ export function hashData(data: Uint8Array): Uint8Array {
 /**
  * Encode varint (variable-length integer)
  */
-function encodeVarint(num: number): Uint8Array {
+export function encodeVarint(num: number): Uint8Array {
   const bytes: number[] = [];
   while (num >= 0x80) {
     bytes.push((num & 0x7f) | 0x80);
@@ -55,40 +56,127 @@ function base32Encode(data: Uint8Array): string {
   return output;
 }
 
+/**
+ * Decode an unsigned varint starting at offset
+ * Returns the value and the number of bytes it occupied
+ */
+export function decodeVarint(data: Uint8Array, offset: number = 0): [number, number] {
+  let value = 0;
+  let shift = 0;
+  let position = offset;
+
+  while (position < data.length) {
+    const byte = data[position++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) {
+      return [value, position - offset];
+    }
+    shift += 7;
+    if (shift > 49) {
+      throw new ScionicError('Varint is too long');
+    }
+  }
+
+  throw new ScionicError('Unexpected end of data while reading varint');
+}
+
+/**
+ * Decode base32 (lowercase, RFC 4648, no padding)
+ */
+function base32Decode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new ScionicError(`Invalid base32 character: ${char}`);
+    }
+    value = ((value << 5) | index) & 0xfff;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Convert a base32 CID string to its binary form
+ */
+export function cidToBytes(cid: string): Uint8Array {
+  if (!cid.startsWith('b')) {
+    throw new ScionicError(`Unsupported CID encoding: ${cid}`);
+  }
+  return base32Decode(cid.slice(1));
+}
+
+/**
+ * Convert a binary CID to its base32 string form
+ */
+export function cidFromBytes(bytes: Uint8Array): string {
+  return 'b' + base32Encode(bytes);
+}
+
+/**
+ * Multicodec for CBOR blocks, which leaf CIDs use
+ */
+export const CBOR_CODEC = 0x51;
+
+/**
+ * Multicodec for raw byte blocks
+ */
+export const RAW_CODEC = 0x55;
+
+/**
+ * Multihash function code for SHA2-256
+ */
+const SHA256_MULTIHASH = 0x12;
+
+/**
+ * Encode hash data to the CBOR bytes that createCID hashes
+ */
+export function encodeHashData(data: any): Uint8Array {
+  return cbor.encode(data);
+}
+
 /**
  * Create a CID from CBOR-encoded data
  * Uses CIDv1 with CBOR codec (0x51) and SHA256
  * Matches Go and Rust implementations
  */
 export async function createCID(data: any): Promise<string> {
-  // Encode to CBOR
-  const encoded = cbor.encode(data);
+  return cidForBytes(encodeHashData(data), CBOR_CODEC);
+}
 
-  // Hash with SHA256
-  const hash = new Uint8Array(createHash('sha256').update(encoded).digest());
+/**
+ * Create the CID of a block from its bytes
+ */
+export function cidForBytes(bytes: Uint8Array, codec: number): string {
+  return cidForDigest(hashData(bytes), codec);
+}
 
+/**
+ * Create a CID from a SHA256 digest
+ */
+export function cidForDigest(digest: Uint8Array, codec: number): string {
   // Build CID bytes:
   // - version (1 byte): 0x01 (CIDv1)
-  // - codec (varint): 0x51 (CBOR)
+  // - codec (varint): CBOR (0x51) or raw (0x55), both one byte
   // - multihash: 0x12 (SHA2-256) + length + hash
-  const version = 0x01;
-  const codec = 0x51;
-  const hashFunc = 0x12; // SHA2-256
-  const hashLen = hash.length;
-
-  // Build the CID bytes
-  const cidBytes = new Uint8Array(1 + 1 + 2 + hashLen);
-  let offset = 0;
-
-  cidBytes[offset++] = version;
-  cidBytes[offset++] = codec;
-  cidBytes[offset++] = hashFunc;
-  cidBytes[offset++] = hashLen;
-  cidBytes.set(hash, offset);
+  const cidBytes = new Uint8Array(4 + digest.length);
+  cidBytes[0] = 0x01;
+  cidBytes[1] = codec;
+  cidBytes[2] = SHA256_MULTIHASH;
+  cidBytes[3] = digest.length;
+  cidBytes.set(digest, 4);
 
   // Encode to base32 and prepend with 'b' (base32) prefix
-  const base32Hash = base32Encode(cidBytes);
-  return 'b' + base32Hash;
+  return 'b' + base32Encode(cidBytes);
 }
 
 /**
@@ -12,35 +12,114 @@ export * from './types';
 
 // Export core functionality
 export { MerkleTree } from './merkleTree';
+export { proofDepth, encodeProofPath, decodeProofPath, MAX_PATH_BITMAP_DEPTH } from './merklePath';
 export { DagLeafBuilder } from './leaf';
-export { createDag, verifyDag, createDirectory } from './dag';
-export { toCBOR, fromCBOR, toJSON, fromJSON, saveToFile, loadFromFile } from './serialize';
+export { createDag, createDagToSink, verifyDag, verifyStoredDag, createDirectory } from './dag';
+export {
+  toCBOR,
+  fromCBOR,
+  toJSON,
+  fromJSON,
+  saveToFile,
+  loadFromFile,
+  encodeLeaf,
+  decodeLeaf,
+  encodePacket,
+  decodePacket,
+  encodeBatchPacket,
+  decodeBatchPacket,
+  framePacket,
+  readFramedPackets,
+  PacketFrameDecoder,
+  DEFAULT_MAX_FRAME_SIZE,
+} from './serialize';
+export { FileLeafSink, readLeavesFromFile, loadDagFromLeafFile, type LeafSink } from './sink';
+export {
+  MemoryLeafStore,
+  FsLeafStore,
+  storeDag,
+  loadStoredDag,
+  toStoredDag,
+  type LeafStore,
+  type StoredDag,
+} from './store';
+export { writeArchive, DagArchive } from './archive';
+export { toCAR, fromCAR, toCARStream, fromCARStream, type CarOptions } from './car';
 export { createCID, parseCID, verifyCID, hashData } from './hash';
+export { CHUNK_SIZE_KEY, getChunkSize } from './chunking';
+export { readRange, getFileSize } from './range';
+export {
+  resolvePath,
+  listDirectory,
+  type ResolvedPath,
+  type DirectoryEntry,
+  type DirectoryListing,
+} from './lookup';
 
 // Export Labels/LeafSync protocol
 export {
   calculateLabels,
+  calculateStoredLabels,
   clearLabels,
   getHashesByLabelRange,
   getLabel,
   getHashByLabel,
   iterateDag,
+  iterateStoredDag,
 } from './labels';
 
 // Export Transmission protocol
 export {
   getLeafSequence,
+  getLeafSequenceFor,
+  getStoredLeafSequence,
+  streamLeafSequence,
+  createLeafSequenceReadable,
   applyTransmissionPacket,
   verifyTransmissionPacket,
   applyAndVerifyTransmissionPacket,
+  getTransmissionSummary,
+  getBatchLeafSequence,
+  verifyBatchPacket,
+  applyBatchPacket,
+  applyAndVerifyBatchPacket,
+  DEFAULT_BATCH_SIZE,
+  TransmissionReceiver,
+  type ReceiveResult,
+  type TransmissionSummary,
+  type LeafSequenceOrder,
+  type LeafSequenceOptions,
 } from './transmission';
 
+// Export inclusion and absence proofs
+export {
+  proveInclusion,
+  verifyInclusion,
+  proveAbsence,
+  verifyAbsence,
+  proveNameAbsence,
+  verifyNameAbsence,
+} from './proofs';
+
 // Export Partial DAG support
-export { getPartial, isPartial } from './partial';
+export {
+  getPartial,
+  getStoredPartial,
+  getPartialByPaths,
+  getPartialByRange,
+  isPartial,
+  verifyPartialDag,
+  mergeDags,
+  getMissingLeaves,
+  type MissingLeaf,
+  type MissingLeavesReport,
+} from './partial';
+export { DagIndex } from './dagIndex';
 
 // Export Diff support
 export {
   diff,
+  diffStoredDags,
   diffFromNewLeaves,
   applyDiffToDag,
   createPartialDagFromDiff,
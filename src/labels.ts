@@ -4,6 +4,13 @@
  */
 
 import { Dag, DagLeaf, ScionicError } from './types';
+import { StoredDag } from './store';
+
+/**
+ * The parts of a DAG that label lookups need
+ * Both in-memory and stored DAGs carry these
+ */
+type LabeledDag = Pick<Dag, 'Root' | 'Labels'>;
 
 /**
  * Iterate through DAG in depth-first order
@@ -11,33 +18,53 @@ import { Dag, DagLeaf, ScionicError } from './types';
 export async function iterateDag(
   dag: Dag,
   processLeaf: (leaf: DagLeaf, parent: DagLeaf | null) => Promise<void> | void
+): Promise<void> {
+  await walkDag(dag.Root, (hash) => dag.Leafs[hash], processLeaf);
+}
+
+/**
+ * Iterate through a stored DAG in depth-first order
+ * Leaves are fetched from the store as they are visited
+ */
+export async function iterateStoredDag(
+  dag: StoredDag,
+  processLeaf: (leaf: DagLeaf, parent: DagLeaf | null) => Promise<void> | void
+): Promise<void> {
+  await walkDag(dag.Root, (hash) => dag.Store.get(hash), processLeaf);
+}
+
+/**
+ * Depth-first walk shared by in-memory and stored DAGs
+ */
+async function walkDag(
+  root: string,
+  getLeaf: (hash: string) => Promise<DagLeaf | undefined> | DagLeaf | undefined,
+  processLeaf: (leaf: DagLeaf, parent: DagLeaf | null) => Promise<void> | void
 ): Promise<void> {
   const visited = new Set<string>();
 
-  async function iterate(leafHash: string, parentHash: string | null): Promise<void> {
+  async function iterate(leafHash: string, parent: DagLeaf | null): Promise<void> {
     if (visited.has(leafHash)) {
       return; // Already processed
     }
     visited.add(leafHash);
 
-    const leaf = dag.Leafs[leafHash];
+    const leaf = await getLeaf(leafHash);
     if (!leaf) {
       throw new ScionicError(`Child is missing when iterating DAG (hash: ${leafHash})`);
     }
 
-    const parent = parentHash ? dag.Leafs[parentHash] : null;
-
     await processLeaf(leaf, parent);
 
     // Process children
     if (leaf.Links && leaf.Links.length > 0) {
       for (const childHash of leaf.Links) {
-        await iterate(childHash, leafHash);
+        await iterate(childHash, leaf);
       }
     }
   }
 
-  await iterate(dag.Root, null);
+  await iterate(root, null);
 }
 
 /**
@@ -46,16 +73,27 @@ export async function iterateDag(
  * Returns the number of labels assigned
  */
 export async function calculateLabels(dag: Dag): Promise<number> {
-  if (!dag.Labels) {
-    dag.Labels = {};
-  } else {
-    // Clear existing labels
-    dag.Labels = {};
-  }
+  return assignLabels(dag, (processLeaf) => iterateDag(dag, processLeaf));
+}
+
+/**
+ * Calculate labels for all leaves in a stored DAG
+ * Labels are kept on the StoredDag; leaves are not loaded into memory
+ */
+export async function calculateStoredLabels(dag: StoredDag): Promise<number> {
+  return assignLabels(dag, (processLeaf) => iterateStoredDag(dag, processLeaf));
+}
+
+async function assignLabels(
+  dag: LabeledDag,
+  iterate: (processLeaf: (leaf: DagLeaf) => void) => Promise<void>
+): Promise<number> {
+  const labels: Record<string, string> = {};
+  dag.Labels = labels;
 
   let labelCounter = 1;
 
-  await iterateDag(dag, (leaf) => {
+  await iterate((leaf) => {
     // Skip the root (it's implicitly label "0")
     if (leaf.Hash === dag.Root) {
       return;
@@ -63,7 +101,7 @@ export async function calculateLabels(dag: Dag): Promise<number> {
 
     // Assign label to this leaf
     const label = labelCounter.toString();
-    dag.Labels![label] = leaf.Hash;
+    labels[label] = leaf.Hash;
     labelCounter++;
   });
 
@@ -73,7 +111,7 @@ export async function calculateLabels(dag: Dag): Promise<number> {
 /**
  * Clear all label assignments
  */
-export function clearLabels(dag: Dag): void {
+export function clearLabels(dag: LabeledDag): void {
   if (dag.Labels) {
     dag.Labels = {};
   }
@@ -84,7 +122,7 @@ export function clearLabels(dag: Dag): void {
  * For example, getHashesByLabelRange(dag, 20, 48) returns hashes for labels 20-48
  */
 export function getHashesByLabelRange(
-  dag: Dag,
+  dag: LabeledDag,
   startLabel: number,
   endLabel: number
 ): string[] {
@@ -125,7 +163,7 @@ export function getHashesByLabelRange(
  * Returns "0" if the hash is the root
  * Returns the numeric label as a string for other leaves
  */
-export function getLabel(dag: Dag, hash: string): string {
+export function getLabel(dag: LabeledDag, hash: string): string {
   // Check if it's the root
   if (hash === dag.Root) {
     return '0';
@@ -149,7 +187,7 @@ export function getLabel(dag: Dag, hash: string): string {
  * Get the hash for a given label
  * Label "0" returns the root hash
  */
-export function getHashByLabel(dag: Dag, label: string): string {
+export function getHashByLabel(dag: LabeledDag, label: string): string {
   if (label === '0') {
     return dag.Root;
   }
@@ -22,6 +22,112 @@ function sortMapForVerification(
     .map(([k, v]) => ({ Key: k, Value: v }));
 }
 
+/**
+ * Build the structure that is CBOR-encoded to produce a leaf's CID
+ * Must match Go/Rust structure exactly
+ * Must use Buffer for byte fields to avoid CBOR tags
+ */
+export function leafHashData(
+  leaf: Pick<DagLeaf, 'ItemName' | 'Type' | 'ClassicMerkleRoot' | 'CurrentLinkCount' | 'ContentHash' | 'AdditionalData'>
+): Record<string, unknown> {
+  return {
+    ItemName: leaf.ItemName,
+    Type: leaf.Type,
+    MerkleRoot: leaf.ClassicMerkleRoot ? Buffer.from(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
+    CurrentLinkCount: leaf.CurrentLinkCount,
+    ContentHash: leaf.ContentHash ? Buffer.from(leaf.ContentHash) : null,
+    AdditionalData: sortMapForVerification(leaf.AdditionalData),
+  };
+}
+
+/**
+ * Build the structure that is CBOR-encoded to produce a root leaf's CID
+ * Unlike regular leaves, the root also commits to the DAG statistics
+ */
+export function rootLeafHashData(
+  leaf: Pick<DagLeaf, 'ItemName' | 'Type' | 'ClassicMerkleRoot' | 'CurrentLinkCount' | 'ContentHash' | 'AdditionalData' | 'LeafCount' | 'ContentSize' | 'DagSize'>
+): Record<string, unknown> {
+  // Field order matters for CBOR encoding!
+  return {
+    ItemName: leaf.ItemName,
+    Type: leaf.Type,
+    MerkleRoot: leaf.ClassicMerkleRoot ? Buffer.from(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
+    CurrentLinkCount: leaf.CurrentLinkCount,
+    LeafCount: leaf.LeafCount,
+    ContentSize: leaf.ContentSize,
+    DagSize: leaf.DagSize,
+    ContentHash: leaf.ContentHash ? Buffer.from(leaf.ContentHash) : null,
+    AdditionalData: sortMapForVerification(leaf.AdditionalData),
+  };
+}
+
+/**
+ * Compute the Classic Merkle root committing to a leaf's links
+ * Links must already be in hashing order (sorted for directories)
+ */
+export function computeLinksMerkleRoot(links: string[]): Uint8Array | undefined {
+  if (links.length > 1) {
+    // Hash each link first, then build tree from hashes
+    const tree = new MerkleTree(links.map(hashLink));
+    return tree.getRoot();
+  } else if (links.length === 1) {
+    // For single link, hash it directly
+    return hashLink(links[0]);
+  }
+  return undefined;
+}
+
+/**
+ * Hash a link the way Classic Merkle roots commit to it
+ */
+export function hashLink(link: string): Uint8Array {
+  return new Uint8Array(createHash('sha256').update(Buffer.from(link, 'utf-8')).digest());
+}
+
+/**
+ * Compare two byte arrays
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Clone a leaf (deep copy)
+ */
+export function cloneLeaf(leaf: DagLeaf): DagLeaf {
+  const clone: DagLeaf = {
+    Hash: leaf.Hash,
+    ItemName: leaf.ItemName,
+    Type: leaf.Type,
+    CurrentLinkCount: leaf.CurrentLinkCount,
+  };
+
+  if (leaf.ContentHash) clone.ContentHash = new Uint8Array(leaf.ContentHash);
+  if (leaf.Content) clone.Content = new Uint8Array(leaf.Content);
+  if (leaf.ClassicMerkleRoot) clone.ClassicMerkleRoot = new Uint8Array(leaf.ClassicMerkleRoot);
+  if (leaf.LeafCount !== undefined) clone.LeafCount = leaf.LeafCount;
+  if (leaf.ContentSize !== undefined) clone.ContentSize = leaf.ContentSize;
+  if (leaf.DagSize !== undefined) clone.DagSize = leaf.DagSize;
+  if (leaf.Links) clone.Links = [...leaf.Links];
+  if (leaf.ParentHash) clone.ParentHash = leaf.ParentHash;
+  if (leaf.AdditionalData) clone.AdditionalData = { ...leaf.AdditionalData };
+  if (leaf.stored_proofs) {
+    clone.stored_proofs = {};
+    for (const [k, v] of Object.entries(leaf.stored_proofs)) {
+      clone.stored_proofs[k] = {
+        Leaf: v.Leaf,
+        Proof: {
+          Siblings: v.Proof.Siblings.map(s => new Uint8Array(s)),
+          Path: v.Proof.Path,
+          ...(v.Proof.PathBits && { PathBits: new Uint8Array(v.Proof.PathBits) }),
+        },
+      };
+    }
+  }
+
+  return clone;
+}
+
 /**
  * Builder for creating DAG leaves
  */
@@ -29,6 +135,7 @@ export class DagLeafBuilder {
   private itemName: string;
   private leafType?: LeafType;
   private data?: Uint8Array;
+  private contentHash?: Uint8Array;
   private links: string[] = [];
 
   constructor(itemName: string) {
@@ -45,6 +152,14 @@ export class DagLeafBuilder {
     return this;
   }
 
+  /**
+   * Use a SHA256 of the data computed elsewhere (e.g. in a worker thread)
+   */
+  setContentHash(contentHash: Uint8Array): this {
+    this.contentHash = contentHash;
+    return this;
+  }
+
   addLink(hash: string): this {
     this.links.push(hash);
     return this;
@@ -66,37 +181,23 @@ export class DagLeafBuilder {
     }
 
     // Build merkle root for links (using sorted links for directories)
-    let merkleRoot: Uint8Array | undefined;
-    if (linksForHashing.length > 1) {
-      // Hash each link first, then build tree from hashes
-      const hashedLeaves = linksForHashing.map((link) => {
-        const linkBytes = Buffer.from(link, 'utf-8');
-        return new Uint8Array(createHash('sha256').update(linkBytes).digest());
-      });
-      const tree = new MerkleTree(hashedLeaves);
-      merkleRoot = tree.getRoot();
-    } else if (linksForHashing.length === 1) {
-      // For single link, hash it directly
-      const linkBytes = Buffer.from(linksForHashing[0], 'utf-8');
-      merkleRoot = new Uint8Array(createHash('sha256').update(linkBytes).digest());
-    }
+    const merkleRoot = computeLinksMerkleRoot(linksForHashing);
 
     // Compute content hash
     let contentHash: Uint8Array | undefined;
     if (this.data) {
-      contentHash = new Uint8Array(createHash('sha256').update(this.data).digest());
+      contentHash = this.contentHash || new Uint8Array(createHash('sha256').update(this.data).digest());
     }
 
     // Create leaf data for hashing (must match Go/Rust structure exactly)
-    // Must use Buffer for byte fields to avoid CBOR tags
-    const leafData = {
+    const leafData = leafHashData({
       ItemName: this.itemName,
       Type: this.leafType,
-      MerkleRoot: merkleRoot ? Buffer.from(merkleRoot) : Buffer.alloc(0),
+      ClassicMerkleRoot: merkleRoot,
       CurrentLinkCount: this.links.length,
-      ContentHash: contentHash ? Buffer.from(contentHash) : null,
-      AdditionalData: sortMapForVerification(additionalData),
-    };
+      ContentHash: contentHash,
+      AdditionalData: additionalData,
+    });
 
     // Create CID from the leaf data
     const hash = await createCID(leafData);
@@ -145,20 +246,7 @@ export class DagLeafBuilder {
     leaf.DagSize = dagSize;
 
     // Recompute hash with root fields
-  // Must match Go's final leafData structure exactly
-  const leafData = {
-    ItemName: leaf.ItemName,
-    Type: leaf.Type,
-    MerkleRoot: leaf.ClassicMerkleRoot ? Buffer.from(leaf.ClassicMerkleRoot) : Buffer.alloc(0),
-    CurrentLinkCount: leaf.CurrentLinkCount,
-    LeafCount: leafCount,
-    ContentSize: contentSize,
-    DagSize: dagSize,
-    ContentHash: leaf.ContentHash ? Buffer.from(leaf.ContentHash) : null,
-    AdditionalData: sortMapForVerification(additionalData),
-  };
-
-  leaf.Hash = await createCID(leafData);
+    leaf.Hash = await createCID(rootLeafHashData(leaf));
 
     return leaf;
   }
@@ -0,0 +1,160 @@
+/**
+ * Path-based lookup and directory listing
+ * Paths are relative to the root leaf and use "/" between item names
+ */
+
+import { Dag, DagLeaf, LeafType, ScionicError } from './types';
+import { fileChunkSize } from './chunking';
+
+/**
+ * A leaf found by resolvePath together with the leaves above it
+ */
+export interface ResolvedPath {
+  /** The leaf the path names */
+  leaf: DagLeaf;
+  /** Ancestors from the root down to the leaf's parent */
+  ancestors: DagLeaf[];
+}
+
+/**
+ * One child of a directory
+ */
+export interface DirectoryEntry {
+  name: string;
+  type: LeafType;
+  /** File size in bytes; undefined for directories and for files whose chunks are missing */
+  size?: number;
+  hash: string;
+}
+
+/**
+ * Contents of a directory
+ */
+export interface DirectoryListing {
+  /** Children present in the DAG, sorted by name */
+  entries: DirectoryEntry[];
+  /** Number of children pruned from this (partial) DAG */
+  pruned: number;
+}
+
+/**
+ * Find the leaf at a path such as "docs/readme.md"
+ * An empty path resolves to the root
+ */
+export function resolvePath(dag: Dag, itemPath: string): ResolvedPath {
+  const rootLeaf = dag.Leafs[dag.Root];
+  if (!rootLeaf) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+
+  const segments = splitPath(itemPath);
+  const ancestors: DagLeaf[] = [];
+  let current = rootLeaf;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const walked = segments.slice(0, i).join('/') || '/';
+
+    if (current.Type !== LeafType.Directory) {
+      throw new ScionicError(`Cannot resolve "${itemPath}": "${walked}" is a ${current.Type}, not a directory`);
+    }
+
+    const child = findChild(dag, current, segment);
+    if (!child) {
+      if (countPruned(dag, current) > 0) {
+        throw new ScionicError(
+          `Cannot resolve "${itemPath}": "${segment}" may have been pruned from "${walked}" in this partial DAG`
+        );
+      }
+      throw new ScionicError(`Cannot resolve "${itemPath}": "${segment}" not found in "${walked}"`);
+    }
+
+    ancestors.push(current);
+    current = child;
+  }
+
+  return { leaf: current, ancestors };
+}
+
+/**
+ * List the children of a directory leaf (the root by default)
+ */
+export function listDirectory(dag: Dag, leafHash: string = dag.Root): DirectoryListing {
+  const leaf = dag.Leafs[leafHash];
+  if (!leaf) {
+    throw new ScionicError(`Leaf ${leafHash} not found in DAG`);
+  }
+  if (leaf.Type !== LeafType.Directory) {
+    throw new ScionicError(`Leaf ${leafHash} is a ${leaf.Type}, not a directory`);
+  }
+
+  const entries: DirectoryEntry[] = [];
+  for (const link of leaf.Links || []) {
+    const child = dag.Leafs[link];
+    if (child) {
+      entries.push({
+        name: child.ItemName,
+        type: child.Type,
+        size: child.Type === LeafType.File ? getFileLeafSize(dag, child) : undefined,
+        hash: child.Hash,
+      });
+    }
+  }
+
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  return { entries, pruned: countPruned(dag, leaf) };
+}
+
+/**
+ * Split a path into item names, ignoring empty and "." segments
+ */
+function splitPath(itemPath: string): string[] {
+  const segments = itemPath.split('/').filter((segment) => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw new ScionicError(`Invalid path "${itemPath}": ".." is not supported`);
+  }
+  return segments;
+}
+
+function findChild(dag: Dag, parent: DagLeaf, name: string): DagLeaf | undefined {
+  for (const link of parent.Links || []) {
+    const child = dag.Leafs[link];
+    if (child && child.ItemName === name) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Count children that are linked but absent, or whose links were removed
+ */
+function countPruned(dag: Dag, leaf: DagLeaf): number {
+  const links = leaf.Links || [];
+  const missing = links.filter((link) => !dag.Leafs[link]).length;
+  return missing + Math.max(leaf.CurrentLinkCount - links.length, 0);
+}
+
+/**
+ * Size of a file from its inline content or its chunks
+ * Every chunk but the last is exactly the file's chunk size, so the first and
+ * last chunks must both be present
+ */
+function getFileLeafSize(dag: Dag, fileLeaf: DagLeaf): number | undefined {
+  const links = fileLeaf.Links || [];
+  if (links.length === 0) {
+    return fileLeaf.Content?.length || 0;
+  }
+
+  const firstChunk = dag.Leafs[links[0]];
+  const lastChunk = dag.Leafs[links[links.length - 1]];
+  if (!firstChunk?.Content || !lastChunk?.Content) {
+    return undefined;
+  }
+
+  const rootLeaf = dag.Leafs[dag.Root];
+  if (!rootLeaf) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+  return (links.length - 1) * fileChunkSize(rootLeaf, firstChunk, links.length) + lastChunk.Content.length;
+}
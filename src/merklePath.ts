@@ -0,0 +1,108 @@
+/**
+ * Merkle proof paths shared by MerkleTree and BrowserMerkleTree
+ *
+ * Path is a uint32 bitmap, as in the Go implementation: bit i is set when
+ * sibling i is on the right. Proofs deeper than 32 levels carry their bits in
+ * PathBits instead, little-endian, and leave Path at 0.
+ */
+
+import { MerkleProof } from './types';
+
+/**
+ * Deepest proof whose path fits in the uint32 Path bitmap
+ */
+export const MAX_PATH_BITMAP_DEPTH = 32;
+
+/**
+ * Number of siblings in a proof for any leaf of a tree with leafCount leaves
+ * Odd levels are padded by duplicating their last node, so every leaf has the same depth
+ */
+export function proofDepth(leafCount: number): number {
+  let depth = 0;
+  for (let count = leafCount; count > 1; count = Math.ceil(count / 2)) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Encode path bits (true where the sibling is on the right) into a proof
+ */
+export function encodeProofPath(siblingOnRight: boolean[]): Pick<MerkleProof, 'Path' | 'PathBits'> {
+  if (siblingOnRight.length <= MAX_PATH_BITMAP_DEPTH) {
+    let path = 0;
+    siblingOnRight.forEach((onRight, i) => {
+      if (onRight) {
+        path = (path | (1 << i)) >>> 0;
+      }
+    });
+    return { Path: path };
+  }
+
+  const bits = new Uint8Array(Math.ceil(siblingOnRight.length / 8));
+  siblingOnRight.forEach((onRight, i) => {
+    if (onRight) {
+      bits[i >> 3] |= 1 << (i & 7);
+    }
+  });
+  return { Path: 0, PathBits: bits };
+}
+
+/**
+ * Decode a proof's path into one flag per sibling
+ * Returns undefined for malformed paths: a Path that is not a uint32, bits set
+ * beyond the last sibling, a PathBits of the wrong length, or more than 32
+ * siblings without PathBits
+ */
+export function decodeProofPath(proof: MerkleProof): boolean[] | undefined {
+  const depth = proof.Siblings.length;
+
+  if (proof.PathBits !== undefined) {
+    const bits = proof.PathBits;
+    if (proof.Path !== 0 || bits.length !== Math.ceil(depth / 8)) {
+      return undefined;
+    }
+    if (depth % 8 !== 0 && bits[bits.length - 1] >> depth % 8 !== 0) {
+      return undefined;
+    }
+    return Array.from({ length: depth }, (_, i) => (bits[i >> 3] & (1 << (i & 7))) !== 0);
+  }
+
+  const path = proof.Path;
+  if (depth > MAX_PATH_BITMAP_DEPTH || !Number.isInteger(path) || path < 0 || path > 0xffffffff) {
+    return undefined;
+  }
+  if (depth < MAX_PATH_BITMAP_DEPTH && path >= 2 ** depth) {
+    return undefined;
+  }
+  return Array.from({ length: depth }, (_, i) => ((path >>> i) & 1) === 1);
+}
+
+/**
+ * Position of the proven leaf, read from the path bits
+ * Each bit is set when the leaf's side of the tree is the left one at that level
+ * Undefined for malformed paths
+ */
+export function proofLeafIndex(proof: MerkleProof): number | undefined {
+  const siblingOnRight = decodeProofPath(proof);
+  return siblingOnRight?.reduce((index, onRight, level) => (onRight ? index : index + 2 ** level), 0);
+}
+
+/**
+ * Decode a proof's path and check the proof fits the tree it claims to be for
+ * Every sibling must be as long as the root, and when leafCount is given the
+ * proof must have exactly one sibling per level of a tree of that many leaves
+ */
+export function checkProofShape(
+  proof: MerkleProof,
+  root: Uint8Array,
+  leafCount?: number
+): boolean[] | undefined {
+  if (!Array.isArray(proof.Siblings) || proof.Siblings.some((sibling) => sibling.length !== root.length)) {
+    return undefined;
+  }
+  if (leafCount !== undefined && proof.Siblings.length !== proofDepth(leafCount)) {
+    return undefined;
+  }
+  return decodeProofPath(proof);
+}
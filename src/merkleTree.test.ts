@@ -1,4 +1,6 @@
 import { MerkleTree } from './merkleTree';
+import { encodeProofPath, decodeProofPath, proofDepth } from './merklePath';
+import { MerkleProof } from './types';
 import { createHash } from 'crypto';
 
 function hash(data: string): Uint8Array {
@@ -97,4 +99,195 @@ describe('MerkleTree', () => {
     const tree = new MerkleTree(leaves);
     expect(tree.getLeafCount()).toBe(3);
   });
+
+  describe('multiproofs', () => {
+    function makeLeaves(count: number): Uint8Array[] {
+      return Array.from({ length: count }, (_, i) => hash(`leaf${i}`));
+    }
+
+    test('verify every subset of leaves for trees of 1 to 9 leaves', () => {
+      for (let count = 1; count <= 9; count++) {
+        const leaves = makeLeaves(count);
+        const tree = new MerkleTree(leaves);
+        const root = tree.getRoot();
+
+        for (let mask = 1; mask < 1 << count; mask++) {
+          const indices = leaves.map((_, i) => i).filter((i) => mask & (1 << i));
+          const proof = tree.getMultiProof(indices);
+
+          expect(proof.LeafCount).toBe(count);
+          expect(MerkleTree.verifyMulti(indices.map((i) => leaves[i]), indices, proof, root)).toBe(true);
+        }
+      }
+    });
+
+    test('a single index needs no more siblings than getProof', () => {
+      const leaves = makeLeaves(7);
+      const tree = new MerkleTree(leaves);
+
+      for (let i = 0; i < leaves.length; i++) {
+        const single = tree.getProof(i);
+        const multi = tree.getMultiProof([i]);
+        expect(multi.Siblings.length).toBeLessThanOrEqual(single.Siblings.length);
+      }
+      // The last leaf pairs with its own duplicate, which the multiproof leaves out
+      expect(tree.getMultiProof([6]).Siblings.length).toBe(tree.getProof(6).Siblings.length - 1);
+    });
+
+    test('shares interior nodes between leaves', () => {
+      const leaves = makeLeaves(1024);
+      const tree = new MerkleTree(leaves);
+
+      expect(tree.getMultiProof(leaves.map((_, i) => i)).Siblings.length).toBe(0);
+      expect(tree.getMultiProof([0, 1, 2, 3]).Siblings.length).toBe(8);
+      expect(tree.getMultiProof([0, 1023]).Siblings.length).toBe(18);
+    });
+
+    test('accepts indices in any order and with duplicates', () => {
+      const leaves = makeLeaves(6);
+      const tree = new MerkleTree(leaves);
+      const proof = tree.getMultiProof([4, 1, 4]);
+
+      expect(MerkleTree.verifyMulti([leaves[1], leaves[4]], [1, 4], proof, tree.getRoot())).toBe(true);
+      expect(MerkleTree.verifyMulti([leaves[4], leaves[1]], [4, 1], proof, tree.getRoot())).toBe(true);
+      expect(MerkleTree.verifyMulti([leaves[4], leaves[1], leaves[4]], [4, 1, 4], proof, tree.getRoot())).toBe(true);
+    });
+
+    test('rejects proofs that do not match', () => {
+      const leaves = makeLeaves(6);
+      const tree = new MerkleTree(leaves);
+      const root = tree.getRoot();
+      const proof = tree.getMultiProof([1, 4]);
+      const proven = [leaves[1], leaves[4]];
+
+      expect(MerkleTree.verifyMulti([leaves[1], hash('wrong')], [1, 4], proof, root)).toBe(false);
+      expect(MerkleTree.verifyMulti(proven, [1, 3], proof, root)).toBe(false);
+      expect(MerkleTree.verifyMulti(proven, [1, 4], { ...proof, LeafCount: 7 }, root)).toBe(false);
+      expect(MerkleTree.verifyMulti(proven, [1, 4], { ...proof, Siblings: proof.Siblings.slice(1) }, root)).toBe(false);
+      expect(
+        MerkleTree.verifyMulti(proven, [1, 4], { ...proof, Siblings: [...proof.Siblings, hash('extra')] }, root)
+      ).toBe(false);
+      expect(MerkleTree.verifyMulti([leaves[1], leaves[2]], [1, 1], proof, root)).toBe(false);
+      expect(MerkleTree.verifyMulti(proven, [1, 6], proof, root)).toBe(false);
+      expect(MerkleTree.verifyMulti([], [], proof, root)).toBe(false);
+    });
+
+    test('throws for invalid indices', () => {
+      const tree = new MerkleTree(makeLeaves(3));
+
+      expect(() => tree.getMultiProof([])).toThrow('No leaf indices given');
+      expect(() => tree.getMultiProof([0, 3])).toThrow('Leaf index out of bounds');
+      expect(() => tree.getMultiProof([-1])).toThrow('Leaf index out of bounds');
+    });
+  });
+
+  describe('proof paths', () => {
+    function hashPair(left: Uint8Array, right: Uint8Array): Uint8Array {
+      return new Uint8Array(createHash('sha256').update(left).update(right).digest());
+    }
+
+    /**
+     * Build a proof of the given depth by hand, without a tree of 2^depth leaves
+     */
+    function deepProof(leaf: Uint8Array, depth: number): { proof: MerkleProof; root: Uint8Array } {
+      const siblings: Uint8Array[] = [];
+      const siblingOnRight: boolean[] = [];
+      let current = leaf;
+      for (let level = 0; level < depth; level++) {
+        const sibling = hash(`sibling ${level}`);
+        const onRight = level % 3 !== 1;
+        current = onRight ? hashPair(current, sibling) : hashPair(sibling, current);
+        siblings.push(sibling);
+        siblingOnRight.push(onRight);
+      }
+      return { proof: { Siblings: siblings, ...encodeProofPath(siblingOnRight) }, root: current };
+    }
+
+    test('proof depth follows the padded tree height', () => {
+      expect([1, 2, 3, 4, 5, 8, 9, 1000].map(proofDepth)).toEqual([0, 1, 2, 2, 3, 3, 4, 10]);
+      expect(proofDepth(2 ** 32)).toBe(32);
+      expect(proofDepth(2 ** 32 + 1)).toBe(33);
+    });
+
+    test('tree proofs have one sibling per level and verify against the leaf count', () => {
+      const leaves = [hash('a'), hash('b'), hash('c'), hash('d'), hash('e')];
+      const tree = new MerkleTree(leaves);
+      const root = tree.getRoot();
+
+      for (let i = 0; i < leaves.length; i++) {
+        const proof = tree.getProof(i);
+        expect(proof.Siblings.length).toBe(proofDepth(leaves.length));
+        expect(proof.PathBits).toBeUndefined();
+        expect(MerkleTree.verify(leaves[i], proof, root, leaves.length)).toBe(true);
+        expect(MerkleTree.verify(leaves[i], proof, root, 4)).toBe(false);
+      }
+    });
+
+    test('the leaf count rejects interior nodes passed off as leaves', () => {
+      const leaves = [hash('a'), hash('b'), hash('c'), hash('d')];
+      const root = new MerkleTree(leaves).getRoot();
+      const interior = hashPair(leaves[0], leaves[1]);
+      const proof = { Siblings: [hashPair(leaves[2], leaves[3])], Path: 1 };
+
+      expect(MerkleTree.verify(interior, proof, root)).toBe(true);
+      expect(MerkleTree.verify(interior, proof, root, leaves.length)).toBe(false);
+    });
+
+    test('paths of up to 32 levels stay in the uint32 bitmap', () => {
+      const { proof, root } = deepProof(hash('leaf'), 32);
+
+      expect(proof.PathBits).toBeUndefined();
+      expect(MerkleTree.verify(hash('leaf'), proof, root, 2 ** 32)).toBe(true);
+
+      // Bit 31 stays unsigned
+      expect(encodeProofPath(new Array(32).fill(true))).toEqual({ Path: 0xffffffff });
+      expect(decodeProofPath({ Siblings: proof.Siblings, Path: 0xffffffff })).toEqual(new Array(32).fill(true));
+    });
+
+    test('deeper paths are carried in PathBits', () => {
+      const { proof, root } = deepProof(hash('leaf'), 45);
+
+      expect(proof.Path).toBe(0);
+      expect(proof.PathBits!.length).toBe(6);
+      expect(decodeProofPath(proof)).toEqual(Array.from({ length: 45 }, (_, level) => level % 3 !== 1));
+      expect(MerkleTree.verify(hash('leaf'), proof, root)).toBe(true);
+      expect(MerkleTree.verify(hash('leaf'), proof, root, 2 ** 45)).toBe(true);
+      expect(MerkleTree.verify(hash('leaf'), proof, root, 2 ** 44)).toBe(false);
+    });
+
+    test('rejects malformed paths', () => {
+      const leaf = hash('leaf');
+      const shallow = deepProof(leaf, 3);
+      const deep = deepProof(leaf, 45);
+      const verify = (proof: MerkleProof, root: Uint8Array) => MerkleTree.verify(leaf, proof, root);
+
+      expect(verify(shallow.proof, shallow.root)).toBe(true);
+      expect(verify({ ...shallow.proof, Path: shallow.proof.Path | 8 }, shallow.root)).toBe(false);
+      expect(verify({ ...shallow.proof, Path: -1 }, shallow.root)).toBe(false);
+      expect(verify({ ...shallow.proof, Path: 1.5 }, shallow.root)).toBe(false);
+      expect(verify({ ...shallow.proof, Path: 2 ** 40 }, shallow.root)).toBe(false);
+
+      // More than 32 levels only fit in PathBits
+      expect(verify({ Siblings: deep.proof.Siblings, Path: 0xffffffff }, deep.root)).toBe(false);
+
+      const bits = deep.proof.PathBits!;
+      expect(verify(deep.proof, deep.root)).toBe(true);
+      expect(verify({ ...deep.proof, Path: 1 }, deep.root)).toBe(false);
+      expect(verify({ ...deep.proof, PathBits: bits.subarray(1) }, deep.root)).toBe(false);
+      expect(verify({ ...deep.proof, PathBits: new Uint8Array([...bits, 0]) }, deep.root)).toBe(false);
+
+      const overflowing = new Uint8Array(bits);
+      overflowing[bits.length - 1] |= 0x80;
+      expect(verify({ ...deep.proof, PathBits: overflowing }, deep.root)).toBe(false);
+    });
+
+    test('rejects siblings of the wrong length', () => {
+      const leaves = [hash('a'), hash('b'), hash('c')];
+      const tree = new MerkleTree(leaves);
+      const proof = tree.getProof(0);
+
+      const truncated = { ...proof, Siblings: [proof.Siblings[0].subarray(0, 16), proof.Siblings[1]] };
+      expect(MerkleTree.verify(leaves[0], truncated, tree.getRoot())).toBe(false);
+    });
+  });
 });
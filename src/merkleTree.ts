@@ -4,7 +4,9 @@
  */
 
 import { createHash } from 'crypto';
-import { MerkleProof } from './types';
+import { MerkleProof, MerkleMultiProof } from './types';
+import { checkProofShape, encodeProofPath } from './merklePath';
+import { bytesEqual } from './leaf';
 
 /**
  * Hash a pair of nodes
@@ -94,9 +96,8 @@ export class MerkleTree {
     }
 
     const siblings: Uint8Array[] = [];
-    let path = 0;
+    const siblingOnRight: boolean[] = []; // One path bit per sibling, not per tree level
     let index = leafIndex;
-    let siblingCount = 0; // Track which sibling we're adding (for path bits)
 
     // Traverse from leaf to root
     for (let level = 0; level < this.layers.length - 1; level++) {
@@ -109,13 +110,8 @@ export class MerkleTree {
       if (siblingIndex < layer.length) {
         siblings.push(layer[siblingIndex]);
 
-        // Set bit in path if sibling is on right (we're on left)
-        // Path bit corresponds to sibling array index, not tree level
-        if (!isRightNode) {
-          path |= 1 << siblingCount;
-        }
-
-        siblingCount++;
+        // Sibling is on right when we're on left
+        siblingOnRight.push(!isRightNode);
       }
 
       index = Math.floor(index / 2);
@@ -123,22 +119,26 @@ export class MerkleTree {
 
     return {
       Siblings: siblings,
-      Path: path,
+      ...encodeProofPath(siblingOnRight),
     };
   }
 
   /**
    * Verify a Merkle proof
+   * Pass the tree's leafCount to also require a proof of exactly the tree's depth;
+   * malformed proofs (bad path bits, oversized paths, wrong hash lengths) fail
    */
-  static verify(leaf: Uint8Array, proof: MerkleProof, root: Uint8Array): boolean {
-    let current = leaf;
+  static verify(leaf: Uint8Array, proof: MerkleProof, root: Uint8Array, leafCount?: number): boolean {
+    const path = checkProofShape(proof, root, leafCount);
+    if (!path) {
+      return false;
+    }
 
+    let current = leaf;
     for (let i = 0; i < proof.Siblings.length; i++) {
       const sibling = proof.Siblings[i];
-      // Check bit in path - if set, sibling is on right (we're on left)
-      const siblingOnRight = (proof.Path & (1 << i)) !== 0;
 
-      if (siblingOnRight) {
+      if (path[i]) {
         // Sibling on right, we're on left
         current = hashPair(current, sibling);
       } else {
@@ -151,6 +151,114 @@ export class MerkleTree {
     return current.length === root.length && current.every((val, idx) => val === root[idx]);
   }
 
+  /**
+   * Generate one proof for several leaves
+   * Siblings that can be computed from the proven leaves, and odd nodes
+   * paired with their own duplicate, are left out
+   */
+  getMultiProof(leafIndices: number[]): MerkleMultiProof {
+    if (leafIndices.length === 0) {
+      throw new Error('No leaf indices given');
+    }
+    for (const index of leafIndices) {
+      if (!Number.isInteger(index) || index < 0 || index >= this.leaves.length) {
+        throw new Error('Leaf index out of bounds');
+      }
+    }
+
+    const siblings: Uint8Array[] = [];
+    let known = [...new Set(leafIndices)].sort((a, b) => a - b);
+    let count = this.leaves.length;
+
+    for (let level = 0; count > 1; level++) {
+      const layer = this.layers[level];
+      const parents: number[] = [];
+
+      for (let k = 0; k < known.length; k++) {
+        const index = known[k];
+        if (index % 2 === 1) {
+          // A known left sibling would have consumed this node already
+          siblings.push(layer[index - 1]);
+        } else if (known[k + 1] === index + 1) {
+          k++;
+        } else if (index + 1 < count) {
+          siblings.push(layer[index + 1]);
+        }
+        parents.push(index >> 1);
+      }
+
+      known = parents;
+      count = Math.ceil(count / 2);
+    }
+
+    return {
+      LeafCount: this.leaves.length,
+      Siblings: siblings,
+    };
+  }
+
+  /**
+   * Verify a multiproof
+   * leaves[i] is the leaf hash at position leafIndices[i]
+   */
+  static verifyMulti(
+    leaves: Uint8Array[],
+    leafIndices: number[],
+    proof: MerkleMultiProof,
+    root: Uint8Array
+  ): boolean {
+    const count = proof.LeafCount;
+    if (leaves.length === 0 || leaves.length !== leafIndices.length || !Number.isSafeInteger(count) || count < 1) {
+      return false;
+    }
+
+    let nodes = new Map<number, Uint8Array>();
+    for (let i = 0; i < leafIndices.length; i++) {
+      const index = leafIndices[i];
+      if (!Number.isInteger(index) || index < 0 || index >= count) {
+        return false;
+      }
+      const existing = nodes.get(index);
+      if (existing && !bytesEqual(existing, leaves[i])) {
+        return false;
+      }
+      nodes.set(index, leaves[i]);
+    }
+
+    let next = 0;
+    let levelCount = count;
+    while (levelCount > 1) {
+      const known = [...nodes.keys()].sort((a, b) => a - b);
+      const parents = new Map<number, Uint8Array>();
+
+      for (let k = 0; k < known.length; k++) {
+        const index = known[k];
+        const node = nodes.get(index)!;
+        let parent: Uint8Array;
+
+        if (index % 2 === 1) {
+          if (next >= proof.Siblings.length) return false;
+          parent = hashPair(proof.Siblings[next++], node);
+        } else if (known[k + 1] === index + 1) {
+          parent = hashPair(node, nodes.get(index + 1)!);
+          k++;
+        } else if (index + 1 < levelCount) {
+          if (next >= proof.Siblings.length) return false;
+          parent = hashPair(node, proof.Siblings[next++]);
+        } else {
+          // Odd node at the end of a level is paired with its duplicate
+          parent = hashPair(node, node);
+        }
+        parents.set(index >> 1, parent);
+      }
+
+      nodes = parents;
+      levelCount = Math.ceil(levelCount / 2);
+    }
+
+    return next === proof.Siblings.length && bytesEqual(nodes.get(0)!, root);
+  }
+
   /**
    * Get the number of leaves
    */
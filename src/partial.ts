@@ -1,141 +1,633 @@
 /**
  * Partial DAG Support
  * Extract subset of leaves from a DAG with verification paths
+ *
+ * Pruned leaves keep their CurrentLinkCount and Classic Merkle root, so their
+ * CIDs still verify; each link that is kept gets a Merkle proof in stored_proofs
  */
 
-import { Dag, DagLeaf, ScionicError } from './types';
+import { ClassicTreeBranch, Dag, DagLeaf, LeafType, ScionicError } from './types';
+import { StoredDag } from './store';
+import { MerkleTree } from './merkleTree';
+import { hashLink, bytesEqual, cloneLeaf } from './leaf';
+import { verifyLeafCommitments, verifyLeafIntegrity } from './dag';
+import { DagIndex } from './dagIndex';
+import { proofLeafIndex } from './merklePath';
+import { compileGlob } from './glob';
+import { resolvePath } from './lookup';
+import { getChunkSpan } from './range';
+import { getChunkSize, chunkItemName } from './chunking';
+
+/**
+ * A linked leaf that is absent from a partial DAG
+ */
+export interface MissingLeaf {
+  hash: string;
+  /** Leaf whose links reference it */
+  parent: string;
+  /** Position among all of the parent's links; undefined if pruned links hide it */
+  index?: number;
+  /** Item name, known for the chunks of a file */
+  name?: string;
+  /** Leaf type, known for the chunks of a file */
+  type?: LeafType;
+}
+
+/**
+ * What a partial DAG still needs to become complete
+ */
+export interface MissingLeavesReport {
+  /** Absent leaves whose CIDs are known, in breadth-first order */
+  leaves: MissingLeaf[];
+  /** Links pruned from their parents, whose CIDs this DAG does not hold */
+  prunedLinks: number;
+  /** Leaves still to fetch, including those below missing leaves, from the root's LeafCount */
+  missingLeafCount: number;
+  /** Estimated bytes still to fetch, from the root's average leaf size (DagSize / LeafCount) */
+  estimatedSize: number;
+}
 
 /**
  * Create a partial DAG containing only specified leaves and their verification paths
  * @param dag - Source DAG
  * @param leafHashes - Hashes of leaves to include
- * @param pruneLinks - If true, remove links to non-included leaves
+ * @param pruneLinks - If true, remove links to non-included leaves and store proofs for the rest
  */
 export function getPartial(dag: Dag, leafHashes: string[], pruneLinks: boolean): Dag {
   if (leafHashes.length === 0) {
     throw new ScionicError('No leaf hashes provided');
   }
 
-  const partialDag: Dag = {
-    Root: dag.Root,
-    Leafs: {},
+  for (const requestedHash of leafHashes) {
+    if (!dag.Leafs[requestedHash]) {
+      throw new ScionicError(`Leaf not found: ${requestedHash}`);
+    }
+  }
+
+  return extractPartial(dag, collectVerificationPaths(DagIndex.fromDag(dag), leafHashes), pruneLinks);
+}
+
+/**
+ * Create a partial DAG holding the items whose paths match any of the globs
+ * Paths are relative to the root, as in resolvePath. A leaf linked from several
+ * directories has one path per directory, and each matching path brings its own
+ * ancestors. A matching file brings its chunks; a matching directory brings only
+ * its own leaf, so use "dir/**" for its contents
+ * @param dag - Source DAG
+ * @param globs - Patterns such as "docs/*.md" or "src/**"
+ * @param pruneLinks - If true, remove links to non-included leaves and store proofs for the rest
+ */
+export function getPartialByPaths(dag: Dag, globs: string[], pruneLinks: boolean = true): Dag {
+  if (globs.length === 0) {
+    throw new ScionicError('No path globs provided');
+  }
+
+  const matchers = globs.map(compileGlob);
+  const relevantHashes = new Set<string>([dag.Root]);
+  let matchCount = 0;
+
+  // Walk every path from the root, carrying the leaves along it
+  const visit = (leaf: DagLeaf, itemPath: string, ancestors: string[]): void => {
+    if (matchers.some((matches) => matches(itemPath))) {
+      matchCount++;
+      for (const hash of [...ancestors, leaf.Hash]) {
+        relevantHashes.add(hash);
+      }
+      if (leaf.Type === LeafType.File) {
+        for (const link of leaf.Links || []) {
+          if (dag.Leafs[link]) {
+            relevantHashes.add(link);
+          }
+        }
+      }
+    }
+
+    if (leaf.Type !== LeafType.Directory) {
+      return;
+    }
+    const childAncestors = [...ancestors, leaf.Hash];
+    for (const link of leaf.Links || []) {
+      const child = dag.Leafs[link];
+      if (child) {
+        visit(child, itemPath ? `${itemPath}/${child.ItemName}` : child.ItemName, childAncestors);
+      }
+    }
   };
 
-  // Track all relevant hashes (requested leaves + verification path)
-  const relevantHashes = new Set<string>();
-  relevantHashes.add(dag.Root);
+  const rootLeaf = dag.Leafs[dag.Root];
+  if (rootLeaf) {
+    visit(rootLeaf, '', []);
+  }
+
+  if (matchCount === 0) {
+    throw new ScionicError(`No items match ${globs.map((glob) => `"${glob}"`).join(', ')}`);
+  }
+  return extractPartial(dag, relevantHashes, pruneLinks);
+}
+
+/**
+ * Create a partial DAG holding the chunks of a file that cover a byte range
+ * The file leaf is always included; files with inline content have no chunks
+ * @param dag - Source DAG
+ * @param filePath - Path of the file relative to the root
+ * @param offset - First byte of the range
+ * @param length - Number of bytes; ranges past the end of the file are truncated to it
+ * @param pruneLinks - If true, remove links to non-included leaves and store proofs for the rest
+ */
+export function getPartialByRange(
+  dag: Dag,
+  filePath: string,
+  offset: number,
+  length: number,
+  pruneLinks: boolean = true
+): Dag {
+  if (!Number.isSafeInteger(offset) || offset < 0 || !Number.isSafeInteger(length) || length < 0) {
+    throw new ScionicError(`Invalid range: offset ${offset}, length ${length}`);
+  }
+
+  const { leaf, ancestors } = resolvePath(dag, filePath);
+  if (leaf.Type !== LeafType.File) {
+    throw new ScionicError(`"${filePath}" is a ${leaf.Type}, not a file`);
+  }
+
+  const links = leaf.Links || [];
+  // The ancestors along the resolved path, which a leaf linked from several directories needs
+  const hashes = [...ancestors.map((ancestor) => ancestor.Hash), leaf.Hash];
+  if (links.length === 0) {
+    const size = leaf.Content?.length || 0;
+    if (offset > size) {
+      throw new ScionicError(`Range start ${offset} is beyond end of file (${size} bytes)`);
+    }
+  } else {
+    const chunkSize = getChunkSize(dag);
+    const span = getChunkSpan(links.length, chunkSize, offset, length);
+    if (span) {
+      hashes.push(...links.slice(span.first, span.last + 1));
+    }
+
+    // The last chunk may be short, so offsets past its start are checked against it
+    const lastStart = (links.length - 1) * chunkSize;
+    const lastChunk = dag.Leafs[links[links.length - 1]];
+    if (offset > lastStart && lastChunk?.Content) {
+      const size = lastStart + lastChunk.Content.length;
+      if (offset > size) {
+        throw new ScionicError(`Range start ${offset} is beyond end of file (${size} bytes)`);
+      }
+    }
+  }
+
+  for (const hash of hashes) {
+    if (!dag.Leafs[hash]) {
+      throw new ScionicError(`Leaf not found: ${hash}`);
+    }
+  }
+  return extractPartial(dag, new Set([dag.Root, ...hashes]), pruneLinks);
+}
+
+/**
+ * Create an in-memory partial DAG from a DAG held in a LeafStore
+ * Only the requested leaves and their verification paths are loaded
+ * @param dag - Source DAG
+ * @param leafHashes - Hashes of leaves to include
+ * @param pruneLinks - If true, remove links to non-included leaves and store proofs for the rest
+ */
+export async function getStoredPartial(
+  dag: StoredDag,
+  leafHashes: string[],
+  pruneLinks: boolean
+): Promise<Dag> {
+  if (leafHashes.length === 0) {
+    throw new ScionicError('No leaf hashes provided');
+  }
 
-  // For each requested leaf, trace path to root
   for (const requestedHash of leafHashes) {
-    const targetLeaf = dag.Leafs[requestedHash];
-    if (!targetLeaf) {
+    if (!(await dag.Store.has(requestedHash))) {
       throw new ScionicError(`Leaf not found: ${requestedHash}`);
     }
+  }
 
-    relevantHashes.add(requestedHash);
+  const relevantHashes = collectVerificationPaths(await DagIndex.fromStore(dag), leafHashes);
 
-    // Add all ancestors in the path to root
-    findPathToRoot(dag, requestedHash, relevantHashes);
-  }
+  const partialDag: Dag = {
+    Root: dag.Root,
+    Leafs: {},
+  };
 
-  // Copy relevant leaves to partial DAG
   for (const hash of relevantHashes) {
-    const leaf = dag.Leafs[hash];
+    const leaf = await dag.Store.get(hash);
     if (leaf) {
-      if (pruneLinks) {
-        // Clone and prune links
-        const cloned = cloneLeaf(leaf);
-        if (cloned.Links) {
-          cloned.Links = cloned.Links.filter((link) => relevantHashes.has(link));
-          cloned.CurrentLinkCount = cloned.Links.length;
-        }
-        partialDag.Leafs[hash] = cloned;
+      partialDag.Leafs[hash] = copyPartialLeaf(leaf, relevantHashes, pruneLinks);
+    }
+  }
+
+  return partialDag;
+}
+
+/**
+ * Clone a leaf for a partial DAG, optionally dropping links outside it
+ * CurrentLinkCount and ClassicMerkleRoot are left as they are; the links that
+ * remain are proven against the root by stored_proofs instead
+ */
+function copyPartialLeaf(leaf: DagLeaf, relevantHashes: Set<string>, pruneLinks: boolean): DagLeaf {
+  const cloned = cloneLeaf(leaf);
+  if (pruneLinks && cloned.Links) {
+    const kept = cloned.Links.filter((link) => relevantHashes.has(link));
+    if (kept.length < cloned.Links.length) {
+      const proofs = getKeptLinkProofs(cloned, kept);
+      cloned.Links = kept;
+      if (Object.keys(proofs).length > 0) {
+        cloned.stored_proofs = proofs;
       } else {
-        // Keep all links
-        partialDag.Leafs[hash] = cloneLeaf(leaf);
+        delete cloned.stored_proofs;
       }
     }
   }
+  return cloned;
+}
 
-  return partialDag;
+/**
+ * Merkle proofs for the links kept when a leaf is pruned
+ * Proofs are built from the full link list, or carried over from stored_proofs
+ * when the source leaf was itself already pruned
+ * A single link needs no proof: it hashes straight to the Classic Merkle root
+ */
+function getKeptLinkProofs(leaf: DagLeaf, kept: string[]): Record<string, ClassicTreeBranch> {
+  const proofs: Record<string, ClassicTreeBranch> = {};
+  if (leaf.CurrentLinkCount <= 1) {
+    return proofs;
+  }
+
+  const links = leaf.Links || [];
+  const tree = links.length === leaf.CurrentLinkCount ? new MerkleTree(links.map(hashLink)) : undefined;
+
+  for (const link of kept) {
+    if (tree) {
+      proofs[link] = { Leaf: link, Proof: tree.getProof(links.indexOf(link)) };
+    } else if (leaf.stored_proofs?.[link]) {
+      proofs[link] = leaf.stored_proofs[link];
+    } else {
+      throw new ScionicError(`Cannot prune ${leaf.Hash}: no Merkle proof for link ${link}`);
+    }
+  }
+  return proofs;
 }
 
 /**
- * Find path from a leaf to root, adding all ancestors to the set
+ * Verify a partial DAG against the root CID it was taken from
+ * Every leaf must be linked from the root, its CID and content must match, and
+ * its links must be committed to by its Classic Merkle root: directly when all
+ * of them are present, or through stored_proofs when some have been pruned
  */
-function findPathToRoot(dag: Dag, leafHash: string, visited: Set<string>): void {
-  // Simple BFS from root to find parent relationships
-  // Since we don't store parent pointers, we need to search
-  const queue: string[] = [dag.Root];
-  const parents = new Map<string, string>();
-  const queued = new Set<string>();
-  queued.add(dag.Root);
+export async function verifyPartialDag(dag: Dag, rootCid: string): Promise<void> {
+  if (dag.Root !== rootCid) {
+    throw new ScionicError(`Partial DAG root ${dag.Root} does not match expected root ${rootCid}`);
+  }
+  if (!dag.Leafs[rootCid]) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    const leaf = dag.Leafs[current];
+  for (const [hash, leaf] of Object.entries(dag.Leafs)) {
+    if (leaf.Hash !== hash) {
+      throw new ScionicError(`Leaf stored under ${hash} has hash ${leaf.Hash}`);
+    }
 
-    if (leaf.Links) {
-      for (const childHash of leaf.Links) {
-        if (!queued.has(childHash)) {
-          parents.set(childHash, current);
-          queue.push(childHash);
-          queued.add(childHash);
-        }
-      }
+    const isRoot = hash === rootCid;
+    if ((leaf.Links || []).length === leaf.CurrentLinkCount) {
+      await verifyLeafIntegrity(leaf, isRoot);
+    } else {
+      verifyPrunedLinks(leaf);
+      await verifyLeafCommitments(leaf, isRoot);
     }
   }
 
-  // Trace path from leaf to root
-  let current: string | undefined = leafHash;
-  while (current) {
-    visited.add(current);
-    current = parents.get(current);
+  // Leaves the root does not reach are not covered by the root CID
+  const index = DagIndex.fromDag(dag);
+  for (const hash of Object.keys(dag.Leafs)) {
+    if (!index.has(hash)) {
+      throw new ScionicError(`Leaf ${hash} is not linked from root ${rootCid}`);
+    }
   }
 }
 
 /**
- * Clone a leaf
+ * Check each remaining link of a pruned leaf against its Classic Merkle root
  */
-function cloneLeaf(leaf: DagLeaf): DagLeaf {
-  const clone: DagLeaf = {
-    Hash: leaf.Hash,
-    ItemName: leaf.ItemName,
-    Type: leaf.Type,
-    CurrentLinkCount: leaf.CurrentLinkCount,
+function verifyPrunedLinks(leaf: DagLeaf): void {
+  const links = leaf.Links || [];
+  if (links.length > leaf.CurrentLinkCount) {
+    throw new ScionicError(
+      `Link count mismatch for leaf ${leaf.Hash}: has ${links.length} links, expected ${leaf.CurrentLinkCount}`
+    );
+  }
+  if (new Set(links).size !== links.length) {
+    throw new ScionicError(`Leaf ${leaf.Hash} lists a link more than once`);
+  }
+  if (links.length === 0) {
+    return;
+  }
+
+  const merkleRoot = leaf.ClassicMerkleRoot;
+  if (!merkleRoot || merkleRoot.length === 0) {
+    throw new ScionicError(`Leaf ${leaf.Hash} has links but no Classic Merkle root`);
+  }
+
+  for (const link of links) {
+    // A single link hashes straight to the root, so its proof is empty
+    const branch: ClassicTreeBranch | undefined =
+      leaf.CurrentLinkCount === 1 ? { Leaf: link, Proof: { Siblings: [], Path: 0 } } : leaf.stored_proofs?.[link];
+    if (!branch) {
+      throw new ScionicError(`Missing Merkle proof for link ${link} of pruned leaf ${leaf.Hash}`);
+    }
+    if (branch.Leaf !== link) {
+      throw new ScionicError(`Merkle proof for link ${link} of ${leaf.Hash} is for ${branch.Leaf}`);
+    }
+    if (!MerkleTree.verify(hashLink(link), branch.Proof, merkleRoot, leaf.CurrentLinkCount)) {
+      throw new ScionicError(`Invalid Merkle proof for link ${link} of ${leaf.Hash}`);
+    }
+  }
+}
+
+/**
+ * Merge two partial DAGs of the same root into a new DAG
+ * Leaves held by both must agree on every field their CID covers. Pruned link
+ * lists are combined in link order, using the positions in their stored proofs,
+ * so once every link is present the leaf matches its Classic Merkle root again
+ */
+export function mergeDags(a: Dag, b: Dag): Dag {
+  if (a.Root !== b.Root) {
+    throw new ScionicError(`Cannot merge DAGs with different roots: ${a.Root} and ${b.Root}`);
+  }
+
+  const merged: Dag = {
+    Root: a.Root,
+    Leafs: {},
   };
 
-  if (leaf.ContentHash) clone.ContentHash = new Uint8Array(leaf.ContentHash);
-  if (leaf.Content) clone.Content = new Uint8Array(leaf.Content);
-  if (leaf.ClassicMerkleRoot) clone.ClassicMerkleRoot = new Uint8Array(leaf.ClassicMerkleRoot);
-  if (leaf.LeafCount !== undefined) clone.LeafCount = leaf.LeafCount;
-  if (leaf.ContentSize !== undefined) clone.ContentSize = leaf.ContentSize;
-  if (leaf.DagSize !== undefined) clone.DagSize = leaf.DagSize;
-  if (leaf.Links) clone.Links = [...leaf.Links];
-  if (leaf.ParentHash) clone.ParentHash = leaf.ParentHash;
-  if (leaf.AdditionalData) clone.AdditionalData = { ...leaf.AdditionalData };
-  if (leaf.stored_proofs) {
-    clone.stored_proofs = {};
-    for (const [k, v] of Object.entries(leaf.stored_proofs)) {
-      clone.stored_proofs[k] = {
-        Leaf: v.Leaf,
-        Proof: {
-          Siblings: v.Proof.Siblings.map(s => new Uint8Array(s)),
-          Path: v.Proof.Path,
-        },
-      };
+  for (const hash of new Set([...Object.keys(a.Leafs), ...Object.keys(b.Leafs)])) {
+    const left = a.Leafs[hash];
+    const right = b.Leafs[hash];
+    merged.Leafs[hash] = left && right ? mergeLeaf(left, right, hash === a.Root) : cloneLeaf(left || right);
+  }
+
+  return merged;
+}
+
+/**
+ * Merge two copies of the same leaf
+ */
+function mergeLeaf(a: DagLeaf, b: DagLeaf, isRoot: boolean): DagLeaf {
+  const conflict = findConflict(a, b, isRoot);
+  if (conflict) {
+    throw new ScionicError(`Conflicting leaves for ${a.Hash}: ${conflict} differs`);
+  }
+
+  const merged = cloneLeaf(a);
+  if (!merged.Content && b.Content) {
+    merged.Content = new Uint8Array(b.Content);
+  }
+
+  const proofs = mergeProofs(merged, cloneLeaf(b));
+  if (Object.keys(proofs).length > 0) {
+    merged.stored_proofs = proofs;
+  }
+
+  const links = mergeLinks(a, b, proofs);
+  if (links) {
+    merged.Links = links;
+  }
+  return merged;
+}
+
+/**
+ * Stored proofs of two copies of a leaf, keeping for each link a proof that
+ * verifies against the leaf's Classic Merkle root; a's wins when both or
+ * neither do, leaving unplaceable links for mergeLinks to reject
+ */
+function mergeProofs(a: DagLeaf, b: DagLeaf): Record<string, ClassicTreeBranch> {
+  const aProofs = a.stored_proofs || {};
+  const bProofs = b.stored_proofs || {};
+  const proofs = { ...bProofs, ...aProofs };
+  for (const [link, branch] of Object.entries(bProofs)) {
+    if (!proofVerifies(link, proofs[link], a) && proofVerifies(link, branch, a)) {
+      proofs[link] = branch;
+    }
+  }
+  return proofs;
+}
+
+/**
+ * Name of the first field two leaves with the same CID disagree on
+ */
+function findConflict(a: DagLeaf, b: DagLeaf, isRoot: boolean): string | undefined {
+  if (a.Hash !== b.Hash) {
+    return 'Hash';
+  }
+
+  const fields = ['ItemName', 'Type', 'CurrentLinkCount'] as const;
+  const rootFields = ['LeafCount', 'ContentSize', 'DagSize'] as const;
+  for (const field of isRoot ? [...fields, ...rootFields] : fields) {
+    if (a[field] !== b[field]) {
+      return field;
+    }
+  }
+
+  for (const field of ['ClassicMerkleRoot', 'ContentHash'] as const) {
+    if (!bytesEqual(a[field] || new Uint8Array(0), b[field] || new Uint8Array(0))) {
+      return field;
+    }
+  }
+  if (a.Content && b.Content && !bytesEqual(a.Content, b.Content)) {
+    return 'Content';
+  }
+
+  const aData = Object.entries(a.AdditionalData || {}).sort();
+  const bData = Object.entries(b.AdditionalData || {}).sort();
+  if (JSON.stringify(aData) !== JSON.stringify(bData)) {
+    return 'AdditionalData';
+  }
+  return undefined;
+}
+
+/**
+ * Combine the link lists of two copies of a leaf
+ * A complete list wins, and every pruned list must be part of it; otherwise
+ * the union is ordered by each link's position in its Merkle proof, and a link
+ * without a valid proof is rejected rather than placed by guesswork
+ */
+function mergeLinks(
+  a: DagLeaf,
+  b: DagLeaf,
+  proofs: Record<string, ClassicTreeBranch>
+): string[] | undefined {
+  if (!a.Links && !b.Links) {
+    return undefined;
+  }
+
+  const aLinks = a.Links || [];
+  const bLinks = b.Links || [];
+  const complete = [aLinks, bLinks].find((links) => links.length === a.CurrentLinkCount);
+
+  if (complete) {
+    const known = new Set(complete);
+    const other = complete === aLinks ? bLinks : aLinks;
+    const conflicting =
+      other.length === complete.length
+        ? other.some((link, i) => link !== complete[i])
+        : other.some((link) => !known.has(link));
+    if (conflicting) {
+      throw new ScionicError(`Conflicting leaves for ${a.Hash}: Links differs`);
     }
+    return [...complete];
   }
 
-  return clone;
+  const union = [...new Set([...aLinks, ...bLinks])];
+  const positions = new Map<string, number>();
+  for (const link of union) {
+    const position = linkPosition(link, a, proofs);
+    if (position === undefined) {
+      throw new ScionicError(`Cannot merge links of ${a.Hash}: no valid Merkle proof places ${link}`);
+    }
+    positions.set(link, position);
+  }
+  return union.sort((x, y) => positions.get(x)! - positions.get(y)!);
+}
+
+/**
+ * Position of a link among its parent's links, from its stored proof
+ * Undefined when the link has no proof that verifies against the parent's Classic Merkle root
+ */
+function linkPosition(
+  link: string,
+  parent: DagLeaf,
+  proofs: Record<string, ClassicTreeBranch>
+): number | undefined {
+  const merkleRoot = parent.ClassicMerkleRoot;
+  if (!merkleRoot) {
+    return undefined;
+  }
+  if (parent.CurrentLinkCount === 1) {
+    return bytesEqual(hashLink(link), merkleRoot) ? 0 : undefined;
+  }
+
+  const branch = proofs[link];
+  return proofVerifies(link, branch, parent) ? proofLeafIndex(branch.Proof) : undefined;
+}
+
+/**
+ * Whether a stored proof is for the link and verifies under the parent
+ */
+function proofVerifies(link: string, branch: ClassicTreeBranch | undefined, parent: DagLeaf): boolean {
+  return (
+    branch?.Leaf === link &&
+    !!parent.ClassicMerkleRoot &&
+    MerkleTree.verify(hashLink(link), branch.Proof, parent.ClassicMerkleRoot, parent.CurrentLinkCount)
+  );
+}
+
+/**
+ * Copy leaves into a new partial DAG
+ * The set must hold the root and a path of ancestors up to it for every leaf
+ */
+function extractPartial(dag: Dag, relevantHashes: Set<string>, pruneLinks: boolean): Dag {
+  const partialDag: Dag = {
+    Root: dag.Root,
+    Leafs: {},
+  };
+
+  for (const hash of relevantHashes) {
+    const leaf = dag.Leafs[hash];
+    if (leaf) {
+      partialDag.Leafs[hash] = copyPartialLeaf(leaf, relevantHashes, pruneLinks);
+    }
+  }
+
+  return partialDag;
+}
+
+/**
+ * Requested leaves together with every ancestor up to the root
+ * Walks stop at the first ancestor already collected, so shared paths are walked once
+ */
+function collectVerificationPaths(index: DagIndex, leafHashes: string[]): Set<string> {
+  const relevantHashes = new Set<string>([index.root]);
+  for (const requestedHash of leafHashes) {
+    let current: string | undefined = requestedHash;
+    while (current !== undefined && !relevantHashes.has(current)) {
+      relevantHashes.add(current);
+      current = index.getParent(current);
+    }
+  }
+  return relevantHashes;
+}
+
+/**
+ * List the leaves a partial DAG references but does not hold
+ * Leaves below a missing leaf cannot be named until it arrives; they are only
+ * counted in missingLeafCount
+ */
+export function getMissingLeaves(dag: Dag): MissingLeavesReport {
+  const rootLeaf = dag.Leafs[dag.Root];
+  if (!rootLeaf) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+
+  const leaves: MissingLeaf[] = [];
+  const seen = new Set<string>([dag.Root]);
+  const queue: DagLeaf[] = [rootLeaf];
+  let prunedLinks = 0;
+
+  for (let head = 0; head < queue.length; head++) {
+    const parent = queue[head];
+    const links = parent.Links || [];
+    const complete = links.length === parent.CurrentLinkCount;
+    prunedLinks += Math.max(parent.CurrentLinkCount - links.length, 0);
+
+    links.forEach((link, i) => {
+      if (seen.has(link)) {
+        return;
+      }
+      seen.add(link);
+
+      const child = dag.Leafs[link];
+      if (child) {
+        queue.push(child);
+        return;
+      }
+
+      const index = complete ? i : linkPosition(link, parent, parent.stored_proofs || {});
+      const missing: MissingLeaf = { hash: link, parent: parent.Hash };
+      if (index !== undefined) {
+        missing.index = index;
+      }
+
+      // Only a file's children can be named without fetching them
+      if (parent.Type === LeafType.File) {
+        missing.type = LeafType.Chunk;
+        if (index !== undefined) {
+          missing.name = chunkItemName(parent.ItemName, index);
+        }
+      }
+      leaves.push(missing);
+    });
+  }
+
+  const leafCount = rootLeaf.LeafCount || 0;
+  const missingLeafCount = Math.max(leafCount - Object.keys(dag.Leafs).length, 0);
+  const estimatedSize = leafCount > 0 ? Math.round(((rootLeaf.DagSize || 0) / leafCount) * missingLeafCount) : 0;
+
+  return { leaves, prunedLinks, missingLeafCount, estimatedSize };
 }
 
 /**
  * Check if DAG is partial (has pruned links)
  */
 export function isPartial(dag: Dag): boolean {
-  // A partial DAG has leaves that reference non-existent children
+  // A partial DAG has leaves that reference non-existent children,
+  // or that have had links pruned
   for (const leaf of Object.values(dag.Leafs)) {
+    if ((leaf.Links || []).length < leaf.CurrentLinkCount) {
+      return true;
+    }
     if (leaf.Links) {
       for (const linkHash of leaf.Links) {
         if (!dag.Leafs[linkHash]) {
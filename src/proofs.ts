@@ -0,0 +1,294 @@
+/**
+ * Proofs about a DAG that can be checked against its root CID alone
+ */
+
+import { createHash } from 'crypto';
+import {
+  Dag,
+  DagLeaf,
+  LeafHeader,
+  LeafType,
+  InclusionProof,
+  InclusionStep,
+  AbsenceProof,
+  NameAbsenceProof,
+  ClassicTreeBranch,
+  ScionicError,
+} from './types';
+import { MerkleTree } from './merkleTree';
+import { proofLeafIndex } from './merklePath';
+import { DagIndex } from './dagIndex';
+import { leafHashData, rootLeafHashData, computeLinksMerkleRoot, hashLink, bytesEqual } from './leaf';
+import { createCID } from './hash';
+
+/**
+ * Prove that a leaf is part of the DAG
+ * The proof holds the leaf, each ancestor's CID fields and the Merkle branch
+ * at every level, so it can be verified without the DAG
+ */
+export function proveInclusion(dag: Dag, leafHash: string): InclusionProof {
+  const leaf = dag.Leafs[leafHash];
+  if (!leaf) {
+    throw new ScionicError(`Leaf ${leafHash} not found in DAG`);
+  }
+
+  const ancestors = DagIndex.fromDag(dag)
+    .getAncestors(leafHash)
+    .map((hash) => dag.Leafs[hash]);
+  const path: InclusionStep[] = ancestors.map((ancestor, i) => {
+    const child = i + 1 < ancestors.length ? ancestors[i + 1] : leaf;
+    return { Leaf: toLeafHeader(ancestor), Branch: getChildBranch(ancestor, child.Hash) };
+  });
+
+  const proven: InclusionProof['Leaf'] = toLeafHeader(leaf);
+  if (leaf.Content) {
+    proven.Content = leaf.Content;
+  }
+
+  return { Leaf: proven, Path: path };
+}
+
+/**
+ * Verify an inclusion proof against a root CID
+ * Throws a ScionicError describing the first check that fails
+ */
+export async function verifyInclusion(rootCid: string, proof: InclusionProof): Promise<void> {
+  const leaves = [...proof.Path.map((step) => step.Leaf), proof.Leaf];
+  if (leaves[0].Hash !== rootCid) {
+    throw new ScionicError(`Inclusion proof starts at ${leaves[0].Hash}, not at root ${rootCid}`);
+  }
+
+  for (let i = 0; i < leaves.length; i++) {
+    const header = leaves[i];
+    const leafData = i === 0 ? rootLeafHashData(header) : leafHashData(header);
+    if ((await createCID(leafData)) !== header.Hash) {
+      throw new ScionicError(`CID mismatch for leaf ${header.Hash} in inclusion proof`);
+    }
+  }
+
+  proof.Path.forEach((step, i) => {
+    const childHash = leaves[i + 1].Hash;
+    if (step.Branch.Leaf !== childHash) {
+      throw new ScionicError(`Branch at depth ${i} is for ${step.Branch.Leaf}, not ${childHash}`);
+    }
+    if (step.Leaf.CurrentLinkCount === 0 || !step.Leaf.ClassicMerkleRoot) {
+      throw new ScionicError(`Leaf ${step.Leaf.Hash} has no links to prove ${childHash} against`);
+    }
+    const { ClassicMerkleRoot, CurrentLinkCount } = step.Leaf;
+    if (!MerkleTree.verify(hashLink(childHash), step.Branch.Proof, ClassicMerkleRoot, CurrentLinkCount)) {
+      throw new ScionicError(`Merkle proof failed for ${childHash} under ${step.Leaf.Hash}`);
+    }
+  });
+
+  const { Content, ContentHash, Hash } = proof.Leaf;
+  if (Content) {
+    const computed = createHash('sha256').update(Content).digest();
+    if (!ContentHash || !computed.equals(Buffer.from(ContentHash))) {
+      throw new ScionicError(`Content hash mismatch for leaf ${Hash}`);
+    }
+  }
+}
+
+/**
+ * Prove that a CID is not one of a directory's entries
+ */
+export function proveAbsence(dag: Dag, directoryHash: string, cid: string): AbsenceProof {
+  const directory = getCompleteDirectory(dag, directoryHash);
+  const links = directory.Links || [];
+  if (links.includes(cid)) {
+    throw new ScionicError(`${cid} is present in directory ${directoryHash}`);
+  }
+
+  const proof: AbsenceProof = { Directory: proveInclusion(dag, directoryHash), Cid: cid };
+  if (links.length === 0) {
+    return proof;
+  }
+
+  // Links are sorted, so the CID would sit just before the first greater link
+  const position = links.findIndex((link) => link > cid);
+  const right = position === -1 ? links.length : position;
+  const tree = new MerkleTree(links.map(hashLink));
+
+  if (right > 0) {
+    proof.Left = { Leaf: links[right - 1], Proof: tree.getProof(right - 1) };
+  }
+  if (right < links.length) {
+    proof.Right = { Leaf: links[right], Proof: tree.getProof(right) };
+  }
+  return proof;
+}
+
+/**
+ * Verify an absence proof against a root CID
+ * The neighbours must bracket the CID and sit at adjacent positions, or at
+ * the start or end of the directory's links
+ */
+export async function verifyAbsence(rootCid: string, proof: AbsenceProof): Promise<void> {
+  const directory = await verifyDirectoryProof(rootCid, proof.Directory);
+  const { Cid: cid, Left: left, Right: right } = proof;
+  const linkCount = directory.CurrentLinkCount;
+
+  if (linkCount === 0) {
+    if (left || right) {
+      throw new ScionicError(`Directory ${directory.Hash} has no links, but the proof has neighbours`);
+    }
+    return;
+  }
+  if (!left && !right) {
+    throw new ScionicError(`Absence proof for ${cid} has no neighbours`);
+  }
+
+  let leftIndex = -1;
+  let rightIndex = linkCount;
+  if (left) {
+    if (!(left.Leaf < cid)) {
+      throw new ScionicError(`Left neighbour ${left.Leaf} does not sort before ${cid}`);
+    }
+    leftIndex = verifyPositionedBranch(directory, left);
+  }
+  if (right) {
+    if (!(right.Leaf > cid)) {
+      throw new ScionicError(`Right neighbour ${right.Leaf} does not sort after ${cid}`);
+    }
+    rightIndex = verifyPositionedBranch(directory, right);
+  }
+
+  if (rightIndex !== leftIndex + 1) {
+    throw new ScionicError(
+      `Neighbours of ${cid} are at positions ${leftIndex} and ${rightIndex} of ${linkCount}, which are not adjacent`
+    );
+  }
+}
+
+/**
+ * Prove that no entry of a directory is called name
+ */
+export function proveNameAbsence(dag: Dag, directoryHash: string, name: string): NameAbsenceProof {
+  const directory = getCompleteDirectory(dag, directoryHash);
+
+  const entries = (directory.Links || []).map((link) => {
+    const entry = dag.Leafs[link];
+    if (!entry) {
+      throw new ScionicError(`Cannot prove absence of "${name}": entry ${link} is missing from the DAG`);
+    }
+    if (entry.ItemName === name) {
+      throw new ScionicError(`"${name}" is present in directory ${directoryHash}`);
+    }
+    return toLeafHeader(entry);
+  });
+
+  return { Directory: proveInclusion(dag, directoryHash), Name: name, Entries: entries };
+}
+
+/**
+ * Verify a name absence proof against a root CID
+ * Every entry must match its CID, and together the CIDs must rebuild the
+ * directory's Classic Merkle root
+ */
+export async function verifyNameAbsence(rootCid: string, proof: NameAbsenceProof): Promise<void> {
+  const directory = await verifyDirectoryProof(rootCid, proof.Directory);
+
+  if (proof.Entries.length !== directory.CurrentLinkCount) {
+    throw new ScionicError(
+      `Proof lists ${proof.Entries.length} entries but directory ${directory.Hash} has ${directory.CurrentLinkCount}`
+    );
+  }
+
+  for (const entry of proof.Entries) {
+    if ((await createCID(leafHashData(entry))) !== entry.Hash) {
+      throw new ScionicError(`CID mismatch for entry ${entry.Hash} in absence proof`);
+    }
+    if (entry.ItemName === proof.Name) {
+      throw new ScionicError(`"${proof.Name}" is present in directory ${directory.Hash}`);
+    }
+  }
+
+  if (directory.CurrentLinkCount === 0) {
+    return;
+  }
+  const merkleRoot = computeLinksMerkleRoot(proof.Entries.map((entry) => entry.Hash).sort());
+  if (!merkleRoot || !directory.ClassicMerkleRoot || !bytesEqual(merkleRoot, directory.ClassicMerkleRoot)) {
+    throw new ScionicError(`Entries do not match the Classic Merkle root of directory ${directory.Hash}`);
+  }
+}
+
+/**
+ * Get a directory leaf whose links have not been pruned
+ */
+function getCompleteDirectory(dag: Dag, directoryHash: string): DagLeaf {
+  const directory = dag.Leafs[directoryHash];
+  if (!directory) {
+    throw new ScionicError(`Leaf ${directoryHash} not found in DAG`);
+  }
+  if (directory.Type !== LeafType.Directory) {
+    throw new ScionicError(`Leaf ${directoryHash} is a ${directory.Type}, not a directory`);
+  }
+  if ((directory.Links || []).length !== directory.CurrentLinkCount) {
+    throw new ScionicError(`Cannot prove absence: links of ${directoryHash} have been pruned`);
+  }
+  return directory;
+}
+
+async function verifyDirectoryProof(rootCid: string, proof: InclusionProof): Promise<LeafHeader> {
+  await verifyInclusion(rootCid, proof);
+  if (proof.Leaf.Type !== LeafType.Directory) {
+    throw new ScionicError(`Leaf ${proof.Leaf.Hash} is a ${proof.Leaf.Type}, not a directory`);
+  }
+  return proof.Leaf;
+}
+
+/**
+ * Verify a branch against a directory's Classic Merkle root and return the link's position
+ */
+function verifyPositionedBranch(directory: LeafHeader, branch: ClassicTreeBranch): number {
+  const merkleRoot = directory.ClassicMerkleRoot;
+  if (
+    !merkleRoot ||
+    !MerkleTree.verify(hashLink(branch.Leaf), branch.Proof, merkleRoot, directory.CurrentLinkCount)
+  ) {
+    throw new ScionicError(`Merkle proof failed for ${branch.Leaf} under ${directory.Hash}`);
+  }
+
+  const index = proofLeafIndex(branch.Proof)!;
+  if (index >= directory.CurrentLinkCount) {
+    throw new ScionicError(`Branch for ${branch.Leaf} points past the ${directory.CurrentLinkCount} links`);
+  }
+  return index;
+}
+
+/**
+ * Branch proving that childHash is one of parent's links
+ * A stored proof is used when the parent's links have been pruned
+ */
+function getChildBranch(parent: DagLeaf, childHash: string): ClassicTreeBranch {
+  const stored = parent.stored_proofs?.[childHash];
+  if (stored) {
+    return stored;
+  }
+
+  const links = parent.Links || [];
+  if (links.length !== parent.CurrentLinkCount) {
+    throw new ScionicError(`Cannot prove ${childHash}: links of ${parent.Hash} have been pruned`);
+  }
+
+  const tree = new MerkleTree(links.map(hashLink));
+  return { Leaf: childHash, Proof: tree.getProof(links.indexOf(childHash)) };
+}
+
+function toLeafHeader(leaf: DagLeaf): LeafHeader {
+  const header: LeafHeader = {
+    Hash: leaf.Hash,
+    ItemName: leaf.ItemName,
+    Type: leaf.Type,
+    CurrentLinkCount: leaf.CurrentLinkCount,
+  };
+
+  if (leaf.ClassicMerkleRoot) header.ClassicMerkleRoot = leaf.ClassicMerkleRoot;
+  if (leaf.ContentHash) header.ContentHash = leaf.ContentHash;
+  if (leaf.AdditionalData) header.AdditionalData = leaf.AdditionalData;
+  if (leaf.LeafCount !== undefined) header.LeafCount = leaf.LeafCount;
+  if (leaf.ContentSize !== undefined) header.ContentSize = leaf.ContentSize;
+  if (leaf.DagSize !== undefined) header.DagSize = leaf.DagSize;
+
+  return header;
+}
@@ -0,0 +1,222 @@
+/**
+ * Random-access reads from file DAGs
+ * Only the chunks covering a byte range are loaded, and each one is verified
+ * against its file leaf's Classic Merkle root before any bytes are returned
+ */
+
+import { createHash } from 'crypto';
+import { Dag, DagLeaf, LeafType, ScionicError } from './types';
+import { MerkleTree } from './merkleTree';
+import { leafHashData, rootLeafHashData, hashLink } from './leaf';
+import { createCID } from './hash';
+import { CHUNK_SIZE_KEY, chunkSizeFromRoot, fileChunkSize } from './chunking';
+import { StoredDag, toStoredDag } from './store';
+
+/**
+ * Read length bytes starting at offset from a file in the DAG
+ * Ranges running past the end of the file are truncated to it
+ */
+export async function readRange(
+  dag: Dag | StoredDag,
+  fileLeafHash: string,
+  offset: number,
+  length: number
+): Promise<Uint8Array> {
+  if (!Number.isSafeInteger(offset) || offset < 0 || !Number.isSafeInteger(length) || length < 0) {
+    throw new ScionicError(`Invalid range: offset ${offset}, length ${length}`);
+  }
+
+  const stored = 'Store' in dag ? dag : toStoredDag(dag);
+  const fileLeaf = await loadFileLeaf(stored, fileLeafHash);
+  const links = fileLeaf.Links || [];
+
+  // Inline content: the whole file is in the file leaf itself
+  if (links.length === 0) {
+    const content = fileLeaf.Content || new Uint8Array(0);
+    if (offset > content.length) {
+      throw new ScionicError(`Range start ${offset} is beyond end of file (${content.length} bytes)`);
+    }
+    return content.slice(offset, offset + length);
+  }
+
+  const tree = buildLinkTree(links);
+  const chunkSize = await getFileChunkSize(stored, fileLeaf, tree);
+  const span = getChunkSpan(links.length, chunkSize, offset, length);
+  if (!span) {
+    // An empty read must still start within the file, whose last chunk may be short
+    const lastStart = (links.length - 1) * chunkSize;
+    if (offset > lastStart) {
+      const size = lastStart + (await loadVerifiedChunk(stored, fileLeaf, tree, links.length - 1)).Content!.length;
+      if (offset > size) {
+        throw new ScionicError(`Range start ${offset} is beyond end of file (${size} bytes)`);
+      }
+    }
+    return new Uint8Array(0);
+  }
+
+  const parts: Uint8Array[] = [];
+  for (let index = span.first; index <= span.last; index++) {
+    const chunk = await loadVerifiedChunk(stored, fileLeaf, tree, index);
+    const content = chunk.Content!;
+
+    if (index < links.length - 1 && content.length !== chunkSize) {
+      throw new ScionicError(
+        `Chunk ${index} of ${fileLeafHash} is ${content.length} bytes, expected ${chunkSize}`
+      );
+    }
+
+    const chunkStart = index * chunkSize;
+    const from = Math.max(offset - chunkStart, 0);
+    const to = Math.min(offset + length - chunkStart, content.length);
+    if (from > content.length) {
+      throw new ScionicError(`Range start ${offset} is beyond end of file`);
+    }
+    parts.push(content.subarray(from, to));
+  }
+
+  return concat(parts);
+}
+
+/**
+ * Get the size in bytes of a file in the DAG
+ * For chunked files only the first and final chunks are loaded
+ */
+export async function getFileSize(dag: Dag | StoredDag, fileLeafHash: string): Promise<number> {
+  const stored = 'Store' in dag ? dag : toStoredDag(dag);
+  const fileLeaf = await loadFileLeaf(stored, fileLeafHash);
+  const links = fileLeaf.Links || [];
+
+  if (links.length === 0) {
+    return fileLeaf.Content?.length || 0;
+  }
+
+  const tree = buildLinkTree(links);
+  const chunkSize = await getFileChunkSize(stored, fileLeaf, tree, true);
+  const lastChunk = await loadVerifiedChunk(stored, fileLeaf, tree, links.length - 1);
+  return (links.length - 1) * chunkSize + lastChunk.Content!.length;
+}
+
+/**
+ * Indices of the first and last chunks covering a byte range of a chunked file
+ * Undefined for an empty range, including one starting at the end of the file;
+ * chunks past the end of the file are left out. The last chunk may be short, so
+ * callers check offsets past the start of it against its length
+ */
+export function getChunkSpan(
+  chunkCount: number,
+  chunkSize: number,
+  offset: number,
+  length: number
+): { first: number; last: number } | undefined {
+  if (offset > chunkCount * chunkSize) {
+    throw new ScionicError(`Range start ${offset} is beyond end of file (${chunkCount} chunks)`);
+  }
+  if (length === 0 || offset === chunkCount * chunkSize) {
+    return undefined;
+  }
+  return {
+    first: Math.floor(offset / chunkSize),
+    last: Math.min(Math.floor((offset + length - 1) / chunkSize), chunkCount - 1),
+  };
+}
+
+/**
+ * Load a file leaf and check its CID, which commits to its Classic Merkle root
+ */
+async function loadFileLeaf(dag: StoredDag, fileLeafHash: string): Promise<DagLeaf> {
+  const fileLeaf = await dag.Store.get(fileLeafHash);
+  if (!fileLeaf) {
+    throw new ScionicError(`File leaf ${fileLeafHash} not found in DAG`);
+  }
+  if (fileLeaf.Type !== LeafType.File) {
+    throw new ScionicError(`Leaf ${fileLeafHash} is a ${fileLeaf.Type}, not a file`);
+  }
+
+  const leafData = fileLeafHash === dag.Root ? rootLeafHashData(fileLeaf) : leafHashData(fileLeaf);
+  if ((await createCID(leafData)) !== fileLeafHash) {
+    throw new ScionicError(`CID mismatch for file leaf ${fileLeafHash}`);
+  }
+
+  if (fileLeaf.Content) {
+    verifyContentHash(fileLeaf);
+  }
+
+  return fileLeaf;
+}
+
+/**
+ * Load one chunk, prove its link against the file's Classic Merkle root and
+ * check that the chunk's content and CID match that link
+ */
+async function loadVerifiedChunk(
+  dag: StoredDag,
+  fileLeaf: DagLeaf,
+  tree: MerkleTree,
+  index: number
+): Promise<DagLeaf> {
+  const link = fileLeaf.Links![index];
+  const proof = tree.getProof(index);
+  const { ClassicMerkleRoot, CurrentLinkCount } = fileLeaf;
+  if (!ClassicMerkleRoot || !MerkleTree.verify(hashLink(link), proof, ClassicMerkleRoot, CurrentLinkCount)) {
+    throw new ScionicError(`Merkle proof failed for chunk ${index} of ${fileLeaf.Hash}`);
+  }
+
+  const chunk = await dag.Store.get(link);
+  if (!chunk || !chunk.Content) {
+    throw new ScionicError(`Chunk ${link} not found or has no content`);
+  }
+
+  verifyContentHash(chunk);
+  if ((await createCID(leafHashData(chunk))) !== link) {
+    throw new ScionicError(`CID mismatch for chunk ${link}`);
+  }
+
+  return chunk;
+}
+
+/**
+ * Get a chunked file's chunk size, loading its verified first chunk when the
+ * root records none or when checkFirst is set
+ */
+async function getFileChunkSize(
+  dag: StoredDag,
+  fileLeaf: DagLeaf,
+  tree: MerkleTree,
+  checkFirst = false
+): Promise<number> {
+  const rootLeaf = await dag.Store.get(dag.Root);
+  if (!rootLeaf) {
+    throw new ScionicError('Root leaf not found in DAG');
+  }
+  if (!checkFirst && rootLeaf.AdditionalData?.[CHUNK_SIZE_KEY] !== undefined) {
+    // readRange checks every chunk it loads but the last against this size
+    return chunkSizeFromRoot(rootLeaf);
+  }
+
+  const firstChunk = await loadVerifiedChunk(dag, fileLeaf, tree, 0);
+  return fileChunkSize(rootLeaf, firstChunk, fileLeaf.Links!.length);
+}
+
+function buildLinkTree(links: string[]): MerkleTree {
+  return new MerkleTree(links.map(hashLink));
+}
+
+function verifyContentHash(leaf: DagLeaf): void {
+  const computed = createHash('sha256').update(leaf.Content!).digest();
+  if (!leaf.ContentHash || !computed.equals(Buffer.from(leaf.ContentHash))) {
+    throw new ScionicError(`Content hash mismatch for leaf ${leaf.Hash}`);
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) {
+    return parts[0].slice();
+  }
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
@@ -3,15 +3,36 @@
  */
 
 import * as cbor from 'cbor';
-import { Dag, DagLeaf, ScionicError } from './types';
+import {
+  Dag,
+  DagLeaf,
+  ScionicError,
+  TransmissionPacket,
+  BatchTransmissionPacket,
+  ClassicTreeBranch,
+} from './types';
 import * as fs from 'fs';
 
+/**
+ * Let cbor buffer up to 2 GiB of output
+ * With its default 16 KiB buffer, cbor.encode silently truncates large outputs.
+ * highWaterMark is passed through to the encoder's stream but missing from cbor's types
+ */
+const CBOR_ENCODING_OPTIONS = { highWaterMark: 2 ** 31 } as Parameters<typeof cbor.encodeOne>[1];
+
+/**
+ * Encode a value to CBOR without cbor.encode's output size limit
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  return cbor.encodeOne(value, CBOR_ENCODING_OPTIONS);
+}
+
 /**
  * Serialize DAG to CBOR
  */
 export function toCBOR(dag: Dag): Uint8Array {
   try {
-    return cbor.encode(dag);
+    return encodeCbor(dag);
   } catch (error) {
     throw new ScionicError(`CBOR serialization failed: ${error}`);
   }
@@ -58,6 +79,335 @@ export function fromJSON(json: string): Dag {
   }
 }
 
+/**
+ * Serialize a single leaf to CBOR
+ */
+export function encodeLeaf(leaf: DagLeaf): Uint8Array {
+  try {
+    return encodeCbor(leaf);
+  } catch (error) {
+    throw new ScionicError(`CBOR leaf serialization failed: ${error}`);
+  }
+}
+
+/**
+ * Deserialize a single leaf from CBOR
+ */
+export function decodeLeaf(data: Uint8Array): DagLeaf {
+  try {
+    return normalizeLeaf(cbor.decode(Buffer.from(data.buffer, data.byteOffset, data.byteLength)));
+  } catch (error) {
+    throw new ScionicError(`CBOR leaf deserialization failed: ${error}`);
+  }
+}
+
+/**
+ * Serialize the links and stored proofs of a leaf to CBOR
+ * These are the parts of a leaf its CID commits to only through the Merkle root
+ */
+export function encodeLeafLinks(leaf: Pick<DagLeaf, 'Hash' | 'Links' | 'stored_proofs'>): Uint8Array {
+  const record: Record<string, unknown> = { Leaf: leaf.Hash };
+  if (leaf.Links) {
+    record.Links = leaf.Links;
+  }
+  if (leaf.stored_proofs) {
+    const storedProofs: Record<string, unknown> = {};
+    for (const [hash, branch] of Object.entries(leaf.stored_proofs)) {
+      storedProofs[hash] = wireBranch(branch);
+    }
+    record.stored_proofs = storedProofs;
+  }
+
+  try {
+    return encodeCbor(record);
+  } catch (error) {
+    throw new ScionicError(`CBOR leaf links serialization failed: ${error}`);
+  }
+}
+
+/**
+ * Deserialize the links and stored proofs written by encodeLeafLinks
+ */
+export function decodeLeafLinks(data: Uint8Array): Pick<DagLeaf, 'Hash' | 'Links' | 'stored_proofs'> {
+  let decoded: any;
+  try {
+    decoded = cbor.decode(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  } catch (error) {
+    throw new ScionicError(`CBOR leaf links deserialization failed: ${error}`);
+  }
+
+  if (!decoded || typeof decoded.Leaf !== 'string') {
+    throw new ScionicError('Invalid leaf links: missing Leaf');
+  }
+  const links: unknown = decoded.Links;
+  if (links !== undefined && !(Array.isArray(links) && links.every((link) => typeof link === 'string'))) {
+    throw new ScionicError(`Invalid leaf links for ${decoded.Leaf}: Links must be strings`);
+  }
+
+  const record: Pick<DagLeaf, 'Hash' | 'Links' | 'stored_proofs'> = { Hash: decoded.Leaf };
+  if (links) {
+    record.Links = links;
+  }
+  if (decoded.stored_proofs) {
+    record.stored_proofs = {};
+    for (const [hash, branch] of Object.entries(decoded.stored_proofs)) {
+      record.stored_proofs[hash] = normalizeBranch(branch);
+    }
+  }
+  return record;
+}
+
+/**
+ * Serialize a transmission packet to CBOR
+ * The map has the same keys as the Go implementation's packets: Leaf, ParentHash and proofs.
+ * Byte fields are written as plain byte strings, without the typed-array tag
+ * cbor adds to Uint8Arrays, so Go decodes them as []byte
+ */
+export function encodePacket(packet: TransmissionPacket): Uint8Array {
+  const proofs: Record<string, unknown> = {};
+  for (const [hash, branch] of Object.entries(packet.proofs || {})) {
+    proofs[hash] = wireBranch(branch);
+  }
+
+  try {
+    return encodeCbor({
+      Leaf: wireLeaf(packet.Leaf),
+      ParentHash: packet.ParentHash,
+      proofs,
+    });
+  } catch (error) {
+    throw new ScionicError(`CBOR packet serialization failed: ${error}`);
+  }
+}
+
+/**
+ * Deserialize a transmission packet from CBOR
+ */
+export function decodePacket(data: Uint8Array): TransmissionPacket {
+  let decoded: any;
+  try {
+    decoded = cbor.decode(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  } catch (error) {
+    throw new ScionicError(`CBOR packet deserialization failed: ${error}`);
+  }
+
+  if (!decoded || !decoded.Leaf || typeof decoded.ParentHash !== 'string') {
+    throw new ScionicError('Invalid transmission packet: missing Leaf or ParentHash');
+  }
+  checkPacketLeaf(decoded.Leaf);
+
+  const packet: TransmissionPacket = {
+    Leaf: normalizeLeaf(decoded.Leaf),
+    ParentHash: decoded.ParentHash,
+    proofs: {},
+  };
+  for (const [hash, branch] of Object.entries(decoded.proofs || {})) {
+    packet.proofs![hash] = normalizeBranch(branch);
+  }
+  return packet;
+}
+
+/**
+ * Check the field types of a decoded packet leaf before it is normalized
+ */
+function checkPacketLeaf(leaf: any): void {
+  for (const field of ['Hash', 'ItemName', 'Type']) {
+    if (typeof leaf[field] !== 'string') {
+      throw new ScionicError(`Invalid transmission packet: Leaf.${field} must be a string`);
+    }
+  }
+  for (const field of ['Content', 'ContentHash', 'ClassicMerkleRoot']) {
+    if (leaf[field] != null && !(leaf[field] instanceof Uint8Array)) {
+      throw new ScionicError(`Invalid transmission packet: Leaf.${field} must be bytes`);
+    }
+  }
+  const links = leaf.Links;
+  if (links != null && (!Array.isArray(links) || !links.every((link) => typeof link === 'string'))) {
+    throw new ScionicError('Invalid transmission packet: Leaf.Links must be an array of strings');
+  }
+  for (const field of ['CurrentLinkCount', 'LeafCount', 'ContentSize', 'DagSize']) {
+    const value = leaf[field];
+    if ((value != null || field === 'CurrentLinkCount') && !isNonNegativeInteger(value)) {
+      throw new ScionicError(`Invalid transmission packet: Leaf.${field} must be a non-negative integer`);
+    }
+  }
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return Number.isSafeInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Serialize a batch packet to CBOR
+ */
+export function encodeBatchPacket(batch: BatchTransmissionPacket): Uint8Array {
+  try {
+    return encodeCbor({
+      ParentHash: batch.ParentHash,
+      Leaves: batch.Leaves.map(wireLeaf),
+      Indices: batch.Indices,
+      Proof: { LeafCount: batch.Proof.LeafCount, Siblings: batch.Proof.Siblings.map(toBuffer) },
+    });
+  } catch (error) {
+    throw new ScionicError(`CBOR batch packet serialization failed: ${error}`);
+  }
+}
+
+/**
+ * Deserialize a batch packet from CBOR
+ */
+export function decodeBatchPacket(data: Uint8Array): BatchTransmissionPacket {
+  let decoded: any;
+  try {
+    decoded = cbor.decode(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+  } catch (error) {
+    throw new ScionicError(`CBOR batch packet deserialization failed: ${error}`);
+  }
+
+  if (
+    !decoded ||
+    typeof decoded.ParentHash !== 'string' ||
+    !Array.isArray(decoded.Leaves) ||
+    !Array.isArray(decoded.Indices) ||
+    !decoded.Proof
+  ) {
+    throw new ScionicError('Invalid batch packet: missing ParentHash, Leaves, Indices or Proof');
+  }
+  decoded.Leaves.forEach(checkPacketLeaf);
+
+  // The root batch carries the root alone and has no indices
+  const indexCount = decoded.ParentHash === '' ? 0 : decoded.Leaves.length;
+  if (decoded.Indices.length !== indexCount || !decoded.Indices.every(isNonNegativeInteger)) {
+    throw new ScionicError(`Invalid batch packet: Indices must be ${indexCount} non-negative integers, one per leaf`);
+  }
+  if (!isNonNegativeInteger(decoded.Proof.LeafCount)) {
+    throw new ScionicError('Invalid batch packet: Proof.LeafCount must be a non-negative integer');
+  }
+  const siblings = decoded.Proof.Siblings;
+  if (siblings != null && (!Array.isArray(siblings) || !siblings.every((sibling) => sibling instanceof Uint8Array))) {
+    throw new ScionicError('Invalid batch packet: Proof.Siblings must be an array of bytes');
+  }
+
+  return {
+    ParentHash: decoded.ParentHash,
+    Leaves: decoded.Leaves.map(normalizeLeaf),
+    Indices: decoded.Indices,
+    Proof: {
+      LeafCount: decoded.Proof.LeafCount,
+      Siblings: (decoded.Proof.Siblings || []).map(toUint8Array),
+    },
+  };
+}
+
+/**
+ * Size of the big-endian length prefix before each framed packet
+ */
+const FRAME_PREFIX_SIZE = 4;
+
+/**
+ * Largest frame accepted by PacketFrameDecoder unless configured otherwise
+ */
+export const DEFAULT_MAX_FRAME_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Encode a packet with a 4-byte big-endian length prefix for stream transports
+ */
+export function framePacket(packet: TransmissionPacket): Uint8Array {
+  const encoded = encodePacket(packet);
+  const frame = new Uint8Array(FRAME_PREFIX_SIZE + encoded.length);
+  new DataView(frame.buffer).setUint32(0, encoded.length, false);
+  frame.set(encoded, FRAME_PREFIX_SIZE);
+  return frame;
+}
+
+/**
+ * Incremental decoder for length-prefixed packets
+ * Bytes can be pushed in pieces of any size, as they arrive from a socket or data channel
+ */
+export class PacketFrameDecoder {
+  private pieces: Uint8Array[] = [];
+  private pendingBytes = 0;
+
+  constructor(private readonly maxFrameSize: number = DEFAULT_MAX_FRAME_SIZE) {}
+
+  /**
+   * Add received bytes and return every packet they complete
+   */
+  push(bytes: Uint8Array): TransmissionPacket[] {
+    if (bytes.length > 0) {
+      this.pieces.push(bytes);
+      this.pendingBytes += bytes.length;
+    }
+
+    const packets: TransmissionPacket[] = [];
+    while (this.pendingBytes >= FRAME_PREFIX_SIZE) {
+      const prefix = this.peek(FRAME_PREFIX_SIZE);
+      const frameSize = new DataView(prefix.buffer, prefix.byteOffset, FRAME_PREFIX_SIZE).getUint32(0, false);
+      if (frameSize > this.maxFrameSize) {
+        throw new ScionicError(`Packet frame of ${frameSize} bytes exceeds the ${this.maxFrameSize} byte limit`);
+      }
+      if (this.pendingBytes < FRAME_PREFIX_SIZE + frameSize) {
+        break;
+      }
+
+      const frame = this.take(FRAME_PREFIX_SIZE + frameSize);
+      packets.push(decodePacket(frame.subarray(FRAME_PREFIX_SIZE)));
+    }
+    return packets;
+  }
+
+  /**
+   * Number of bytes received that do not yet form a complete frame
+   */
+  get pending(): number {
+    return this.pendingBytes;
+  }
+
+  /**
+   * Get the first length buffered bytes without consuming them
+   */
+  private peek(length: number): Uint8Array {
+    if (this.pieces[0].length < length) {
+      this.pieces = [concatBytes(this.pieces)];
+    }
+    return this.pieces[0].subarray(0, length);
+  }
+
+  /**
+   * Remove and return the first length buffered bytes
+   */
+  private take(length: number): Uint8Array {
+    if (this.pieces[0].length < length) {
+      this.pieces = [concatBytes(this.pieces)];
+    }
+    const first = this.pieces[0];
+    const taken = first.subarray(0, length);
+    if (first.length === length) {
+      this.pieces.shift();
+    } else {
+      this.pieces[0] = first.subarray(length);
+    }
+    this.pendingBytes -= length;
+    return taken;
+  }
+}
+
+/**
+ * Read length-prefixed packets from a byte stream such as a socket
+ */
+export async function* readFramedPackets(
+  source: AsyncIterable<Uint8Array>,
+  maxFrameSize?: number
+): AsyncGenerator<TransmissionPacket> {
+  const decoder = new PacketFrameDecoder(maxFrameSize);
+  for await (const bytes of source) {
+    yield* decoder.push(bytes);
+  }
+  if (decoder.pending > 0) {
+    throw new ScionicError(`Packet stream ended inside a frame (${decoder.pending} bytes pending)`);
+  }
+}
+
 /**
  * Normalize DAG structure after deserialization
  * Ensures all byte arrays are Uint8Array
@@ -110,11 +460,78 @@ function normalizeLeaf(leaf: any): DagLeaf {
   if (leaf.Links) normalized.Links = leaf.Links;
   if (leaf.ParentHash) normalized.ParentHash = leaf.ParentHash;
   if (leaf.AdditionalData) normalized.AdditionalData = leaf.AdditionalData;
-  if (leaf.stored_proofs) normalized.stored_proofs = leaf.stored_proofs;
+  if (leaf.stored_proofs) {
+    normalized.stored_proofs = {};
+    for (const [hash, branch] of Object.entries(leaf.stored_proofs)) {
+      normalized.stored_proofs[hash] = normalizeBranch(branch);
+    }
+  }
 
   return normalized;
 }
 
+/**
+ * Copy of a leaf whose byte fields are Buffers, which cbor encodes as plain byte strings
+ */
+function wireLeaf(leaf: DagLeaf): Record<string, unknown> {
+  const record: Record<string, unknown> = { ...leaf };
+  for (const field of ['ContentHash', 'Content', 'ClassicMerkleRoot'] as const) {
+    if (leaf[field]) {
+      record[field] = toBuffer(leaf[field]!);
+    }
+  }
+  if (leaf.stored_proofs) {
+    const storedProofs: Record<string, unknown> = {};
+    for (const [hash, branch] of Object.entries(leaf.stored_proofs)) {
+      storedProofs[hash] = wireBranch(branch);
+    }
+    record.stored_proofs = storedProofs;
+  }
+  return record;
+}
+
+function wireBranch(branch: ClassicTreeBranch): Record<string, unknown> {
+  return {
+    Leaf: branch.Leaf,
+    Proof: {
+      Siblings: branch.Proof.Siblings.map(toBuffer),
+      Path: branch.Proof.Path,
+      ...(branch.Proof.PathBits && { PathBits: toBuffer(branch.Proof.PathBits) }),
+    },
+  };
+}
+
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Normalize a Merkle proof branch so its siblings are Uint8Arrays
+ */
+function normalizeBranch(branch: any): ClassicTreeBranch {
+  if (!branch || typeof branch.Leaf !== 'string' || !branch.Proof) {
+    throw new ScionicError('Invalid Merkle proof branch');
+  }
+  return {
+    Leaf: branch.Leaf,
+    Proof: {
+      Siblings: (branch.Proof.Siblings || []).map(toUint8Array),
+      Path: branch.Proof.Path,
+      ...(branch.Proof.PathBits && { PathBits: toUint8Array(branch.Proof.PathBits) }),
+    },
+  };
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
 /**
  * Convert various byte representations to Uint8Array
  */
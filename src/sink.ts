@@ -0,0 +1,107 @@
+/**
+ * Leaf sinks for bounded-memory DAG building
+ * Finished leaves are handed to a sink as soon as they are produced
+ */
+
+import * as fs from 'fs';
+import { Dag, DagLeaf, ScionicError } from './types';
+import { encodeLeaf, decodeLeaf } from './serialize';
+
+/**
+ * Destination for leaves produced by createDagToSink
+ * Each distinct leaf is put exactly once; the root is always put last
+ */
+export interface LeafSink {
+  put(leaf: DagLeaf): void | Promise<void>;
+}
+
+/**
+ * Size of the big-endian length prefix before each leaf record
+ */
+const LENGTH_PREFIX_SIZE = 4;
+
+/**
+ * Sink that appends leaves to a file as length-prefixed CBOR records
+ */
+export class FileLeafSink implements LeafSink {
+  private fd: number | null;
+
+  constructor(filePath: string) {
+    this.fd = fs.openSync(filePath, 'w');
+  }
+
+  put(leaf: DagLeaf): void {
+    if (this.fd === null) {
+      throw new ScionicError('Leaf sink is closed');
+    }
+
+    const encoded = encodeLeaf(leaf);
+    const prefix = Buffer.alloc(LENGTH_PREFIX_SIZE);
+    prefix.writeUInt32BE(encoded.length, 0);
+
+    fs.writeSync(this.fd, prefix);
+    fs.writeSync(this.fd, encoded);
+  }
+
+  /**
+   * Flush and close the underlying file
+   */
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+/**
+ * Read leaves back from a file written by FileLeafSink, one at a time
+ */
+export function* readLeavesFromFile(filePath: string): Generator<DagLeaf> {
+  const fd = fs.openSync(filePath, 'r');
+  const prefix = Buffer.alloc(LENGTH_PREFIX_SIZE);
+  let position = 0;
+
+  try {
+    while (true) {
+      const prefixRead = fs.readSync(fd, prefix, 0, LENGTH_PREFIX_SIZE, position);
+      if (prefixRead === 0) {
+        return;
+      }
+      if (prefixRead < LENGTH_PREFIX_SIZE) {
+        throw new ScionicError(`Truncated leaf record at offset ${position}`);
+      }
+
+      const length = prefix.readUInt32BE(0);
+      const record = Buffer.alloc(length);
+      if (fs.readSync(fd, record, 0, length, position + LENGTH_PREFIX_SIZE) < length) {
+        throw new ScionicError(`Truncated leaf record at offset ${position}`);
+      }
+
+      position += LENGTH_PREFIX_SIZE + length;
+      yield decodeLeaf(record);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Load a complete DAG from a file written by FileLeafSink
+ * The last leaf in the file is the root
+ */
+export function loadDagFromLeafFile(filePath: string): Dag {
+  const leaves: Record<string, DagLeaf> = {};
+  let root: string | null = null;
+
+  for (const leaf of readLeavesFromFile(filePath)) {
+    leaves[leaf.Hash] = leaf;
+    root = leaf.Hash;
+  }
+
+  if (root === null) {
+    throw new ScionicError('Leaf file is empty');
+  }
+
+  return { Root: root, Leafs: leaves };
+}
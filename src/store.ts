@@ -0,0 +1,210 @@
+/**
+ * Leaf stores
+ * Content-addressed storage for DAG leaves, so DAGs need not fit in one in-memory record
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Dag, DagLeaf, ScionicError } from './types';
+import { encodeLeaf, decodeLeaf } from './serialize';
+import { LeafSink } from './sink';
+
+/**
+ * Storage for leaves keyed by CID
+ * A store is also a LeafSink, so createDagToSink can build directly into it
+ */
+export interface LeafStore extends LeafSink {
+  get(hash: string): Promise<DagLeaf | undefined>;
+  put(leaf: DagLeaf): Promise<void>;
+  has(hash: string): Promise<boolean>;
+  delete(hash: string): Promise<boolean>;
+  /** Iterate the CIDs of all stored leaves, in no particular order */
+  hashes(): AsyncIterable<string>;
+}
+
+/**
+ * A DAG whose leaves live in a LeafStore rather than in memory
+ */
+export interface StoredDag {
+  /** Root leaf hash */
+  Root: string;
+  /** Store holding the leaves */
+  Store: LeafStore;
+  /** Labels mapping (numeric labels to hashes) */
+  Labels?: Record<string, string>;
+}
+
+/**
+ * Store backed by a plain leaves record
+ * The record is used as-is, so wrapping dag.Leafs shares it with the DAG
+ */
+export class MemoryLeafStore implements LeafStore {
+  constructor(private readonly leaves: Record<string, DagLeaf> = {}) {}
+
+  async get(hash: string): Promise<DagLeaf | undefined> {
+    return this.hasLeaf(hash) ? this.leaves[hash] : undefined;
+  }
+
+  async put(leaf: DagLeaf): Promise<void> {
+    this.leaves[leaf.Hash] = leaf;
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return this.hasLeaf(hash);
+  }
+
+  async delete(hash: string): Promise<boolean> {
+    if (!this.hasLeaf(hash)) {
+      return false;
+    }
+    delete this.leaves[hash];
+    return true;
+  }
+
+  async *hashes(): AsyncIterable<string> {
+    for (const hash of Object.keys(this.leaves)) {
+      yield hash;
+    }
+  }
+
+  /**
+   * Own-property check, so names like "constructor" inherited by the record are not leaves
+   */
+  private hasLeaf(hash: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.leaves, hash);
+  }
+}
+
+/**
+ * Store that keeps each leaf as a CBOR file under a sharded directory tree
+ * Layout: <directory>/<shard>/<cid>
+ */
+export class FsLeafStore implements LeafStore {
+  private tempCounter = 0;
+
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async get(hash: string): Promise<DagLeaf | undefined> {
+    try {
+      return decodeLeaf(await fs.promises.readFile(this.leafPath(hash)));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async put(leaf: DagLeaf): Promise<void> {
+    const leafPath = this.leafPath(leaf.Hash);
+
+    // Leaves are content-addressed, so an existing file already holds this leaf
+    if (await this.has(leaf.Hash)) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(leafPath), { recursive: true });
+
+    // Write to a temporary name first so readers never see a partial leaf
+    const tempPath = `${leafPath}.tmp-${process.pid}-${this.tempCounter++}`;
+    await fs.promises.writeFile(tempPath, encodeLeaf(leaf));
+    await fs.promises.rename(tempPath, leafPath);
+  }
+
+  async has(hash: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.leafPath(hash));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(hash: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.leafPath(hash));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async *hashes(): AsyncIterable<string> {
+    for await (const shard of await fs.promises.opendir(this.directory)) {
+      if (!shard.isDirectory()) {
+        continue;
+      }
+
+      for await (const entry of await fs.promises.opendir(path.join(this.directory, shard.name))) {
+        // Skip temporary files left behind by interrupted writes
+        if (entry.isFile() && !entry.name.includes('.')) {
+          yield entry.name;
+        }
+      }
+    }
+  }
+
+  private leafPath(hash: string): string {
+    if (!/^[a-zA-Z0-9]+$/.test(hash) || hash.length < 3) {
+      throw new ScionicError(`Invalid leaf hash: ${hash}`);
+    }
+
+    // CIDs share a long common prefix and the final base32 character only
+    // carries a few bits, so shard on the two characters before it
+    return path.join(this.directory, hash.slice(-3, -1), hash);
+  }
+}
+
+/**
+ * Copy every leaf of an in-memory DAG into a store
+ */
+export async function storeDag(dag: Dag, store: LeafStore): Promise<StoredDag> {
+  for (const leaf of Object.values(dag.Leafs)) {
+    await store.put(leaf);
+  }
+
+  return { Root: dag.Root, Store: store };
+}
+
+/**
+ * Load every leaf of a stored DAG into memory
+ */
+export async function loadStoredDag(dag: StoredDag): Promise<Dag> {
+  const leaves: Record<string, DagLeaf> = {};
+
+  for await (const hash of dag.Store.hashes()) {
+    const leaf = await dag.Store.get(hash);
+    if (leaf) {
+      leaves[hash] = leaf;
+    }
+  }
+
+  if (!leaves[dag.Root]) {
+    throw new ScionicError('Root leaf not found in store');
+  }
+
+  const loaded: Dag = { Root: dag.Root, Leafs: leaves };
+  if (dag.Labels) {
+    loaded.Labels = { ...dag.Labels };
+  }
+  return loaded;
+}
+
+/**
+ * Wrap an in-memory DAG as a StoredDag without copying its leaves
+ */
+export function toStoredDag(dag: Dag): StoredDag {
+  return { Root: dag.Root, Store: new MemoryLeafStore(dag.Leafs), Labels: dag.Labels };
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
@@ -8,6 +8,8 @@ import {
   createDagFromStream,
   createDagFromBuffer,
 } from './streaming';
+import { CHUNK_SIZE_KEY, getChunkSize } from './chunking';
+import { verifyDag } from './dag';
 import { LeafType } from './types';
 
 describe('StreamingDagBuilder', () => {
@@ -21,7 +23,7 @@ describe('StreamingDagBuilder', () => {
     });
 
     it('should return different CIDs as chunks are added', async () => {
-      const builder = new StreamingDagBuilder('test.txt');
+      const builder = new StreamingDagBuilder('test.txt').withChunkSize(6);
 
       const cid1 = await builder.addChunk(Buffer.from('chunk1'));
       const cid2 = await builder.addChunk(Buffer.from('chunk2'));
@@ -35,11 +37,22 @@ describe('StreamingDagBuilder', () => {
       const builder = new StreamingDagBuilder('test.txt');
       await expect(builder.addChunk(Buffer.alloc(0))).rejects.toThrow('Empty chunk');
     });
+
+    it('should reject chunks larger than the chunk size', async () => {
+      const builder = new StreamingDagBuilder('test.txt').withChunkSize(4);
+      await expect(builder.addChunk(Buffer.from('too long'))).rejects.toThrow('exceeds chunk size');
+    });
+
+    it('should reject a chunk after a short chunk', async () => {
+      const builder = new StreamingDagBuilder('test.txt').withChunkSize(6);
+      await builder.addChunk(Buffer.from('short'));
+      await expect(builder.addChunk(Buffer.from('chunk2'))).rejects.toThrow('Only the final chunk');
+    });
   });
 
   describe('finalize', () => {
     it('should create a complete DAG with all chunks', async () => {
-      const builder = new StreamingDagBuilder('test.txt');
+      const builder = new StreamingDagBuilder('test.txt').withChunkSize(6);
 
       await builder.addChunk(Buffer.from('chunk1'));
       await builder.addChunk(Buffer.from('chunk2'));
@@ -56,9 +69,26 @@ describe('StreamingDagBuilder', () => {
       expect(rootLeaf.Links?.length).toBe(3);
     });
 
-    it('should throw error when no chunks added', async () => {
+    it('should create an empty file DAG when no chunks added', async () => {
       const builder = new StreamingDagBuilder('test.txt');
-      await expect(builder.finalize()).rejects.toThrow('No chunks to finalize');
+      const dag = await builder.finalize();
+
+      expect(Object.keys(dag.Leafs).length).toBe(1);
+      const rootLeaf = dag.Leafs[dag.Root];
+      expect(rootLeaf.Type).toBe(LeafType.File);
+      expect(rootLeaf.Content?.length).toBe(0);
+    });
+
+    it('should create a single file leaf for content within one chunk', async () => {
+      const builder = new StreamingDagBuilder('test.txt');
+      await builder.addChunk(Buffer.from('small file'));
+
+      const dag = await builder.finalize();
+
+      expect(Object.keys(dag.Leafs).length).toBe(1);
+      const rootLeaf = dag.Leafs[dag.Root];
+      expect(rootLeaf.Links).toBeUndefined();
+      expect(Buffer.from(rootLeaf.Content!).toString()).toBe('small file');
     });
   });
 
@@ -208,11 +238,33 @@ describe('StreamingDagBuilder', () => {
       expect(dag.Root).toBeTruthy();
       expect(cids.length).toBeGreaterThan(0);
     });
+
+    it('should honor chunkSize from config', async () => {
+      const data = Buffer.alloc(10000, 7);
+      const readable = Readable.from([data]);
+
+      const cids: string[] = [];
+      const dag = await createDagFromStream(readable, 'test.bin', (cid) => {
+        cids.push(cid);
+      }, { chunkSize: 4096 });
+
+      expect(cids.length).toBe(3);
+      expect(dag.Leafs[dag.Root].AdditionalData?.[CHUNK_SIZE_KEY]).toBe('4096');
+      expect(getChunkSize(dag)).toBe(4096);
+      await verifyDag(dag);
+    });
+
+    it('should reject an invalid chunkSize', async () => {
+      const readable = Readable.from([Buffer.from('data')]);
+      await expect(
+        createDagFromStream(readable, 'test.bin', () => {}, { chunkSize: -1 })
+      ).rejects.toThrow('Invalid chunk size');
+    });
   });
 
   describe('incremental CID updates', () => {
     it('should provide updated root CID after each chunk', async () => {
-      const builder = new StreamingDagBuilder('test.txt');
+      const builder = new StreamingDagBuilder('test.txt').withChunkSize(6);
 
       const cid1 = await builder.addChunk(Buffer.from('chunk1'));
       const cid2 = await builder.addChunk(Buffer.from('chunk2'));
@@ -236,7 +288,7 @@ describe('StreamingDagBuilder', () => {
 
   describe('chunk naming', () => {
     it('should name chunks with correct pattern', async () => {
-      const builder = new StreamingDagBuilder('test.txt');
+      const builder = new StreamingDagBuilder('test.txt').withChunkSize(6);
 
       await builder.addChunk(Buffer.from('chunk1'));
       await builder.addChunk(Buffer.from('chunk2'));
@@ -248,8 +300,8 @@ describe('StreamingDagBuilder', () => {
       );
 
       expect(chunks.length).toBe(2);
-      expect(chunks[0].ItemName).toBe('test.txt/0');
-      expect(chunks[1].ItemName).toBe('test.txt/1');
+      const names = chunks.map((chunk) => chunk.ItemName).sort();
+      expect(names).toEqual(['test.txt.chunk.0', 'test.txt.chunk.1']);
     });
   });
 });
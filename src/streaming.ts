@@ -5,17 +5,21 @@
 
 import { Readable } from 'stream';
 import { DagLeafBuilder } from './leaf';
-import { Dag, DagLeaf, LeafType, ScionicError, DEFAULT_CHUNK_SIZE } from './types';
+import { finalizeDag } from './dag';
+import { Dag, DagLeaf, LeafType, ScionicError, DEFAULT_CHUNK_SIZE, DagBuilderConfig } from './types';
+import { validateChunkSize, resolveChunkSize, recordChunkSize, chunkItemName } from './chunking';
 
 /**
  * Streaming DAG builder for processing large files in chunks
  * Provides intermediate root CIDs after each chunk is added
+ *
+ * Chunks follow the canonical scheme in ./chunking, so streaming a file
+ * produces exactly the DAG createDag builds for the same bytes
  */
 export class StreamingDagBuilder {
   private fileName: string;
   private chunkSize: number;
   private chunks: DagLeaf[] = [];
-  private chunkCount: number = 0;
 
   constructor(fileName: string) {
     this.fileName = fileName;
@@ -26,156 +30,88 @@ export class StreamingDagBuilder {
    * Set custom chunk size
    */
   withChunkSize(size: number): this {
-    this.chunkSize = size;
+    if (this.chunks.length > 0) {
+      throw new ScionicError('Cannot change chunk size after chunks were added');
+    }
+    this.chunkSize = validateChunkSize(size);
     return this;
   }
 
   /**
    * Process a chunk of data and return the current root CID
    * This allows tracking progress as chunks are added
+   * Every chunk except the last must be exactly the chunk size, matching the
+   * boundaries createDag uses for the same content
    */
   async addChunk(data: Uint8Array): Promise<string> {
     if (data.length === 0) {
       throw new ScionicError('Empty chunk');
     }
 
+    if (data.length > this.chunkSize) {
+      throw new ScionicError(`Chunk of ${data.length} bytes exceeds chunk size ${this.chunkSize}`);
+    }
+
+    const previous = this.chunks[this.chunks.length - 1];
+    if (previous && previous.Content!.length < this.chunkSize) {
+      throw new ScionicError('Only the final chunk may be smaller than the chunk size');
+    }
+
     // Create chunk leaf
-    const chunkName = `${this.fileName}/${this.chunkCount}`;
-    const chunkLeaf = await new DagLeafBuilder(chunkName)
+    const chunkLeaf = await new DagLeafBuilder(chunkItemName(this.fileName, this.chunks.length))
       .setType(LeafType.Chunk)
       .setData(data)
       .buildLeaf();
 
     this.chunks.push(chunkLeaf);
-    this.chunkCount++;
 
     // Build current root
-    return await this.buildCurrentRoot();
+    const fileLeaf = await this.buildFileLeaf();
+    return fileLeaf.Hash;
   }
 
   /**
-   * Build the current root CID with all chunks so far
+   * Build the file leaf for the chunks added so far
+   * Content that fits in a single chunk becomes a plain file leaf, as in createDag
    */
-  private async buildCurrentRoot(): Promise<string> {
-    if (this.chunks.length === 0) {
-      throw new ScionicError('No chunks yet');
-    }
+  private async buildFileLeaf(): Promise<DagLeaf> {
+    const builder = new DagLeafBuilder(this.fileName).setType(LeafType.File);
 
-    // Build parent file leaf
-    let leafBuilder = new DagLeafBuilder(this.fileName)
-      .setType(LeafType.File);
-
-    for (const chunk of this.chunks) {
-      leafBuilder = leafBuilder.addLink(chunk.Hash);
+    if (this.chunks.length === 0) {
+      builder.setData(Buffer.alloc(0));
+    } else if (this.chunks.length === 1) {
+      builder.setData(this.chunks[0].Content!).setContentHash(this.chunks[0].ContentHash!);
+    } else {
+      for (const chunk of this.chunks) {
+        builder.addLink(chunk.Hash);
+      }
     }
 
-    const parent = await leafBuilder.buildLeaf();
-    return parent.Hash;
+    return await builder.buildLeaf();
   }
 
   /**
    * Finalize and return the complete DAG
+   * A builder with no chunks produces the DAG of an empty file
    */
   async finalize(): Promise<Dag> {
-    if (this.chunks.length === 0) {
-      throw new ScionicError('No chunks to finalize');
-    }
-
     const leaves: Record<string, DagLeaf> = {};
 
     // Add all chunk leaves
-    for (const chunk of this.chunks) {
-      leaves[chunk.Hash] = chunk;
-    }
-
-    // Build root file leaf
-    let rootBuilder = new DagLeafBuilder(this.fileName)
-      .setType(LeafType.File);
-
-    for (const chunk of this.chunks) {
-      rootBuilder = rootBuilder.addLink(chunk.Hash);
+    if (this.chunks.length > 1) {
+      for (const chunk of this.chunks) {
+        leaves[chunk.Hash] = chunk;
+      }
     }
 
-    // Calculate statistics
-    const leafCount = this.chunks.length + 1; // chunks + root
-    let contentSize = 0;
-    let childrenDagSize = 0;
+    const fileLeaf = await this.buildFileLeaf();
+    leaves[fileLeaf.Hash] = fileLeaf;
 
-    // Calculate content size and children DAG size
-    for (const chunk of this.chunks) {
-      if (chunk.Content) {
-        contentSize += chunk.Content.length;
-      }
+    // Record a custom chunk size so the DAG can be rebuilt reproducibly
+    const additionalData: Record<string, string> = {};
+    recordChunkSize(additionalData, this.chunkSize);
 
-      // Calculate CBOR size for each chunk
-      const cbor = require('cbor');
-      const sortedLinks = chunk.Links ? [...chunk.Links].sort() : [];
-      const sortedAdditionalData = chunk.AdditionalData && Object.keys(chunk.AdditionalData).length > 0
-        ? Object.entries(chunk.AdditionalData).sort((a, b) => a[0].localeCompare(b[0])).reduce((acc, [k, v]) => { acc[k] = v; return acc; }, {} as Record<string, string>)
-        : {};
-
-      const leafForSize = {
-        Hash: chunk.Hash,
-        ItemName: chunk.ItemName,
-        Type: chunk.Type,
-        ContentHash: chunk.ContentHash ? Buffer.from(chunk.ContentHash) : null,
-        Content: chunk.Content ? Buffer.from(chunk.Content) : null,
-        ClassicMerkleRoot: chunk.ClassicMerkleRoot ? Buffer.from(chunk.ClassicMerkleRoot) : Buffer.alloc(0),
-        CurrentLinkCount: chunk.CurrentLinkCount,
-        LeafCount: chunk.LeafCount || 0,
-        ContentSize: chunk.ContentSize || 0,
-        DagSize: chunk.DagSize || 0,
-        Links: sortedLinks,
-        AdditionalData: sortedAdditionalData,
-      };
-      childrenDagSize += cbor.encode(leafForSize).length;
-    }
-
-    // Build temp root to calculate its size
-    const tempRoot = await rootBuilder.buildRootLeaf(
-      undefined,
-      leafCount,
-      contentSize,
-      0 // temporary DagSize
-    );
-
-    // Calculate root CBOR size
-    const cbor = require('cbor');
-    const sortedAdditionalData = tempRoot.AdditionalData && Object.keys(tempRoot.AdditionalData).length > 0
-      ? Object.entries(tempRoot.AdditionalData).sort((a, b) => a[0].localeCompare(b[0])).map(([k, v]) => ({ Key: k, Value: v }))
-      : [];
-
-    const tempRootForSize = {
-      ItemName: tempRoot.ItemName,
-      Type: tempRoot.Type,
-      MerkleRoot: tempRoot.ClassicMerkleRoot ? Buffer.from(tempRoot.ClassicMerkleRoot) : Buffer.alloc(0),
-      CurrentLinkCount: tempRoot.CurrentLinkCount,
-      LeafCount: tempRoot.LeafCount,
-      ContentSize: tempRoot.ContentSize,
-      DagSize: 0,
-      ContentHash: tempRoot.ContentHash ? Buffer.from(tempRoot.ContentHash) : null,
-      AdditionalData: sortedAdditionalData,
-    };
-    const rootLeafSize = cbor.encode(tempRootForSize).length;
-
-    // Final DagSize
-    const dagSize = childrenDagSize + rootLeafSize;
-
-    // Create final root with correct DagSize
-    const root = await rootBuilder.buildRootLeaf(
-      undefined,
-      leafCount,
-      contentSize,
-      dagSize
-    );
-    const rootHash = root.Hash;
-
-    leaves[rootHash] = root;
-
-    return {
-      Root: rootHash,
-      Leafs: leaves,
-    };
+    return await finalizeDag(fileLeaf, leaves, additionalData);
   }
 
   /**
@@ -185,58 +121,39 @@ export class StreamingDagBuilder {
     readable: Readable,
     callback: (cid: string) => void
   ): Promise<Dag> {
-    return new Promise((resolve, reject) => {
-      const buffer: Buffer[] = [];
-      let bufferSize = 0;
-
-      readable.on('data', async (chunk: Buffer) => {
-        buffer.push(chunk);
-        bufferSize += chunk.length;
-
-        // Process full chunks
-        while (bufferSize >= this.chunkSize) {
-          const chunkData = Buffer.concat(buffer);
-          const toProcess = chunkData.slice(0, this.chunkSize);
-          const remaining = chunkData.slice(this.chunkSize);
-
-          // Clear buffer and add remaining
-          buffer.length = 0;
-          if (remaining.length > 0) {
-            buffer.push(remaining);
-          }
-          bufferSize = remaining.length;
-
-          try {
-            const cid = await this.addChunk(toProcess);
-            callback(cid);
-          } catch (err) {
-            readable.destroy();
-            reject(err);
-            return;
-          }
-        }
-      });
-
-      readable.on('end', async () => {
-        try {
-          // Process remaining data as final chunk
-          if (bufferSize > 0) {
-            const finalChunk = Buffer.concat(buffer);
-            const cid = await this.addChunk(finalChunk);
-            callback(cid);
-          }
-
-          const dag = await this.finalize();
-          resolve(dag);
-        } catch (err) {
-          reject(err);
+    const buffer: Buffer[] = [];
+    let bufferSize = 0;
+
+    // Async iteration pulls one piece at a time, so chunks are added in order
+    // and the stream is paused while a chunk is being hashed
+    for await (const piece of readable) {
+      const data: Buffer = Buffer.isBuffer(piece) ? piece : Buffer.from(piece);
+      buffer.push(data);
+      bufferSize += data.length;
+
+      // Process full chunks
+      while (bufferSize >= this.chunkSize) {
+        const chunkData = Buffer.concat(buffer);
+        const toProcess = chunkData.subarray(0, this.chunkSize);
+        const remaining = chunkData.subarray(this.chunkSize);
+
+        // Clear buffer and add remaining
+        buffer.length = 0;
+        if (remaining.length > 0) {
+          buffer.push(remaining);
         }
-      });
+        bufferSize = remaining.length;
 
-      readable.on('error', (err) => {
-        reject(err);
-      });
-    });
+        callback(await this.addChunk(toProcess));
+      }
+    }
+
+    // Process remaining data as final chunk
+    if (bufferSize > 0) {
+      callback(await this.addChunk(Buffer.concat(buffer)));
+    }
+
+    return await this.finalize();
   }
 
   /**
@@ -250,7 +167,7 @@ export class StreamingDagBuilder {
 
     while (offset < buffer.length) {
       const chunkSize = Math.min(this.chunkSize, buffer.length - offset);
-      const chunk = buffer.slice(offset, offset + chunkSize);
+      const chunk = buffer.subarray(offset, offset + chunkSize);
 
       const cid = await this.addChunk(chunk);
       callback(cid);
@@ -268,9 +185,10 @@ export class StreamingDagBuilder {
 export async function createDagFromStream(
   readable: Readable,
   fileName: string,
-  callback: (cid: string) => void
+  callback: (cid: string) => void,
+  config?: DagBuilderConfig
 ): Promise<Dag> {
-  const builder = new StreamingDagBuilder(fileName);
+  const builder = new StreamingDagBuilder(fileName).withChunkSize(resolveChunkSize(config));
   return await builder.streamFromReadable(readable, callback);
 }
 
@@ -280,8 +198,9 @@ export async function createDagFromStream(
 export async function createDagFromBuffer(
   buffer: Buffer,
   fileName: string,
-  callback: (cid: string) => void
+  callback: (cid: string) => void,
+  config?: DagBuilderConfig
 ): Promise<Dag> {
-  const builder = new StreamingDagBuilder(fileName);
+  const builder = new StreamingDagBuilder(fileName).withChunkSize(resolveChunkSize(config));
   return await builder.streamFromBuffer(buffer, callback);
 }
@@ -3,15 +3,36 @@
  * Enables leaf-by-leaf transmission with Merkle proofs
  */
 
-import { Dag, DagLeaf, TransmissionPacket, ScionicError, ClassicTreeBranch } from './types';
+import {
+  Dag,
+  DagLeaf,
+  TransmissionPacket,
+  BatchTransmissionPacket,
+  ScionicError,
+  ClassicTreeBranch,
+} from './types';
 import { MerkleTree } from './merkleTree';
-import { createHash } from 'crypto';
+import { StoredDag, toStoredDag } from './store';
+import { DagIndex } from './dagIndex';
+import { verifyDag, verifyLeafIntegrity } from './dag';
+import { hashLink, cloneLeaf } from './leaf';
+import { Readable } from 'stream';
 
 /**
  * Get transmission sequence in BFS order
  * Each packet contains a leaf, parent reference, and Merkle proofs
  */
 export function getLeafSequence(dag: Dag): TransmissionPacket[] {
+  return getLeafSequenceFor(dag, []);
+}
+
+/**
+ * Get the transmission sequence for a receiver that already holds some leaves
+ * Leaves the receiver has are skipped but still walked, so every packet's
+ * parent is either held by the receiver or sent earlier in the sequence
+ */
+export function getLeafSequenceFor(dag: Dag, have: Iterable<string> | Dag): TransmissionPacket[] {
+  const held = new Set(typeof have === 'object' && have !== null && 'Leafs' in have ? Object.keys(have.Leafs) : have);
   const sequence: TransmissionPacket[] = [];
   const visited = new Set<string>();
 
@@ -21,12 +42,13 @@ export function getLeafSequence(dag: Dag): TransmissionPacket[] {
   }
 
   // Create root packet
-  const rootPacket: TransmissionPacket = {
-    Leaf: cloneLeaf(rootLeaf),
-    ParentHash: '',
-    proofs: {},
-  };
-  sequence.push(rootPacket);
+  if (!held.has(dag.Root)) {
+    sequence.push({
+      Leaf: cloneLeaf(rootLeaf),
+      ParentHash: '',
+      proofs: {},
+    });
+  }
   visited.add(dag.Root);
 
   // BFS traversal to ensure parent comes before children
@@ -43,11 +65,8 @@ export function getLeafSequence(dag: Dag): TransmissionPacket[] {
     // Sort links for deterministic order
     const sortedLinks = [...currentLeaf.Links].sort();
 
-    // Build Merkle proof for children if parent has multiple links
-    let childProofs: Record<string, ClassicTreeBranch> = {};
-    if (currentLeaf.Links.length > 1 && currentLeaf.ClassicMerkleRoot) {
-      childProofs = buildChildProofs(currentLeaf, dag);
-    }
+    // Build Merkle proofs lazily, only if a child of this parent is sent
+    let childProofs: Record<string, ClassicTreeBranch> | undefined;
 
     // Process each child
     for (const childHash of sortedLinks) {
@@ -60,6 +79,18 @@ export function getLeafSequence(dag: Dag): TransmissionPacket[] {
         continue;
       }
 
+      visited.add(childHash);
+      queue.push(childHash);
+      if (held.has(childHash)) {
+        continue;
+      }
+
+      // Build Merkle proof for children if parent has multiple links
+      if (!childProofs) {
+        childProofs =
+          currentLeaf.Links.length > 1 && currentLeaf.ClassicMerkleRoot ? buildChildProofs(currentLeaf) : {};
+      }
+
       const packet: TransmissionPacket = {
         Leaf: cloneLeaf(childLeaf),
         ParentHash: current,
@@ -72,18 +103,193 @@ export function getLeafSequence(dag: Dag): TransmissionPacket[] {
       }
 
       sequence.push(packet);
-      visited.add(childHash);
-      queue.push(childHash);
     }
   }
 
   return sequence;
 }
 
+/**
+ * Get transmission sequence in BFS order for a DAG held in a LeafStore
+ * Packets are produced lazily, so only the BFS frontier is kept in memory
+ */
+export function getStoredLeafSequence(dag: StoredDag): AsyncGenerator<TransmissionPacket> {
+  return streamLeafSequence(dag);
+}
+
+/**
+ * Order in which streamLeafSequence visits leaves
+ * - bfs: breadth-first with sorted links, the same order as getLeafSequence
+ * - dfs: depth-first with sorted links
+ * - labels: depth-first in link order, which is label order; requires labels
+ */
+export type LeafSequenceOrder = 'bfs' | 'dfs' | 'labels';
+
+export interface LeafSequenceOptions {
+  order?: LeafSequenceOrder;
+}
+
+/**
+ * Stream transmission packets without building the whole sequence up front
+ * Each packet is created when it is requested, and in every order a parent
+ * is sent before its children
+ */
+export async function* streamLeafSequence(
+  dag: Dag | StoredDag,
+  options: LeafSequenceOptions = {}
+): AsyncGenerator<TransmissionPacket> {
+  const stored = 'Store' in dag ? dag : toStoredDag(dag);
+  const order = options.order || 'bfs';
+
+  if (order === 'labels' && !stored.Labels) {
+    throw new ScionicError('DAG has no labels; calculate labels before streaming in label order');
+  }
+
+  const rootLeaf = await stored.Store.get(stored.Root);
+  if (!rootLeaf) {
+    return;
+  }
+
+  yield {
+    Leaf: cloneLeaf(rootLeaf),
+    ParentHash: '',
+    proofs: {},
+  };
+
+  if (order === 'bfs') {
+    yield* streamBreadthFirst(stored, rootLeaf);
+  } else {
+    yield* streamDepthFirst(stored, rootLeaf, order === 'labels');
+  }
+}
+
+/**
+ * Stream transmission packets as a Node Readable in object mode
+ * Packets are only produced as the consumer reads them, so piping into a slow
+ * socket applies backpressure all the way to the leaf store
+ */
+export function createLeafSequenceReadable(
+  dag: Dag | StoredDag,
+  options: LeafSequenceOptions = {}
+): Readable {
+  return Readable.from(streamLeafSequence(dag, options), { objectMode: true });
+}
+
+async function* streamBreadthFirst(dag: StoredDag, rootLeaf: DagLeaf): AsyncGenerator<TransmissionPacket> {
+  const visited = new Set<string>([dag.Root]);
+  const queue: DagLeaf[] = [rootLeaf];
+
+  while (queue.length > 0) {
+    const currentLeaf = queue.shift()!;
+
+    if (!currentLeaf.Links || currentLeaf.Links.length === 0) {
+      continue;
+    }
+
+    const childProofs = buildChildProofs(currentLeaf);
+
+    for (const childHash of [...currentLeaf.Links].sort()) {
+      if (visited.has(childHash)) {
+        continue;
+      }
+
+      const childLeaf = await dag.Store.get(childHash);
+      if (!childLeaf) {
+        continue;
+      }
+      visited.add(childHash);
+
+      // Only leaves with children need to wait in the queue
+      if (childLeaf.Links && childLeaf.Links.length > 0) {
+        queue.push(childLeaf);
+      }
+
+      yield createChildPacket(currentLeaf, childLeaf, childProofs);
+    }
+  }
+}
+
+/**
+ * Depth-first pre-order walk with an explicit stack, so deep DAGs cannot overflow the call stack
+ * In link order this visits leaves exactly as calculateLabels numbers them
+ */
+async function* streamDepthFirst(
+  dag: StoredDag,
+  rootLeaf: DagLeaf,
+  labelOrder: boolean
+): AsyncGenerator<TransmissionPacket> {
+  interface Frame {
+    leaf: DagLeaf;
+    links: string[];
+    next: number;
+    proofs?: Record<string, ClassicTreeBranch>;
+  }
+
+  const visited = new Set<string>([dag.Root]);
+  const stack: Frame[] = [];
+  let label = 1;
+
+  const push = (leaf: DagLeaf) => {
+    if (leaf.Links && leaf.Links.length > 0) {
+      stack.push({ leaf, links: labelOrder ? leaf.Links : [...leaf.Links].sort(), next: 0 });
+    }
+  };
+  push(rootLeaf);
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    if (frame.next >= frame.links.length) {
+      stack.pop();
+      continue;
+    }
+
+    const childHash = frame.links[frame.next++];
+    if (visited.has(childHash)) {
+      continue;
+    }
+    visited.add(childHash);
+
+    if (labelOrder) {
+      const expected = dag.Labels![label.toString()];
+      if (expected !== childHash) {
+        throw new ScionicError(`Labels are out of date: label ${label} is ${expected}, expected ${childHash}`);
+      }
+      label++;
+    }
+
+    const childLeaf = await dag.Store.get(childHash);
+    if (!childLeaf) {
+      continue;
+    }
+
+    frame.proofs = frame.proofs || buildChildProofs(frame.leaf);
+    yield createChildPacket(frame.leaf, childLeaf, frame.proofs);
+    push(childLeaf);
+  }
+}
+
+function createChildPacket(
+  parent: DagLeaf,
+  child: DagLeaf,
+  childProofs: Record<string, ClassicTreeBranch>
+): TransmissionPacket {
+  const packet: TransmissionPacket = {
+    Leaf: cloneLeaf(child),
+    ParentHash: parent.Hash,
+    proofs: {},
+  };
+
+  if (childProofs[child.Hash]) {
+    packet.proofs![child.Hash] = childProofs[child.Hash];
+  }
+
+  return packet;
+}
+
 /**
  * Build Merkle proofs for all children of a parent leaf
  */
-function buildChildProofs(parent: DagLeaf, dag: Dag): Record<string, ClassicTreeBranch> {
+function buildChildProofs(parent: DagLeaf): Record<string, ClassicTreeBranch> {
   const proofs: Record<string, ClassicTreeBranch> = {};
 
   if (!parent.Links || parent.Links.length <= 1 || !parent.ClassicMerkleRoot) {
@@ -92,12 +298,7 @@ function buildChildProofs(parent: DagLeaf, dag: Dag): Record<string, ClassicTree
 
   try {
     // Build Merkle tree from child hashes
-    const hashedLeaves = parent.Links.map((link) => {
-      const linkBytes = Buffer.from(link, 'utf-8');
-      return new Uint8Array(createHash('sha256').update(linkBytes).digest());
-    });
-
-    const tree = new MerkleTree(hashedLeaves);
+    const tree = new MerkleTree(parent.Links.map(hashLink));
 
     // Generate proof for each child
     for (let i = 0; i < parent.Links.length; i++) {
@@ -118,71 +319,98 @@ function buildChildProofs(parent: DagLeaf, dag: Dag): Record<string, ClassicTree
 }
 
 /**
- * Clone a leaf (deep copy)
+ * Verify a transmission packet before it is applied
+ * Every leaf must hash to its CID and match its own links and content. The
+ * root must be the receiver's expected root, and every other leaf must be
+ * proven to be a child of a parent the receiver already holds
  */
-function cloneLeaf(leaf: DagLeaf): DagLeaf {
-  const clone: DagLeaf = {
-    Hash: leaf.Hash,
-    ItemName: leaf.ItemName,
-    Type: leaf.Type,
-    CurrentLinkCount: leaf.CurrentLinkCount,
-  };
+export async function verifyTransmissionPacket(dag: Dag, packet: TransmissionPacket): Promise<void> {
+  const leaf = packet.Leaf;
+  if (!leaf || !leaf.Hash) {
+    throw new ScionicError('Transmission packet has no leaf');
+  }
 
-  if (leaf.ContentHash) clone.ContentHash = new Uint8Array(leaf.ContentHash);
-  if (leaf.Content) clone.Content = new Uint8Array(leaf.Content);
-  if (leaf.ClassicMerkleRoot) clone.ClassicMerkleRoot = new Uint8Array(leaf.ClassicMerkleRoot);
-  if (leaf.LeafCount !== undefined) clone.LeafCount = leaf.LeafCount;
-  if (leaf.ContentSize !== undefined) clone.ContentSize = leaf.ContentSize;
-  if (leaf.DagSize !== undefined) clone.DagSize = leaf.DagSize;
-  if (leaf.Links) clone.Links = [...leaf.Links];
-  if (leaf.ParentHash) clone.ParentHash = leaf.ParentHash;
-  if (leaf.AdditionalData) clone.AdditionalData = { ...leaf.AdditionalData };
-  if (leaf.stored_proofs) {
-    clone.stored_proofs = {};
-    for (const [k, v] of Object.entries(leaf.stored_proofs)) {
-      clone.stored_proofs[k] = { ...v };
+  if (packet.ParentHash === '') {
+    if (dag.Root && leaf.Hash !== dag.Root) {
+      throw new ScionicError(`Root leaf ${leaf.Hash} does not match expected root ${dag.Root}`);
     }
+
+    verifyRootPacketStatistics(leaf);
+    await verifyLeafIntegrity(leaf, true);
+    return;
   }
 
-  return clone;
+  // Child leaf - the parent must already have been verified and applied
+  const parent = dag.Leafs[packet.ParentHash];
+  if (!parent) {
+    throw new ScionicError(`Parent ${packet.ParentHash} not found in DAG`);
+  }
+
+  await verifyLeafIntegrity(leaf, false);
+  verifyChildOfParent(parent, leaf.Hash, packet.proofs);
 }
 
 /**
- * Verify a transmission packet
+ * Check that root statistics are well formed and consistent with the root itself
+ * The statistics are covered by the root CID, so this guards the expected-root-less case
  */
-export async function verifyTransmissionPacket(dag: Dag, packet: TransmissionPacket): Promise<void> {
-  // For now, do basic verification
-  // Full verification would require implementing VerifyLeaf and VerifyRootLeaf
+function verifyRootPacketStatistics(leaf: DagLeaf): void {
+  const statistics: Array<[string, number | undefined]> = [
+    ['LeafCount', leaf.LeafCount],
+    ['ContentSize', leaf.ContentSize],
+    ['DagSize', leaf.DagSize],
+  ];
+  for (const [name, value] of statistics) {
+    if (value === undefined || !Number.isSafeInteger(value) || value < 0) {
+      throw new ScionicError(`Root leaf has invalid ${name}: ${value}`);
+    }
+  }
 
-  if (packet.ParentHash === '') {
-    // Root leaf - just verify it has required fields
-    if (!packet.Leaf.Hash || !packet.Leaf.ItemName) {
-      throw new ScionicError('Invalid root leaf in transmission packet');
+  if (leaf.CurrentLinkCount === 0) {
+    // A root without children is the whole DAG
+    if (leaf.LeafCount !== 1) {
+      throw new ScionicError(`Root leaf without links must have LeafCount 1, has ${leaf.LeafCount}`);
     }
-  } else {
-    // Child leaf - verify parent exists and has the link
-    const parent = dag.Leafs[packet.ParentHash];
-    if (!parent) {
-      throw new ScionicError(`Parent ${packet.ParentHash} not found in DAG`);
+    const contentLength = leaf.Content?.length || 0;
+    if (leaf.ContentSize !== contentLength) {
+      throw new ScionicError(`Root ContentSize ${leaf.ContentSize} does not match its ${contentLength} content bytes`);
     }
+  } else if (leaf.LeafCount! < 2) {
+    throw new ScionicError(`Root leaf with links must have LeafCount of at least 2, has ${leaf.LeafCount}`);
+  }
+}
 
-    // If parent has multiple links, we need a Merkle proof
-    if (parent.Links && parent.Links.length > 1) {
-      if (!packet.proofs || !packet.proofs[packet.Leaf.Hash]) {
-        throw new ScionicError(`Missing Merkle proof for leaf ${packet.Leaf.Hash}`);
-      }
+/**
+ * Check that childHash is committed to by the parent's Classic Merkle root
+ */
+function verifyChildOfParent(
+  parent: DagLeaf,
+  childHash: string,
+  proofs: Record<string, ClassicTreeBranch> | undefined
+): void {
+  if (parent.CurrentLinkCount === 0 || !parent.ClassicMerkleRoot || parent.ClassicMerkleRoot.length === 0) {
+    throw new ScionicError(`Parent ${parent.Hash} has no children to verify ${childHash} against`);
+  }
 
-      if (parent.ClassicMerkleRoot && packet.proofs && packet.proofs[packet.Leaf.Hash]) {
-        const proof = packet.proofs[packet.Leaf.Hash].Proof;
-        const leafBytes = Buffer.from(packet.Leaf.Hash, 'utf-8');
-        const leafHash = new Uint8Array(createHash('sha256').update(leafBytes).digest());
+  const leafHash = hashLink(childHash);
 
-        const isValid = MerkleTree.verify(leafHash, proof, parent.ClassicMerkleRoot);
-        if (!isValid) {
-          throw new ScionicError(`Invalid Merkle proof for leaf ${packet.Leaf.Hash}`);
-        }
-      }
+  // A single child is committed to directly by the parent's root
+  if (parent.CurrentLinkCount === 1) {
+    if (!MerkleTree.verify(leafHash, { Siblings: [], Path: 0 }, parent.ClassicMerkleRoot)) {
+      throw new ScionicError(`Leaf ${childHash} is not a child of ${parent.Hash}`);
     }
+    return;
+  }
+
+  const branch = proofs?.[childHash];
+  if (!branch) {
+    throw new ScionicError(`Missing Merkle proof for leaf ${childHash}`);
+  }
+  if (branch.Leaf !== childHash) {
+    throw new ScionicError(`Merkle proof for leaf ${childHash} is for ${branch.Leaf}`);
+  }
+  if (!MerkleTree.verify(leafHash, branch.Proof, parent.ClassicMerkleRoot, parent.CurrentLinkCount)) {
+    throw new ScionicError(`Invalid Merkle proof for leaf ${childHash}`);
   }
 }
 
@@ -209,17 +437,25 @@ export function applyTransmissionPacket(dag: Dag, packet: TransmissionPacket): v
   }
 
   // Apply proofs to parent leaves
+  // A packet's proofs are normally for its own leaf, whose parent is known;
+  // the DAG is only indexed when a proof is for some other leaf
   if (packet.proofs) {
+    let index: DagIndex | undefined;
     for (const [leafHash, branch] of Object.entries(packet.proofs)) {
-      // Find parent and store proof
-      for (const leaf of Object.values(dag.Leafs)) {
-        if (leaf.Links && leaf.Links.includes(leafHash)) {
-          if (!leaf.stored_proofs) {
-            leaf.stored_proofs = {};
-          }
-          leaf.stored_proofs[leafHash] = branch;
-          break;
+      let parent = leafHash === packet.Leaf.Hash ? dag.Leafs[packet.ParentHash] : undefined;
+      if (!parent?.Links?.includes(leafHash)) {
+        if (!index) {
+          index = DagIndex.fromDag(dag);
+        }
+        const parentHash = index.getParent(leafHash);
+        parent = parentHash === undefined ? undefined : dag.Leafs[parentHash];
+      }
+
+      if (parent) {
+        if (!parent.stored_proofs) {
+          parent.stored_proofs = {};
         }
+        parent.stored_proofs[leafHash] = branch;
       }
     }
   }
@@ -235,3 +471,294 @@ export async function applyAndVerifyTransmissionPacket(
   await verifyTransmissionPacket(dag, packet);
   applyTransmissionPacket(dag, packet);
 }
+
+/**
+ * Largest number of leaves getBatchLeafSequence puts in one batch
+ */
+export const DEFAULT_BATCH_SIZE = 256;
+
+/**
+ * Get the transmission sequence as batches of sibling leaves in BFS order
+ * The first batch carries only the root; every other batch holds up to
+ * maxBatchSize children of one parent with a single multiproof
+ */
+export function getBatchLeafSequence(
+  dag: Dag,
+  maxBatchSize: number = DEFAULT_BATCH_SIZE
+): BatchTransmissionPacket[] {
+  if (!Number.isSafeInteger(maxBatchSize) || maxBatchSize < 1) {
+    throw new ScionicError(`Invalid batch size: ${maxBatchSize}`);
+  }
+
+  const rootLeaf = dag.Leafs[dag.Root];
+  if (!rootLeaf) {
+    return [];
+  }
+
+  const sequence: BatchTransmissionPacket[] = [
+    { ParentHash: '', Leaves: [cloneLeaf(rootLeaf)], Indices: [], Proof: { LeafCount: 0, Siblings: [] } },
+  ];
+  const visited = new Set<string>([dag.Root]);
+  const queue: string[] = [dag.Root];
+
+  while (queue.length > 0) {
+    const parent = dag.Leafs[queue.shift()!];
+    const links = parent.Links || [];
+
+    // First position of each child not sent yet, in link order
+    const indices: number[] = [];
+    links.forEach((link, index) => {
+      if (!visited.has(link) && dag.Leafs[link]) {
+        visited.add(link);
+        queue.push(link);
+        indices.push(index);
+      }
+    });
+    if (indices.length === 0) {
+      continue;
+    }
+
+    const tree = new MerkleTree(links.map(hashLink));
+    for (let start = 0; start < indices.length; start += maxBatchSize) {
+      const batchIndices = indices.slice(start, start + maxBatchSize);
+      sequence.push({
+        ParentHash: parent.Hash,
+        Leaves: batchIndices.map((index) => cloneLeaf(dag.Leafs[links[index]])),
+        Indices: batchIndices,
+        Proof: tree.getMultiProof(batchIndices),
+      });
+    }
+  }
+
+  return sequence;
+}
+
+/**
+ * Verify a batch packet before it is applied
+ * Each leaf is checked as in verifyTransmissionPacket, and the multiproof
+ * must place every leaf at its index under the parent's Classic Merkle root
+ */
+export async function verifyBatchPacket(dag: Dag, batch: BatchTransmissionPacket): Promise<void> {
+  if (batch.ParentHash === '') {
+    if (batch.Leaves.length !== 1) {
+      throw new ScionicError(`Root batch must carry only the root leaf, has ${batch.Leaves.length} leaves`);
+    }
+    await verifyTransmissionPacket(dag, { Leaf: batch.Leaves[0], ParentHash: '', proofs: {} });
+    return;
+  }
+
+  const parent = dag.Leafs[batch.ParentHash];
+  if (!parent) {
+    throw new ScionicError(`Parent ${batch.ParentHash} not found in DAG`);
+  }
+  if (batch.Leaves.length === 0 || batch.Leaves.length !== batch.Indices.length) {
+    throw new ScionicError(
+      `Batch under ${batch.ParentHash} has ${batch.Leaves.length} leaves and ${batch.Indices.length} indices`
+    );
+  }
+  if (parent.CurrentLinkCount === 0 || !parent.ClassicMerkleRoot || parent.ClassicMerkleRoot.length === 0) {
+    throw new ScionicError(`Parent ${parent.Hash} has no children to verify the batch against`);
+  }
+  if (batch.Proof.LeafCount !== parent.CurrentLinkCount) {
+    throw new ScionicError(
+      `Multiproof covers ${batch.Proof.LeafCount} links but parent ${parent.Hash} has ${parent.CurrentLinkCount}`
+    );
+  }
+
+  for (const leaf of batch.Leaves) {
+    await verifyLeafIntegrity(leaf, false);
+  }
+
+  const hashedLeaves = batch.Leaves.map((leaf) => hashLink(leaf.Hash));
+  if (!MerkleTree.verifyMulti(hashedLeaves, batch.Indices, batch.Proof, parent.ClassicMerkleRoot)) {
+    throw new ScionicError(`Invalid Merkle multiproof for batch under ${parent.Hash}`);
+  }
+}
+
+/**
+ * Apply a batch packet to the DAG
+ */
+export function applyBatchPacket(dag: Dag, batch: BatchTransmissionPacket): void {
+  for (const leaf of batch.Leaves) {
+    applyTransmissionPacket(dag, { Leaf: leaf, ParentHash: batch.ParentHash, proofs: {} });
+  }
+}
+
+/**
+ * Apply and verify a batch packet
+ */
+export async function applyAndVerifyBatchPacket(dag: Dag, batch: BatchTransmissionPacket): Promise<void> {
+  await verifyBatchPacket(dag, batch);
+  applyBatchPacket(dag, batch);
+}
+
+/**
+ * What a receiver holds of a DAG, for resuming an interrupted transfer
+ * The sender passes have to getLeafSequenceFor to send only the rest
+ */
+export interface TransmissionSummary {
+  root: string;
+  /** Hashes of leaves the receiver already holds */
+  have: string[];
+  /** Leaves known to be missing: the root if absent, and linked leaves not yet received */
+  missing: string[];
+  /** True if the root and every leaf linked below it are present */
+  complete: boolean;
+}
+
+/**
+ * Summarize which leaves of a partially received DAG are present and which are missing
+ * Leaves below a missing leaf cannot be known until it arrives, so they are not listed
+ */
+export function getTransmissionSummary(dag: Dag): TransmissionSummary {
+  const have = Object.keys(dag.Leafs);
+  const missing = new Set<string>();
+
+  if (!dag.Leafs[dag.Root]) {
+    missing.add(dag.Root);
+  }
+  for (const leaf of Object.values(dag.Leafs)) {
+    for (const link of leaf.Links || []) {
+      if (!dag.Leafs[link]) {
+        missing.add(link);
+      }
+    }
+  }
+
+  return { root: dag.Root, have, missing: [...missing], complete: missing.size === 0 };
+}
+
+/**
+ * Progress of a transmission session after a packet has been received
+ */
+export interface ReceiveResult {
+  /** True once every leaf of the DAG has been received and verified */
+  complete: boolean;
+  /** Number of linked leaves that have not arrived yet */
+  outstanding: number;
+  /** The verified DAG, present once complete */
+  dag?: Dag;
+}
+
+/**
+ * Receiving side of a transmission session anchored to the root CID that was requested
+ * A root packet for any other DAG is rejected, and the leaves linked from
+ * received leaves are tracked until the whole DAG has arrived
+ */
+export class TransmissionReceiver {
+  private readonly dag: Dag;
+  private readonly outstanding = new Set<string>();
+  private verified = false;
+
+  constructor(readonly expectedRoot: string) {
+    if (!expectedRoot) {
+      throw new ScionicError('Expected root CID is required');
+    }
+    this.dag = { Root: expectedRoot, Leafs: {} };
+  }
+
+  /**
+   * Verify and apply one packet
+   * Packets for leaves that were already received are ignored
+   */
+  async receive(packet: TransmissionPacket): Promise<ReceiveResult> {
+    const hash = packet.Leaf?.Hash;
+    if (hash && this.dag.Leafs[hash]) {
+      return this.result();
+    }
+
+    if (packet.ParentHash === '' && hash !== this.expectedRoot) {
+      throw new ScionicError(`Root leaf ${hash} does not match expected root ${this.expectedRoot}`);
+    }
+    if (packet.ParentHash !== '' && !this.dag.Leafs[this.expectedRoot]) {
+      throw new ScionicError(`Received leaf ${hash} before the root leaf`);
+    }
+
+    await applyAndVerifyTransmissionPacket(this.dag, packet);
+    return this.track([packet.Leaf]);
+  }
+
+  /**
+   * Verify and apply a batch of sibling leaves
+   * The whole batch is rejected if any leaf in it fails verification
+   */
+  async receiveBatch(batch: BatchTransmissionPacket): Promise<ReceiveResult> {
+    if (batch.ParentHash === '') {
+      if (batch.Leaves.length !== 1) {
+        throw new ScionicError(`Root batch must carry only the root leaf, has ${batch.Leaves.length} leaves`);
+      }
+      return this.receive({ Leaf: batch.Leaves[0], ParentHash: '', proofs: {} });
+    }
+
+    if (batch.Leaves.every((leaf) => this.dag.Leafs[leaf.Hash])) {
+      return this.result();
+    }
+    if (!this.dag.Leafs[this.expectedRoot]) {
+      throw new ScionicError(`Received batch under ${batch.ParentHash} before the root leaf`);
+    }
+
+    await applyAndVerifyBatchPacket(this.dag, batch);
+    return this.track(batch.Leaves);
+  }
+
+  /**
+   * True once the root and every leaf below it have been received and verified
+   */
+  get isComplete(): boolean {
+    return this.verified;
+  }
+
+  /**
+   * Hashes of linked leaves that have not arrived yet
+   */
+  getOutstandingLeaves(): string[] {
+    return [...this.outstanding];
+  }
+
+  /**
+   * Summary of what has been received, to send back to the sender when resuming
+   */
+  getSummary(): TransmissionSummary {
+    return getTransmissionSummary(this.dag);
+  }
+
+  /**
+   * Get the received DAG, which is only available once the session is complete
+   */
+  getDag(): Dag {
+    if (!this.verified) {
+      throw new ScionicError(
+        `Transmission of ${this.expectedRoot} is incomplete: ${this.outstanding.size} leaves outstanding`
+      );
+    }
+    return this.dag;
+  }
+
+  /**
+   * Record newly applied leaves and verify the DAG once nothing is outstanding
+   */
+  private async track(leaves: DagLeaf[]): Promise<ReceiveResult> {
+    for (const leaf of leaves) {
+      this.outstanding.delete(leaf.Hash);
+    }
+    for (const leaf of leaves) {
+      for (const link of leaf.Links || []) {
+        if (!this.dag.Leafs[link]) {
+          this.outstanding.add(link);
+        }
+      }
+    }
+
+    if (this.outstanding.size === 0) {
+      await verifyDag(this.dag);
+      this.verified = true;
+    }
+    return this.result();
+  }
+
+  private result(): ReceiveResult {
+    return this.verified
+      ? { complete: true, outstanding: 0, dag: this.dag }
+      : { complete: false, outstanding: this.outstanding.size };
+  }
+}
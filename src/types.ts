@@ -22,6 +22,19 @@ export interface MerkleProof {
   Siblings: Uint8Array[];
   /** Path bitmap (uint32) indicating whether sibling is on left (0) or right (1) */
   Path: number;
+  /** Path bits for proofs deeper than 32 levels, little-endian; Path is 0 when present */
+  PathBits?: Uint8Array;
+}
+
+/**
+ * Merkle proof for several leaves of the same tree
+ * Interior nodes shared between the leaves' paths are included only once
+ */
+export interface MerkleMultiProof {
+  /** Number of leaves in the tree, which fixes where odd nodes are duplicated */
+  LeafCount: number;
+  /** Sibling hashes not computable from the proven leaves, level by level from the leaves up */
+  Siblings: Uint8Array[];
 }
 
 /**
@@ -92,6 +105,88 @@ export interface TransmissionPacket {
   proofs?: Record<string, ClassicTreeBranch>;
 }
 
+/**
+ * The fields of a leaf that its CID commits to
+ * Only root leaves commit to LeafCount, ContentSize and DagSize
+ */
+export type LeafHeader = Pick<
+  DagLeaf,
+  | 'Hash'
+  | 'ItemName'
+  | 'Type'
+  | 'ClassicMerkleRoot'
+  | 'CurrentLinkCount'
+  | 'ContentHash'
+  | 'AdditionalData'
+  | 'LeafCount'
+  | 'ContentSize'
+  | 'DagSize'
+>;
+
+/**
+ * One level of an inclusion proof
+ */
+export interface InclusionStep {
+  /** Ancestor leaf, reduced to the fields its CID commits to */
+  Leaf: LeafHeader;
+  /** Proof that the next leaf down is one of this ancestor's links */
+  Branch: ClassicTreeBranch;
+}
+
+/**
+ * Self-contained proof that a leaf belongs to the DAG with a given root CID
+ */
+export interface InclusionProof {
+  /** The proven leaf's header, with its Content if it has any */
+  Leaf: LeafHeader & Pick<DagLeaf, 'Content'>;
+  /** Ancestors from the root down to the leaf's parent */
+  Path: InclusionStep[];
+}
+
+/**
+ * Proof that a CID is not among a directory's links
+ * Directory links are sorted before their Merkle root is built, so the
+ * neighbours either side of where the CID would sit are enough
+ */
+export interface AbsenceProof {
+  /** The directory, proven against the root */
+  Directory: InclusionProof;
+  /** CID proven absent */
+  Cid: string;
+  /** Branch for the greatest link below Cid, if any */
+  Left?: ClassicTreeBranch;
+  /** Branch for the smallest link above Cid, if any */
+  Right?: ClassicTreeBranch;
+}
+
+/**
+ * Proof that no entry of a directory has a given name
+ * Links are ordered by CID rather than name, so every entry's header is included
+ */
+export interface NameAbsenceProof {
+  /** The directory, proven against the root */
+  Directory: InclusionProof;
+  /** Name proven absent */
+  Name: string;
+  /** Headers of every entry in the directory */
+  Entries: LeafHeader[];
+}
+
+/**
+ * Several children of one parent sent together
+ * A single multiproof proves every leaf against the parent's Classic Merkle root
+ */
+export interface BatchTransmissionPacket {
+  /** Parent of every leaf in the batch, or empty for the batch carrying only the root */
+  ParentHash: string;
+  /** Leaves being transmitted */
+  Leaves: DagLeaf[];
+  /** Position of each leaf in the parent's links */
+  Indices: number[];
+  /** Multiproof of the leaves against the parent's Classic Merkle root */
+  Proof: MerkleMultiProof;
+}
+
 /**
  * Configuration for DAG building
  */
@@ -100,6 +195,8 @@ export interface DagBuilderConfig {
   enableParallel?: boolean;
   /** Maximum number of workers (0 = auto) */
   maxWorkers?: number;
+  /** Chunk size in bytes for large files (default DEFAULT_CHUNK_SIZE) */
+  chunkSize?: number;
   /** Add timestamp to root */
   timestampRoot?: boolean;
   /** Additional metadata for root */
@@ -0,0 +1,181 @@
+/**
+ * Worker thread pool for parallel DAG building
+ * Reads and hashes file ranges off the main thread
+ */
+
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+import { ScionicError } from './types';
+
+/**
+ * Worker source, evaluated as plain JavaScript so it runs without a TS loader
+ */
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+const fs = require('fs');
+const crypto = require('crypto');
+
+parentPort.on('message', ({ id, filePath, offset, length }) => {
+  let fd;
+  try {
+    // Allocate a dedicated ArrayBuffer so it can be transferred back
+    const data = Buffer.from(new ArrayBuffer(length));
+    fd = fs.openSync(filePath, 'r');
+    let read = 0;
+    while (read < length) {
+      const n = fs.readSync(fd, data, read, length - read, offset + read);
+      if (n === 0) {
+        throw new Error('Unexpected end of file: ' + filePath);
+      }
+      read += n;
+    }
+    const hash = crypto.createHash('sha256').update(data).digest();
+    parentPort.postMessage({ id, data, hash }, [data.buffer]);
+  } catch (error) {
+    parentPort.postMessage({ id, error: String(error && error.message || error) });
+  } finally {
+    if (fd !== undefined) {
+      fs.closeSync(fd);
+    }
+  }
+});
+`;
+
+/**
+ * Result of reading and hashing a file range
+ */
+export interface HashedRange {
+  /** Bytes read from the file */
+  data: Uint8Array;
+  /** SHA256 of the bytes */
+  hash: Uint8Array;
+}
+
+interface HashTask {
+  id: number;
+  filePath: string;
+  offset: number;
+  length: number;
+  resolve: (result: HashedRange) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of hashing workers
+ * Tasks beyond the worker count are queued, which bounds how much file data
+ * is being read at any one time
+ */
+export class HashWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: HashTask[] = [];
+  private running = new Map<Worker, HashTask>();
+  private nextId = 0;
+  private closed = false;
+
+  /**
+   * @param maxWorkers - Number of workers (0 = one per CPU)
+   */
+  constructor(maxWorkers: number = 0) {
+    const count = maxWorkers > 0 ? maxWorkers : Math.max(1, os.cpus().length);
+
+    for (let i = 0; i < count; i++) {
+      const worker = new Worker(WORKER_SOURCE, { eval: true });
+      worker.on('message', (message) => this.onMessage(worker, message));
+      worker.on('error', (error) => this.onError(worker, error));
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  /**
+   * Get the number of workers in the pool
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Read `length` bytes at `offset` from a file and hash them in a worker
+   */
+  hashFileRange(filePath: string, offset: number, length: number): Promise<HashedRange> {
+    if (this.closed) {
+      return Promise.reject(new ScionicError('Worker pool is closed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, filePath, offset, length, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers, rejecting any queued tasks
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    for (const task of this.queue) {
+      task.reject(new ScionicError('Worker pool is closed'));
+    }
+    this.queue = [];
+
+    await Promise.all(this.workers.map((worker) => worker.terminate()));
+    this.workers = [];
+    this.idle = [];
+  }
+
+  /**
+   * Hand queued tasks to idle workers
+   */
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage({
+        id: task.id,
+        filePath: task.filePath,
+        offset: task.offset,
+        length: task.length,
+      });
+    }
+  }
+
+  private onMessage(worker: Worker, message: { id: number; data?: Uint8Array; hash?: Uint8Array; error?: string }): void {
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (task) {
+      if (message.error !== undefined) {
+        task.reject(new ScionicError(`Worker failed to hash ${task.filePath}: ${message.error}`));
+      } else {
+        task.resolve({
+          data: Buffer.from(message.data!.buffer, message.data!.byteOffset, message.data!.byteLength),
+          hash: new Uint8Array(message.hash!),
+        });
+      }
+    }
+
+    this.dispatch();
+  }
+
+  private onError(worker: Worker, error: Error): void {
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.workers = this.workers.filter((w) => w !== worker);
+
+    if (task) {
+      task.reject(new ScionicError(`Worker crashed while hashing ${task.filePath}: ${error.message}`));
+    }
+
+    // Fail queued tasks if no workers remain to run them
+    if (this.workers.length === 0) {
+      for (const queued of this.queue) {
+        queued.reject(new ScionicError('All workers in pool have exited'));
+      }
+      this.queue = [];
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Tests for indexed DAG archives
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag, createDagToSink, createDirectory, verifyDag, verifyStoredDag } from '../src/dag';
+import { writeArchive, DagArchive } from '../src/archive';
+import { FsLeafStore } from '../src/store';
+import { reconstructFile } from '../src/browser';
+import { getPartial } from '../src/partial';
+
+describe('DAG Archives', () => {
+  let tempDir: string;
+  let inputDir: string;
+  let archivePath: string;
+  const openArchives: DagArchive[] = [];
+
+  function openArchive(filePath: string = archivePath): DagArchive {
+    const archive = DagArchive.open(filePath);
+    openArchives.push(archive);
+    return archive;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-test-'));
+    inputDir = path.join(tempDir, 'input');
+    archivePath = path.join(tempDir, 'dag.archive');
+    fs.mkdirSync(path.join(inputDir, 'nested'), { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, 'a.txt'), 'content a');
+    fs.writeFileSync(path.join(inputDir, 'nested', 'b.txt'), 'content b');
+    const large = Buffer.alloc(5000);
+    for (let i = 0; i < large.length; i++) {
+      large[i] = i % 251;
+    }
+    fs.writeFileSync(path.join(inputDir, 'nested', 'large.bin'), large);
+  });
+
+  afterEach(() => {
+    while (openArchives.length > 0) {
+      openArchives.pop()!.close();
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('round-trips a DAG and verifies lazily', async () => {
+    const dag = await createDag(inputDir, false, { chunkSize: 1024 });
+    await writeArchive(dag, archivePath);
+
+    const archive = openArchive();
+    expect(archive.root).toBe(dag.Root);
+    expect(archive.size).toBe(Object.keys(dag.Leafs).length);
+
+    await verifyDag(archive.toDag());
+    await verifyStoredDag(archive.toStoredDag());
+
+    const rootLeaf = archive.getLeaf(dag.Root)!;
+    expect(rootLeaf.LeafCount).toBe(dag.Leafs[dag.Root].LeafCount);
+  });
+
+  test('round-trips wide directories whose leaves and index exceed 16 KiB', async () => {
+    const wideDir = path.join(tempDir, 'wide');
+    fs.mkdirSync(wideDir);
+    for (let i = 0; i < 600; i++) {
+      fs.writeFileSync(path.join(wideDir, `file${i}.txt`), `content ${i}`);
+    }
+    const dag = await createDag(wideDir, false);
+    await writeArchive(dag, archivePath);
+
+    const archive = openArchive();
+    expect(archive.size).toBe(601);
+    expect(archive.getLeaf(dag.Root)!.Links!.length).toBe(600);
+    await verifyDag(archive.toDag());
+  });
+
+  test('opening and listing keys does not read leaf blocks', async () => {
+    const dag = await createDag(inputDir, false, { chunkSize: 1024 });
+    await writeArchive(dag, archivePath);
+
+    const archive = openArchive();
+    const getLeaf = jest.spyOn(archive, 'getLeaf');
+    const lazyDag = archive.toDag();
+
+    expect(Object.keys(lazyDag.Leafs).sort()).toEqual(Object.keys(dag.Leafs).sort());
+    expect(dag.Root in lazyDag.Leafs).toBe(true);
+    expect('missing' in lazyDag.Leafs).toBe(false);
+    expect(getLeaf).not.toHaveBeenCalled();
+
+    expect(lazyDag.Leafs[dag.Root].Hash).toBe(dag.Root);
+    expect(getLeaf).toHaveBeenCalledTimes(1);
+  });
+
+  test('createDirectory reads from the archive', async () => {
+    const dag = await createDag(inputDir, false, { chunkSize: 1024 });
+    await writeArchive(dag, archivePath);
+
+    const outputDir = path.join(tempDir, 'output');
+    createDirectory(openArchive().toDag(), outputDir);
+
+    const restored = path.join(outputDir, 'input');
+    expect(fs.readFileSync(path.join(restored, 'a.txt'), 'utf-8')).toBe('content a');
+    expect(fs.readFileSync(path.join(restored, 'nested', 'large.bin'))).toEqual(
+      fs.readFileSync(path.join(inputDir, 'nested', 'large.bin'))
+    );
+  });
+
+  test('reconstructFile reads from the archive', async () => {
+    const filePath = path.join(inputDir, 'nested', 'large.bin');
+    const dag = await createDag(filePath, false, { chunkSize: 1024 });
+    await writeArchive(dag, archivePath);
+
+    const content = reconstructFile(openArchive().toDag());
+    expect(Buffer.from(content)).toEqual(fs.readFileSync(filePath));
+  });
+
+  test('sync operations such as getPartial work on the lazy DAG', async () => {
+    const dag = await createDag(inputDir, false);
+    await writeArchive(dag, archivePath);
+    const target = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'b.txt')!;
+
+    const partial = getPartial(openArchive().toDag(), [target.Hash], true);
+    expect(Object.keys(partial.Leafs).sort()).toEqual(Object.keys(getPartial(dag, [target.Hash], true).Leafs).sort());
+  });
+
+  test('writes an archive from a stored DAG', async () => {
+    const store = new FsLeafStore(path.join(tempDir, 'store'));
+    const rootLeaf = await createDagToSink(inputDir, store, false, { chunkSize: 1024 });
+    await writeArchive({ Root: rootLeaf.Hash, Store: store }, archivePath);
+
+    const archive = openArchive();
+    expect(archive.root).toBe(rootLeaf.Hash);
+    await verifyDag(archive.toDag());
+  });
+
+  test('archive-backed DAGs are read-only', async () => {
+    const dag = await createDag(inputDir, false);
+    await writeArchive(dag, archivePath);
+    const archive = openArchive();
+    const lazyDag = archive.toDag();
+
+    expect(() => {
+      lazyDag.Leafs[dag.Root] = dag.Leafs[dag.Root];
+    }).toThrow('read-only');
+    expect(() => {
+      delete lazyDag.Leafs[dag.Root];
+    }).toThrow('read-only');
+    await expect(archive.put(dag.Leafs[dag.Root])).rejects.toThrow('read-only');
+  });
+
+  test('rejects files that are not archives', async () => {
+    const notArchive = path.join(tempDir, 'not.archive');
+    fs.writeFileSync(notArchive, 'definitely not an archive');
+    expect(() => openArchive(notArchive)).toThrow('Not a DAG archive');
+
+    const dag = await createDag(inputDir, false);
+    await writeArchive(dag, archivePath);
+    const data = fs.readFileSync(archivePath);
+    fs.writeFileSync(archivePath, data.subarray(0, data.length - 4));
+    expect(() => openArchive()).toThrow('Archive is missing its index');
+  });
+
+  test('reading from a closed archive fails', async () => {
+    const dag = await createDag(inputDir, false);
+    await writeArchive(dag, archivePath);
+
+    const archive = DagArchive.open(archivePath);
+    archive.close();
+    expect(() => archive.getLeaf(dag.Root)).toThrow('Archive is closed');
+  });
+});
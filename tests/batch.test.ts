@@ -0,0 +1,157 @@
+/**
+ * Tests for batch transmission packets with Merkle multiproofs
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag } from '../src/dag';
+import {
+  getLeafSequence,
+  getBatchLeafSequence,
+  verifyBatchPacket,
+  applyAndVerifyBatchPacket,
+  TransmissionReceiver,
+} from '../src/transmission';
+import { encodePacket, encodeBatchPacket, decodeBatchPacket } from '../src/serialize';
+import { BatchTransmissionPacket, Dag } from '../src/types';
+
+const FILE_COUNT = 500;
+
+describe('Batch transmission packets', () => {
+  let tempDir: string;
+  let dag: Dag;
+
+  /**
+   * Receiver that has applied the root batch
+   */
+  async function receiverWithRoot(batches: BatchTransmissionPacket[]): Promise<Dag> {
+    const receiver: Dag = { Root: dag.Root, Leafs: {} };
+    await applyAndVerifyBatchPacket(receiver, batches[0]);
+    return receiver;
+  }
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-test-'));
+    const inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(path.join(inputDir, 'sub'), { recursive: true });
+    for (let i = 0; i < FILE_COUNT; i++) {
+      fs.writeFileSync(path.join(inputDir, `file${i}.txt`), `content ${i}`);
+    }
+    fs.writeFileSync(path.join(inputDir, 'sub', 'only.txt'), 'only child');
+    fs.writeFileSync(path.join(inputDir, 'sub', 'zeros.bin'), Buffer.alloc(3000));
+
+    dag = await createDag(inputDir, false, { chunkSize: 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('batches reconstruct the DAG through a receiver', async () => {
+    const batches = getBatchLeafSequence(dag, 64);
+    const receiver = new TransmissionReceiver(dag.Root);
+
+    let result;
+    for (const batch of batches) {
+      expect(batch.Leaves.length).toBeLessThanOrEqual(64);
+      result = await receiver.receiveBatch(batch);
+    }
+
+    expect(result!.complete).toBe(true);
+    expect(Object.keys(result!.dag!.Leafs).sort()).toEqual(Object.keys(dag.Leafs).sort());
+  });
+
+  test('batches round-trip through CBOR', async () => {
+    const receiver: Dag = { Root: dag.Root, Leafs: {} };
+    for (const batch of getBatchLeafSequence(dag)) {
+      const decoded = decodeBatchPacket(encodeBatchPacket(batch));
+      expect(decoded).toEqual(batch);
+      await applyAndVerifyBatchPacket(receiver, decoded);
+    }
+    expect(Object.keys(receiver.Leafs).length).toBe(Object.keys(dag.Leafs).length);
+  });
+
+  test('multiproofs use far less bandwidth than individual proofs', () => {
+    const rootLinks = dag.Leafs[dag.Root].Links!;
+    const singles = getLeafSequence(dag).filter((packet) => packet.ParentHash === dag.Root);
+    const batches = getBatchLeafSequence(dag, FILE_COUNT + 1).filter((batch) => batch.ParentHash === dag.Root);
+    expect(batches.length).toBe(1);
+    expect(singles.length).toBe(rootLinks.length);
+
+    const singleBytes = singles.reduce((sum, packet) => sum + encodePacket(packet).length, 0);
+    const batchBytes = encodeBatchPacket(batches[0]).length;
+
+    const singleSiblings = singles.reduce((sum, packet) => sum + packet.proofs![packet.Leaf.Hash].Proof.Siblings.length, 0);
+    const batchSiblings = batches[0].Proof.Siblings.length;
+
+    console.log(
+      `${rootLinks.length} children: ${singleBytes} bytes as single packets (${singleSiblings} sibling hashes), ` +
+        `${batchBytes} bytes as one batch (${batchSiblings} sibling hashes)`
+    );
+
+    // Every child is sent, so the whole tree is computable and only odd-node pairings remain
+    expect(batchSiblings).toBe(0);
+    expect(singleSiblings).toBeGreaterThan(rootLinks.length * 8);
+    expect(batchBytes).toBeLessThan(singleBytes / 2);
+  });
+
+  test('partial batches carry only the siblings they cannot compute', () => {
+    const batches = getBatchLeafSequence(dag, 100).filter((batch) => batch.ParentHash === dag.Root);
+    const linkCount = dag.Leafs[dag.Root].Links!.length;
+
+    expect(batches.length).toBe(Math.ceil(linkCount / 100));
+    for (const batch of batches) {
+      // A contiguous run of 100 leaves in a tree of depth 9 needs a handful of siblings, not 100 * 9
+      expect(batch.Proof.Siblings.length).toBeLessThan(2 * Math.ceil(Math.log2(linkCount)));
+    }
+  });
+
+  test('rejects a batch whose multiproof does not match', async () => {
+    const batches = getBatchLeafSequence(dag, 100);
+    const receiver = await receiverWithRoot(batches);
+    const batch = batches[1];
+
+    const swapped = { ...batch, Indices: [batch.Indices[1], batch.Indices[0], ...batch.Indices.slice(2)] };
+    await expect(verifyBatchPacket(receiver, swapped)).rejects.toThrow('Invalid Merkle multiproof');
+
+    const forgedSibling = {
+      ...batch,
+      Proof: { ...batch.Proof, Siblings: batch.Proof.Siblings.map(() => new Uint8Array(32)) },
+    };
+    await expect(verifyBatchPacket(receiver, forgedSibling)).rejects.toThrow('Invalid Merkle multiproof');
+
+    const wrongCount = { ...batch, Proof: { ...batch.Proof, LeafCount: batch.Proof.LeafCount + 1 } };
+    await expect(verifyBatchPacket(receiver, wrongCount)).rejects.toThrow('Multiproof covers');
+
+    await verifyBatchPacket(receiver, batch);
+  });
+
+  test('rejects the whole batch if one leaf is tampered', async () => {
+    const batches = getBatchLeafSequence(dag, 100);
+    const receiver = await receiverWithRoot(batches);
+    const batch = batches[1];
+
+    const leaves = [...batch.Leaves];
+    leaves[3] = { ...leaves[3], Content: new TextEncoder().encode('tampered') };
+    await expect(applyAndVerifyBatchPacket(receiver, { ...batch, Leaves: leaves })).rejects.toThrow(
+      'Content hash mismatch'
+    );
+    expect(Object.keys(receiver.Leafs)).toEqual([dag.Root]);
+  });
+
+  test('rejects malformed batches', async () => {
+    const batches = getBatchLeafSequence(dag, 100);
+    const receiver = await receiverWithRoot(batches);
+    const batch = batches[1];
+
+    await expect(verifyBatchPacket(receiver, { ...batch, Indices: batch.Indices.slice(1) })).rejects.toThrow(
+      'leaves and'
+    );
+    await expect(verifyBatchPacket(receiver, { ...batch, ParentHash: 'bafimissing' })).rejects.toThrow('not found');
+    await expect(verifyBatchPacket(receiver, { ...batches[0], Leaves: [...batches[0].Leaves, batch.Leaves[0]] })).rejects.toThrow(
+      'only the root leaf'
+    );
+    expect(() => getBatchLeafSequence(dag, 0)).toThrow('Invalid batch size');
+  });
+});
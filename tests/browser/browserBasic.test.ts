@@ -3,7 +3,7 @@
  */
 
 import { describe, test, expect } from 'vitest';
-import { createDagFromFile, verifyDag, reconstructFile } from '../../src/browser';
+import { createDagFromFile, verifyDag, reconstructFile, getChunkSize } from '../../src/browser';
 import { BrowserMerkleTree } from '../../src/browserMerkleTree';
 import { createCID, hashData } from '../../src/browserHash';
 
@@ -40,6 +40,22 @@ describe('Browser API', () => {
     await verifyDag(dag);
   });
 
+  test('honors custom chunk size', async () => {
+    const content = new Uint8Array(10000);
+    for (let i = 0; i < content.length; i++) {
+      content[i] = i % 256;
+    }
+
+    const dag = await createDagFromFile('custom.bin', content, { chunkSize: 4096 });
+
+    const chunks = Object.values(dag.Leafs).filter((leaf) => leaf.Type === 'chunk');
+    expect(chunks.length).toBe(3);
+    expect(getChunkSize(dag)).toBe(4096);
+
+    await verifyDag(dag);
+    expect(reconstructFile(dag)).toEqual(content);
+  });
+
   test('reconstructs file from DAG', async () => {
     const fileName = 'reconstruct.txt';
     const original = new TextEncoder().encode('Test content for reconstruction');
@@ -82,6 +98,39 @@ describe('Browser API', () => {
     }
   });
 
+  test('BrowserMerkleTree multiproofs verify several leaves at once', async () => {
+    const leaves = await Promise.all(
+      Array.from({ length: 7 }, (_, i) => hashData(new TextEncoder().encode(`leaf${i}`)))
+    );
+    const tree = new BrowserMerkleTree(leaves);
+    await tree.build();
+    const root = tree.getRoot();
+
+    const indices = [0, 1, 5, 6];
+    const proof = tree.getMultiProof(indices);
+    expect(proof.LeafCount).toBe(7);
+
+    const proven = indices.map((i) => leaves[i]);
+    expect(await BrowserMerkleTree.verifyMulti(proven, indices, proof, root)).toBe(true);
+    expect(await BrowserMerkleTree.verifyMulti(proven, [0, 1, 4, 6], proof, root)).toBe(false);
+    expect(() => tree.getMultiProof([7])).toThrow('Leaf index out of bounds');
+  });
+
+  test('BrowserMerkleTree rejects proofs that do not fit the tree', async () => {
+    const leaves = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => hashData(new TextEncoder().encode(`leaf${i}`)))
+    );
+    const tree = new BrowserMerkleTree(leaves);
+    await tree.build();
+    const root = tree.getRoot();
+    const proof = tree.getProof(2);
+
+    expect(await BrowserMerkleTree.verify(leaves[2], proof, root, 5)).toBe(true);
+    expect(await BrowserMerkleTree.verify(leaves[2], proof, root, 4)).toBe(false);
+    expect(await BrowserMerkleTree.verify(leaves[2], { ...proof, Path: proof.Path | 8 }, root)).toBe(false);
+    expect(await BrowserMerkleTree.verify(leaves[2], { ...proof, Path: -1 }, root)).toBe(false);
+  });
+
   test('createCID produces valid CIDs', async () => {
     const testData = {
       ItemName: 'test.txt',
@@ -0,0 +1,242 @@
+/**
+ * Tests for CAR import and export
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Readable } from 'stream';
+import { createDag, createDagToSink, verifyDag, verifyStoredDag } from '../src/dag';
+import { toCAR, fromCAR, toCARStream, fromCARStream } from '../src/car';
+import { FsLeafStore, MemoryLeafStore, loadStoredDag } from '../src/store';
+import { cidToBytes, cidFromBytes, cidForDigest, decodeVarint, hashData } from '../src/hash';
+import { getPartial, verifyPartialDag } from '../src/partial';
+import { Dag } from '../src/types';
+
+const CAR_V2_PRAGMA_LENGTH = 11;
+
+async function collect(source: AsyncIterable<Uint8Array>): Promise<Buffer> {
+  const parts: Uint8Array[] = [];
+  for await (const part of source) {
+    parts.push(part);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Split bytes into small irregular pieces to exercise stream reassembly
+ */
+function trickle(data: Uint8Array): Readable {
+  const pieces: Uint8Array[] = [];
+  for (let offset = 0, i = 0; offset < data.length; i++) {
+    const size = [1, 7, 64, 3][i % 4];
+    pieces.push(data.subarray(offset, offset + size));
+    offset += size;
+  }
+  return Readable.from(pieces);
+}
+
+/**
+ * Split a CARv1 into its block sections after the header
+ */
+function readBlocks(car: Buffer): Array<{ cid: Buffer; data: Buffer; start: number; end: number }> {
+  const blocks: Array<{ cid: Buffer; data: Buffer; start: number; end: number }> = [];
+  const [headerLength, headerRead] = decodeVarint(car);
+  for (let offset = headerRead + headerLength; offset < car.length; ) {
+    const [length, read] = decodeVarint(car, offset);
+    const section = car.subarray(offset + read, offset + read + length);
+    const end = offset + read + length;
+    blocks.push({ cid: section.subarray(0, 36), data: section.subarray(36), start: offset, end });
+    offset = end;
+  }
+  return blocks;
+}
+
+function expectSameDag(actual: Dag, expected: Dag): void {
+  expect(actual.Root).toBe(expected.Root);
+  expect(Object.keys(actual.Leafs).sort()).toEqual(Object.keys(expected.Leafs).sort());
+  for (const [hash, leaf] of Object.entries(expected.Leafs)) {
+    expect(actual.Leafs[hash]).toEqual(leaf);
+  }
+}
+
+describe('CAR import and export', () => {
+  let tempDir: string;
+  let inputDir: string;
+  let dag: Dag;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'car-test-'));
+    inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(path.join(inputDir, 'nested'), { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, 'a.txt'), 'content a');
+    fs.writeFileSync(path.join(inputDir, 'nested', 'b.txt'), 'content b');
+    fs.writeFileSync(path.join(inputDir, 'nested', 'large.bin'), Buffer.alloc(3000, 9));
+
+    dag = await createDag(inputDir, true, { chunkSize: 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('CARv1 round-trips and verifies', async () => {
+    const car = toCAR(dag);
+    const restored = fromCAR(car);
+
+    expectSameDag(restored, dag);
+    await verifyDag(restored);
+  });
+
+  test('CARv1 header is dag-cbor with the root as a CID link', () => {
+    const car = Buffer.from(toCAR(dag));
+    const [headerLength, read] = decodeVarint(car);
+    const header = car.subarray(read, read + headerLength);
+
+    // Map with keys "roots" then "version", root tagged 42 (0xd8 0x2a)
+    expect(header[0]).toBe(0xa2);
+    expect(header.includes(Buffer.from([0xd8, 0x2a]))).toBe(true);
+    expect(header.includes(Buffer.from(cidToBytes(dag.Root)))).toBe(true);
+  });
+
+  test('CARv2 round-trips and its index points at each block', async () => {
+    const car = Buffer.from(toCAR(dag, { version: 2 }));
+
+    const restored = fromCAR(car);
+    expectSameDag(restored, dag);
+    await verifyDag(restored);
+
+    const header = car.subarray(CAR_V2_PRAGMA_LENGTH);
+    const dataOffset = Number(header.readBigUInt64LE(16));
+    const dataSize = Number(header.readBigUInt64LE(24));
+    const indexOffset = Number(header.readBigUInt64LE(32));
+    expect(indexOffset).toBe(dataOffset + dataSize);
+
+    // IndexSorted: codec varint, bucket count, then width, byte length, entries
+    const index = car.subarray(indexOffset);
+    const [codec, codecLength] = decodeVarint(index);
+    expect(codec).toBe(0x0400);
+    expect(index.readInt32LE(codecLength)).toBe(1);
+
+    const width = index.readUInt32LE(codecLength + 4);
+    const byteLength = Number(index.readBigInt64LE(codecLength + 8));
+    expect(width).toBe(40);
+    expect(byteLength / width).toBe(readBlocks(Buffer.from(toCAR(dag))).length);
+
+    const payload = car.subarray(dataOffset, dataOffset + dataSize);
+    const entries = index.subarray(codecLength + 16, codecLength + 16 + byteLength);
+    let previous = Buffer.alloc(0);
+    for (let i = 0; i < entries.length; i += width) {
+      const digest = entries.subarray(i, i + 32);
+      const offset = Number(entries.readBigUInt64LE(i + 32));
+      // Identical chunks are written once per leaf, so digests may repeat
+      expect(Buffer.compare(previous, digest)).toBeLessThanOrEqual(0);
+      previous = digest;
+
+      const [, prefixLength] = decodeVarint(payload, offset);
+      const cid = payload.subarray(offset + prefixLength, offset + prefixLength + 36);
+      expect(cid.subarray(4)).toEqual(digest);
+    }
+  });
+
+  test('every block hashes to its CID', () => {
+    const blocks = readBlocks(Buffer.from(toCAR(dag)));
+    const cids = new Set(blocks.map((block) => cidFromBytes(block.cid)));
+
+    for (const block of blocks) {
+      expect(block.cid[0]).toBe(1);
+      expect([0x51, 0x55]).toContain(block.cid[1]);
+      expect(block.cid.subarray(2, 4)).toEqual(Buffer.from([0x12, 0x20]));
+      expect(Buffer.from(hashData(block.data))).toEqual(block.cid.subarray(4));
+    }
+
+    for (const leaf of Object.values(dag.Leafs)) {
+      expect(cids.has(leaf.Hash)).toBe(true);
+      if (leaf.ContentHash) {
+        expect(cids.has(cidForDigest(leaf.ContentHash, 0x55))).toBe(true);
+      }
+    }
+  });
+
+  test('round-trips stored proofs of a pruned partial DAG', async () => {
+    const chunk = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'large.bin.chunk.1')!;
+    const partial = getPartial(dag, [chunk.Hash], true);
+    expect(Object.values(partial.Leafs).some((leaf) => leaf.stored_proofs)).toBe(true);
+
+    const restored = fromCAR(toCAR(partial));
+    expectSameDag(restored, partial);
+    await verifyPartialDag(restored, dag.Root);
+  });
+
+  test('streaming export matches the buffered export', async () => {
+    const streamed = await collect(toCARStream(dag));
+    expect(streamed).toEqual(Buffer.from(toCAR(dag)));
+  });
+
+  test('streaming import reassembles sections split across chunks', async () => {
+    for (const version of [1, 2] as const) {
+      const store = new MemoryLeafStore();
+      const stored = await fromCARStream(trickle(toCAR(dag, { version })), store);
+
+      expect(stored.Root).toBe(dag.Root);
+      await verifyStoredDag(stored);
+      expectSameDag(await loadStoredDag(stored), dag);
+    }
+  });
+
+  test('streams between filesystem stores without loading the DAG', async () => {
+    const source = new FsLeafStore(path.join(tempDir, 'source'));
+    const rootLeaf = await createDagToSink(inputDir, source, false, { chunkSize: 1024 });
+
+    const carPath = path.join(tempDir, 'dag.car');
+    await fs.promises.writeFile(carPath, toCARStream({ Root: rootLeaf.Hash, Store: source }));
+
+    const target = new FsLeafStore(path.join(tempDir, 'target'));
+    const stored = await fromCARStream(fs.createReadStream(carPath, { highWaterMark: 100 }), target);
+
+    expect(stored.Root).toBe(rootLeaf.Hash);
+    await verifyStoredDag(stored);
+  });
+
+  test('rejects blocks that do not hash to their CID', () => {
+    const car = Buffer.from(toCAR(dag));
+    const fileLeaf = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'a.txt')!;
+    const otherLeaf = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'b.txt')!;
+
+    // Swap one block's CID for another of the same length
+    const tampered = Buffer.from(car);
+    const position = tampered.indexOf(Buffer.from(cidToBytes(fileLeaf.Hash)));
+    Buffer.from(cidToBytes(otherLeaf.Hash)).copy(tampered, position);
+
+    expect(() => fromCAR(tampered)).toThrow(`Block ${otherLeaf.Hash} does not hash to its CID`);
+  });
+
+  test('rejects CARs without their root block', async () => {
+    const withoutRoot: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs } };
+    const car = Buffer.from(toCAR(dag));
+    const rootBlock = readBlocks(car).find((block) => cidFromBytes(block.cid) === dag.Root)!;
+
+    // Drop the root block along with the links block written just before it
+    const rootLinks = readBlocks(car).find((block) => block.end === rootBlock.start)!;
+    const truncated = Buffer.concat([car.subarray(0, rootLinks.start), car.subarray(rootBlock.end)]);
+    expect(() => fromCAR(truncated)).toThrow(`Root ${dag.Root} not found in CAR`);
+    await expect(fromCARStream(Readable.from([truncated]), new MemoryLeafStore())).rejects.toThrow(
+      'not found in CAR'
+    );
+
+    delete withoutRoot.Leafs[dag.Root];
+    expect(() => toCAR(withoutRoot)).toThrow('Root leaf not found');
+  });
+
+  test('rejects truncated input', async () => {
+    const car = Buffer.from(toCAR(dag));
+    const truncated = car.subarray(0, car.length - 5);
+
+    expect(() => fromCAR(truncated)).toThrow('Truncated CAR section');
+    await expect(fromCARStream(Readable.from([truncated]), new MemoryLeafStore())).rejects.toThrow(
+      'Truncated CAR stream'
+    );
+    await expect(fromCARStream(Readable.from([]), new MemoryLeafStore())).rejects.toThrow('CAR stream is empty');
+  });
+});
@@ -7,7 +7,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { runGoCommand } from './testHelpers';
-import { createDag } from '../src/dag';
+import { createDag, verifyDag } from '../src/dag';
+import { CHUNK_SIZE_KEY, getChunkSize } from '../src/chunking';
 import { DEFAULT_CHUNK_SIZE } from '../src/types';
 
 const BITCOIN_PDF = path.join(__dirname, '..', 'bitcoin.pdf');
@@ -88,9 +89,7 @@ describe('Chunk Size Comparison Tests', () => {
     console.log(`Chunk size: ${smallChunkSize} bytes`);
     console.log(`Expected chunks: ${Math.ceil(stats.size / smallChunkSize)}`);
 
-    // For this test, we need to modify the chunk size
-    // Since our current implementation uses a constant, let's just verify the structure
-    const dag = await createDag(BITCOIN_PDF, false);
+    const dag = await createDag(BITCOIN_PDF, false, { chunkSize: smallChunkSize });
 
     console.log(`Root: ${dag.Root}`);
     console.log(`Total leaves: ${Object.keys(dag.Leafs).length}`);
@@ -102,6 +101,32 @@ describe('Chunk Size Comparison Tests', () => {
     console.log(`Root links: ${rootLeaf.CurrentLinkCount}`);
 
     expect(rootLeaf).toBeDefined();
+    expect(rootLeaf.CurrentLinkCount).toBe(Math.ceil(stats.size / smallChunkSize));
+    expect(getChunkSize(dag)).toBe(smallChunkSize);
+
+    await verifyDag(dag);
+  });
+
+  test('Default chunk size is not recorded in root', async () => {
+    const dag = await createDag(BITCOIN_PDF, false);
+    const explicitDefault = await createDag(BITCOIN_PDF, false, { chunkSize: DEFAULT_CHUNK_SIZE });
+
+    expect(dag.Leafs[dag.Root].AdditionalData?.[CHUNK_SIZE_KEY]).toBeUndefined();
+    expect(explicitDefault.Root).toBe(dag.Root);
+    expect(getChunkSize(dag)).toBe(DEFAULT_CHUNK_SIZE);
+  });
+
+  test('Custom chunk size rebuild is reproducible', async () => {
+    const dag = await createDag(BITCOIN_PDF, false, { chunkSize: 50000 });
+    const rebuilt = await createDag(BITCOIN_PDF, false, { chunkSize: getChunkSize(dag) });
+
+    expect(dag.Leafs[dag.Root].AdditionalData?.[CHUNK_SIZE_KEY]).toBe('50000');
+    expect(rebuilt.Root).toBe(dag.Root);
+  });
+
+  test('Invalid chunk size is rejected', async () => {
+    await expect(createDag(BITCOIN_PDF, false, { chunkSize: 0 })).rejects.toThrow('Invalid chunk size');
+    await expect(createDag(BITCOIN_PDF, false, { chunkSize: 1.5 })).rejects.toThrow('Invalid chunk size');
   });
 
   test('Verify DAG structure for bitcoin.pdf', async () => {
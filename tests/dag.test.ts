@@ -3,7 +3,8 @@ import * as path from 'path';
 import * as os from 'os';
 import { createDag, verifyDag, createDirectory } from '../src/dag';
 import { toCBOR, fromCBOR, toJSON, fromJSON, saveToFile, loadFromFile } from '../src/serialize';
-import { LeafType } from '../src/types';
+import { DagLeafBuilder } from '../src/leaf';
+import { Dag, LeafType } from '../src/types';
 
 describe('DAG Creation and Verification', () => {
   let tempDir: string;
@@ -112,6 +113,25 @@ describe('DAG Creation and Verification', () => {
     await verifyDag(restored);
   });
 
+  test('CBOR serialization keeps DAGs larger than 16 KiB', async () => {
+    const inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(inputDir);
+    fs.writeFileSync(path.join(inputDir, 'big.bin'), Buffer.alloc(100 * 1024, 5));
+    for (let i = 0; i < 300; i++) {
+      fs.writeFileSync(path.join(inputDir, `file${i}.txt`), `content ${i}`);
+    }
+
+    const dag = await createDag(inputDir, false);
+    const dagFile = path.join(tempDir, 'big.dag');
+    saveToFile(dag, dagFile);
+
+    for (const restored of [fromCBOR(toCBOR(dag)), loadFromFile(dagFile)]) {
+      expect(restored.Root).toBe(dag.Root);
+      expect(Object.keys(restored.Leafs).length).toBe(Object.keys(dag.Leafs).length);
+      await verifyDag(restored);
+    }
+  });
+
   test('serialization round-trip (JSON)', async () => {
     const filePath = path.join(tempDir, 'test.txt');
     fs.writeFileSync(filePath, 'test content');
@@ -212,4 +232,81 @@ describe('DAG Creation and Verification', () => {
       expect(hash.startsWith('bafi')).toBe(true);
     }
   });
+
+  describe('verifyDag tamper detection', () => {
+    async function createTestDag() {
+      const inputDir = path.join(tempDir, 'input');
+      fs.mkdirSync(inputDir);
+      fs.writeFileSync(path.join(inputDir, 'file1.txt'), 'content 1');
+      fs.writeFileSync(path.join(inputDir, 'file2.txt'), 'content 2');
+      return createDag(inputDir);
+    }
+
+    function findFile(dag: Dag, name: string) {
+      return Object.values(dag.Leafs).find((leaf) => leaf.ItemName === name)!;
+    }
+
+    test('rejects tampered ItemName', async () => {
+      const dag = await createTestDag();
+      findFile(dag, 'file1.txt').ItemName = 'evil.txt';
+
+      await expect(verifyDag(dag)).rejects.toThrow('CID mismatch');
+    });
+
+    test('rejects tampered Type', async () => {
+      const dag = await createTestDag();
+      findFile(dag, 'file1.txt').Type = LeafType.Chunk;
+
+      await expect(verifyDag(dag)).rejects.toThrow('CID mismatch');
+    });
+
+    test('rejects tampered AdditionalData', async () => {
+      const dag = await createTestDag();
+      findFile(dag, 'file2.txt').AdditionalData = { injected: 'yes' };
+
+      await expect(verifyDag(dag)).rejects.toThrow('CID mismatch');
+    });
+
+    test('rejects tampered root LeafCount', async () => {
+      const dag = await createTestDag();
+      dag.Leafs[dag.Root].LeafCount = 99;
+
+      await expect(verifyDag(dag)).rejects.toThrow('CID mismatch');
+    });
+
+    test('rejects tampered content with recomputed ContentHash', async () => {
+      const dag = await createTestDag();
+      const leaf = findFile(dag, 'file1.txt');
+      leaf.Content = Buffer.from('forged');
+      leaf.ContentHash = new Uint8Array(require('crypto').createHash('sha256').update(leaf.Content).digest());
+
+      await expect(verifyDag(dag)).rejects.toThrow('CID mismatch');
+    });
+
+    test('rejects root with self-consistent CID but wrong statistics', async () => {
+      const dag = await createTestDag();
+      const root = dag.Leafs[dag.Root];
+
+      // Rebuild a root whose CID is valid for bogus statistics
+      const builder = new DagLeafBuilder(root.ItemName).setType(root.Type);
+      for (const link of root.Links!) {
+        builder.addLink(link);
+      }
+      const forged = await builder.buildRootLeaf(undefined, root.LeafCount! + 1, root.ContentSize!, root.DagSize!);
+
+      delete dag.Leafs[dag.Root];
+      dag.Root = forged.Hash;
+      dag.Leafs[forged.Hash] = forged;
+
+      await expect(verifyDag(dag)).rejects.toThrow('Root LeafCount');
+    });
+
+    test('rejects leaf stored under the wrong key', async () => {
+      const dag = await createTestDag();
+      const leaf = findFile(dag, 'file1.txt');
+      leaf.Hash = findFile(dag, 'file2.txt').Hash;
+
+      await expect(verifyDag(dag)).rejects.toThrow('has hash');
+    });
+  });
 });
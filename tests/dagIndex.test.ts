@@ -0,0 +1,103 @@
+/**
+ * Tests for the DAG parent index
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag } from '../src/dag';
+import { DagIndex } from '../src/dagIndex';
+import { getPartial } from '../src/partial';
+import { MemoryLeafStore } from '../src/store';
+import { Dag } from '../src/types';
+import { findLeaf } from './testHelpers';
+
+describe('DagIndex', () => {
+  let tempDir: string;
+  let dag: Dag;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dag-index-test-'));
+    const inputDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(inputDir, 'docs', 'guide'), { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, 'index.html'), '<html></html>');
+    fs.writeFileSync(path.join(inputDir, 'docs', 'readme.md'), '# Readme');
+    fs.writeFileSync(path.join(inputDir, 'docs', 'guide', 'intro.md'), '# Intro');
+    fs.writeFileSync(path.join(inputDir, 'docs', 'video.bin'), Buffer.alloc(2500, 1));
+
+    dag = await createDag(inputDir, false, { chunkSize: 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('records parents, depths and ancestors', () => {
+    const index = DagIndex.fromDag(dag);
+    const docs = findLeaf(dag, 'docs');
+    const guide = findLeaf(dag, 'guide');
+    const intro = findLeaf(dag, 'intro.md');
+
+    expect(index.root).toBe(dag.Root);
+    expect(index.getParent(dag.Root)).toBeUndefined();
+    expect(index.getParent(intro.Hash)).toBe(guide.Hash);
+    expect(index.getDepth(dag.Root)).toBe(0);
+    expect(index.getDepth(intro.Hash)).toBe(3);
+    expect(index.getAncestors(intro.Hash)).toEqual([dag.Root, docs.Hash, guide.Hash]);
+    expect(index.getAncestors(dag.Root)).toEqual([]);
+
+    for (const hash of Object.keys(dag.Leafs)) {
+      expect(index.has(hash)).toBe(true);
+    }
+  });
+
+  test('builds paths relative to the root', () => {
+    const index = DagIndex.fromDag(dag);
+    const video = findLeaf(dag, 'video.bin');
+
+    expect(index.getPath(dag.Root)).toBe('');
+    expect(index.getPath(findLeaf(dag, 'intro.md').Hash)).toBe('docs/guide/intro.md');
+    expect(index.getPath(video.Hash)).toBe('docs/video.bin');
+    expect(index.getPath(video.Links![0])).toBe(`docs/video.bin/${dag.Leafs[video.Links![0]].ItemName}`);
+    expect(index.getPath('bafimissing')).toBeUndefined();
+  });
+
+  test('indexes links to leaves missing from a partial DAG', () => {
+    const readme = findLeaf(dag, 'readme.md');
+    const partial = getPartial(dag, [findLeaf(dag, 'intro.md').Hash], false);
+    const index = DagIndex.fromDag(partial);
+
+    expect(index.has(readme.Hash)).toBe(true);
+    expect(index.getParent(readme.Hash)).toBe(findLeaf(dag, 'docs').Hash);
+    expect(index.getDepth(readme.Hash)).toBe(2);
+    expect(index.getPath(readme.Hash)).toBeUndefined();
+    expect(index.has(findLeaf(dag, 'video.bin').Links![0])).toBe(false);
+  });
+
+  test('indexes a stored DAG the same way', async () => {
+    const fromDag = DagIndex.fromDag(dag);
+    const fromStore = await DagIndex.fromStore({ Root: dag.Root, Store: new MemoryLeafStore(dag.Leafs) });
+
+    for (const hash of Object.keys(dag.Leafs)) {
+      expect(fromStore.getParent(hash)).toBe(fromDag.getParent(hash));
+      expect(fromStore.getPath(hash)).toBe(fromDag.getPath(hash));
+    }
+  });
+
+  test('rejects leaves outside the index', () => {
+    const detached: Dag = { Root: dag.Root, Leafs: { [dag.Root]: dag.Leafs[dag.Root] } };
+    const index = DagIndex.fromDag(detached);
+    const intro = findLeaf(dag, 'intro.md');
+
+    expect(() => index.getAncestors(intro.Hash)).toThrow('not reachable from root');
+    expect(() => index.addLeaf(intro)).toThrow('is not linked from an indexed leaf');
+
+    index.addLeaf(findLeaf(dag, 'docs'));
+    expect(index.addLeaf(findLeaf(dag, 'guide'))).toEqual([intro.Hash]);
+    expect(index.getPath(intro.Hash)).toBeUndefined();
+
+    index.addLeaf(intro);
+    expect(index.getPath(intro.Hash)).toBe('docs/guide/intro.md');
+  });
+});
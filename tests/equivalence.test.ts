@@ -0,0 +1,121 @@
+/**
+ * Cross-path equivalence tests
+ * Every ingestion API must produce the same DAG for the same bytes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Readable } from 'stream';
+import { createDag, verifyDag } from '../src/dag';
+import { StreamingDagBuilder, createDagFromBuffer, createDagFromStream } from '../src/streaming';
+import { createDagFromFile } from '../src/browser';
+import { Dag, DagBuilderConfig, DEFAULT_CHUNK_SIZE } from '../src/types';
+
+const FILE_NAME = 'data.bin';
+
+function makeContent(size: number): Buffer {
+  const content = Buffer.alloc(size);
+  for (let i = 0; i < size; i++) {
+    content[i] = (i * 31 + 7) % 256;
+  }
+  return content;
+}
+
+/**
+ * Emit content in irregular pieces that do not line up with chunk boundaries
+ */
+function irregularStream(content: Buffer): Readable {
+  const pieces: Buffer[] = [];
+  const sizes = [1, 333, 17, 4096, 999];
+  let offset = 0;
+  let i = 0;
+  while (offset < content.length) {
+    const end = Math.min(offset + sizes[i++ % sizes.length], content.length);
+    pieces.push(content.subarray(offset, end));
+    offset = end;
+  }
+  return Readable.from(pieces);
+}
+
+async function buildWithAddChunk(content: Buffer, chunkSize: number): Promise<Dag> {
+  const builder = new StreamingDagBuilder(FILE_NAME).withChunkSize(chunkSize);
+  for (let offset = 0; offset < content.length; offset += chunkSize) {
+    await builder.addChunk(content.subarray(offset, offset + chunkSize));
+  }
+  return builder.finalize();
+}
+
+function leafNames(dag: Dag): string[] {
+  return Object.values(dag.Leafs).map((leaf) => leaf.ItemName).sort();
+}
+
+describe('Cross-path DAG equivalence', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'equivalence-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const chunkSize = 1024;
+  const sizes = [0, 1, chunkSize - 1, chunkSize, chunkSize + 1, 2 * chunkSize, 3 * chunkSize + 5];
+
+  test.each(sizes)('all paths agree for %i bytes with a custom chunk size', async (size) => {
+    const content = makeContent(size);
+    const filePath = path.join(tempDir, FILE_NAME);
+    fs.writeFileSync(filePath, content);
+    const config: DagBuilderConfig = { chunkSize };
+
+    const fromFile = await createDag(filePath, false, config);
+    const fromBuffer = await createDagFromBuffer(content, FILE_NAME, () => {}, config);
+    const fromStream = await createDagFromStream(irregularStream(content), FILE_NAME, () => {}, config);
+    const fromChunks = await buildWithAddChunk(content, chunkSize);
+    const fromBrowser = await createDagFromFile(FILE_NAME, new Uint8Array(content), config);
+
+    for (const dag of [fromBuffer, fromStream, fromChunks, fromBrowser]) {
+      expect(dag.Root).toBe(fromFile.Root);
+      expect(Object.keys(dag.Leafs).sort()).toEqual(Object.keys(fromFile.Leafs).sort());
+      expect(leafNames(dag)).toEqual(leafNames(fromFile));
+    }
+
+    await verifyDag(fromStream);
+  });
+
+  test('all paths agree with the default chunk size', async () => {
+    const content = makeContent(DEFAULT_CHUNK_SIZE + 10);
+    const filePath = path.join(tempDir, FILE_NAME);
+    fs.writeFileSync(filePath, content);
+
+    const fromFile = await createDag(filePath, false);
+    const fromBuffer = await createDagFromBuffer(content, FILE_NAME, () => {});
+    const fromStream = await createDagFromStream(irregularStream(content), FILE_NAME, () => {});
+    const fromBrowser = await createDagFromFile(FILE_NAME, new Uint8Array(content));
+
+    expect(fromBuffer.Root).toBe(fromFile.Root);
+    expect(fromStream.Root).toBe(fromFile.Root);
+    expect(fromBrowser.Root).toBe(fromFile.Root);
+    expect(fromFile.Leafs[fromFile.Root].CurrentLinkCount).toBe(2);
+  });
+
+  test('single-chunk content is not chunked by the streaming path', async () => {
+    const content = makeContent(chunkSize);
+    const dag = await createDagFromBuffer(content, FILE_NAME, () => {}, { chunkSize });
+
+    expect(Object.keys(dag.Leafs).length).toBe(1);
+    expect(dag.Leafs[dag.Root].Content?.length).toBe(chunkSize);
+  });
+
+  test('intermediate CIDs are reported for each chunk', async () => {
+    const content = makeContent(3 * chunkSize);
+    const cids: string[] = [];
+
+    await createDagFromStream(irregularStream(content), FILE_NAME, (cid) => cids.push(cid), { chunkSize });
+
+    expect(cids.length).toBe(3);
+    expect(new Set(cids).size).toBe(3);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Tests for glob matching over DAG paths
+ */
+
+import { compileGlob } from '../src/glob';
+
+describe('compileGlob', () => {
+  test.each([
+    ['*.md', 'readme.md', true],
+    ['*.md', 'docs/readme.md', false],
+    ['docs/*.md', 'docs/readme.md', true],
+    ['src/**/*.ts', 'src/index.ts', true],
+    ['src/**/*.ts', 'src/lib/deep/util.ts', true],
+    ['src/**/*.ts', 'test/index.ts', false],
+    ['src/**', 'src', true],
+    ['src/**', 'src/a/b', true],
+    ['**', '', true],
+    ['**/*.bin', 'media/video.bin', true],
+    ['file?.txt', 'file1.txt', true],
+    ['file?.txt', 'file10.txt', false],
+    ['file[0-2].txt', 'file2.txt', true],
+    ['file[!0-2].txt', 'file2.txt', false],
+    ['file[!0-2].txt', 'file7.txt', true],
+    ['a.b', 'axb', false],
+    ['/docs/./readme.md', 'docs/readme.md', true],
+  ])('%s matches %s: %s', (glob, itemPath, expected) => {
+    expect(compileGlob(glob)(itemPath)).toBe(expected);
+  });
+
+  test('rejects unterminated character classes', () => {
+    expect(() => compileGlob('file[0-2.txt')).toThrow('unterminated character class');
+  });
+});
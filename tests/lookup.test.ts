@@ -0,0 +1,116 @@
+/**
+ * Tests for path-based lookup and directory listing
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag, finalizeDag } from '../src/dag';
+import { CHUNK_SIZE_KEY } from '../src/chunking';
+import { resolvePath, listDirectory } from '../src/lookup';
+import { getPartial } from '../src/partial';
+import { Dag, LeafType } from '../src/types';
+
+describe('Path lookup and directory listing', () => {
+  let tempDir: string;
+  let inputDir: string;
+  let dag: Dag;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lookup-test-'));
+    inputDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(inputDir, 'docs', 'guide'), { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, 'index.html'), '<html></html>');
+    fs.writeFileSync(path.join(inputDir, 'docs', 'readme.md'), '# Readme');
+    fs.writeFileSync(path.join(inputDir, 'docs', 'guide', 'intro.md'), '# Intro');
+    fs.writeFileSync(path.join(inputDir, 'docs', 'video.bin'), Buffer.alloc(2500, 1));
+
+    dag = await createDag(inputDir, false, { chunkSize: 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resolves a nested path with its ancestor chain', () => {
+    const { leaf, ancestors } = resolvePath(dag, 'docs/guide/intro.md');
+
+    expect(leaf.ItemName).toBe('intro.md');
+    expect(leaf.Type).toBe(LeafType.File);
+    expect(ancestors.map((ancestor) => ancestor.ItemName)).toEqual(['project', 'docs', 'guide']);
+    expect(ancestors[0].Hash).toBe(dag.Root);
+  });
+
+  test('normalizes leading slashes, "." and the empty path', () => {
+    expect(resolvePath(dag, '/docs/./readme.md').leaf.ItemName).toBe('readme.md');
+    expect(resolvePath(dag, 'docs/').leaf.Type).toBe(LeafType.Directory);
+
+    const root = resolvePath(dag, '');
+    expect(root.leaf.Hash).toBe(dag.Root);
+    expect(root.ancestors).toEqual([]);
+
+    expect(() => resolvePath(dag, 'docs/../index.html')).toThrow('".." is not supported');
+  });
+
+  test('reports missing segments and files used as directories', () => {
+    expect(() => resolvePath(dag, 'docs/missing.md')).toThrow('"missing.md" not found in "docs"');
+    expect(() => resolvePath(dag, 'nope/readme.md')).toThrow('"nope" not found in "/"');
+    expect(() => resolvePath(dag, 'index.html/child')).toThrow('"index.html" is a file, not a directory');
+  });
+
+  test('lists a directory with typed, sized entries', () => {
+    const docs = resolvePath(dag, 'docs').leaf;
+    const listing = listDirectory(dag, docs.Hash);
+
+    expect(listing.pruned).toBe(0);
+    expect(listing.entries.map((entry) => [entry.name, entry.type, entry.size])).toEqual([
+      ['guide', LeafType.Directory, undefined],
+      ['readme.md', LeafType.File, 8],
+      ['video.bin', LeafType.File, 2500],
+    ]);
+    expect(listing.entries[1].hash).toBe(resolvePath(dag, 'docs/readme.md').leaf.Hash);
+  });
+
+  test('lists the root by default and rejects non-directories', () => {
+    expect(listDirectory(dag).entries.map((entry) => entry.name)).toEqual(['docs', 'index.html']);
+
+    const file = resolvePath(dag, 'index.html').leaf;
+    expect(() => listDirectory(dag, file.Hash)).toThrow('not a directory');
+    expect(() => listDirectory(dag, 'bafimissing')).toThrow('not found');
+  });
+
+  test('works on partial DAGs and reports pruned segments', () => {
+    const intro = resolvePath(dag, 'docs/guide/intro.md').leaf;
+    const partial = getPartial(dag, [intro.Hash], false);
+
+    expect(resolvePath(partial, 'docs/guide/intro.md').leaf.Hash).toBe(intro.Hash);
+    expect(() => resolvePath(partial, 'docs/readme.md')).toThrow(
+      '"readme.md" may have been pruned from "docs" in this partial DAG'
+    );
+    expect(() => resolvePath(partial, 'index.html')).toThrow('may have been pruned');
+
+    const docs = resolvePath(partial, 'docs').leaf;
+    const listing = listDirectory(partial, docs.Hash);
+    expect(listing.entries.map((entry) => entry.name)).toEqual(['guide']);
+    expect(listing.pruned).toBe(2);
+  });
+
+  test('file size is unknown when the final chunk is pruned', () => {
+    const video = resolvePath(dag, 'docs/video.bin').leaf;
+    const partial = getPartial(dag, [video.Hash], false);
+
+    const docs = resolvePath(partial, 'docs').leaf;
+    const entry = listDirectory(partial, docs.Hash).entries.find((e) => e.name === 'video.bin')!;
+    expect(entry.size).toBeUndefined();
+  });
+
+  test('file size falls back to the first chunk when the root does not record a chunk size', async () => {
+    const { [CHUNK_SIZE_KEY]: _recorded, ...rest } = dag.Leafs[dag.Root].AdditionalData!;
+    const unrecorded = await finalizeDag({ ...dag.Leafs[dag.Root], AdditionalData: rest }, { ...dag.Leafs });
+
+    const docs = resolvePath(unrecorded, 'docs').leaf;
+    const entry = listDirectory(unrecorded, docs.Hash).entries.find((e) => e.name === 'video.bin')!;
+    expect(entry.size).toBe(2500);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for transmission packet encoding and framing
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as cbor from 'cbor';
+import { Readable } from 'stream';
+import { createDag } from '../src/dag';
+import {
+  encodePacket,
+  decodePacket,
+  encodeBatchPacket,
+  decodeBatchPacket,
+  framePacket,
+  readFramedPackets,
+  PacketFrameDecoder,
+} from '../src/serialize';
+import { getBatchLeafSequence, getLeafSequence, TransmissionReceiver } from '../src/transmission';
+import { Dag, DEFAULT_CHUNK_SIZE, TransmissionPacket } from '../src/types';
+
+function concat(parts: Uint8Array[]): Buffer {
+  return Buffer.concat(parts.map((part) => Buffer.from(part)));
+}
+
+describe('Transmission packet encoding', () => {
+  let tempDir: string;
+  let dag: Dag;
+  let sequence: TransmissionPacket[];
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'packet-test-'));
+    const inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(path.join(inputDir, 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(inputDir, 'a.txt'), 'content a');
+    fs.writeFileSync(path.join(inputDir, 'b.txt'), 'content b');
+    fs.writeFileSync(path.join(inputDir, 'nested', 'large.bin'), Buffer.alloc(3000, 5));
+
+    dag = await createDag(inputDir, false, { chunkSize: 1024 });
+    sequence = getLeafSequence(dag);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('packets round-trip with byte fields as Uint8Arrays', () => {
+    for (const packet of sequence) {
+      const decoded = decodePacket(encodePacket(packet));
+      expect(decoded).toEqual(packet);
+
+      for (const branch of Object.values(decoded.proofs || {})) {
+        for (const sibling of branch.Proof.Siblings) {
+          expect(sibling).toBeInstanceOf(Uint8Array);
+        }
+      }
+    }
+  });
+
+  test('encodes content as a CBOR byte string with Go field names', () => {
+    const packet = sequence.find((p) => p.Leaf.ItemName === 'a.txt')!;
+    const encoded = encodePacket(packet);
+    const raw = cbor.decode(Buffer.from(encoded));
+
+    expect(Object.keys(raw)).toEqual(['Leaf', 'ParentHash', 'proofs']);
+    expect(Buffer.isBuffer(raw.Leaf.Content)).toBe(true);
+    expect(encoded.length).toBeLessThan(JSON.stringify(packet).length);
+  });
+
+  test('rejects malformed packets', () => {
+    expect(() => decodePacket(new Uint8Array([0xff, 0x00]))).toThrow('CBOR packet deserialization failed');
+    expect(() => decodePacket(cbor.encode({ ParentHash: '' }))).toThrow('missing Leaf or ParentHash');
+    expect(() =>
+      decodePacket(cbor.encode({ Leaf: sequence[1].Leaf, ParentHash: dag.Root, proofs: { x: { Leaf: 1 } } }))
+    ).toThrow('Invalid Merkle proof branch');
+  });
+
+  test('rejects packet leaves with mistyped fields', () => {
+    const leaf = sequence.find((p) => p.Leaf.ItemName === 'a.txt')!.Leaf;
+    const withLeaf = (fields: Record<string, unknown>) =>
+      cbor.encode({ Leaf: { ...leaf, Content: Buffer.from(leaf.Content!), ...fields }, ParentHash: dag.Root });
+
+    expect(() => decodePacket(withLeaf({}))).not.toThrow();
+    expect(() => decodePacket(withLeaf({ Hash: 42 }))).toThrow('Leaf.Hash must be a string');
+    expect(() => decodePacket(withLeaf({ ItemName: undefined }))).toThrow('Leaf.ItemName must be a string');
+    expect(() => decodePacket(withLeaf({ Type: ['file'] }))).toThrow('Leaf.Type must be a string');
+    expect(() => decodePacket(withLeaf({ Content: 'content a' }))).toThrow('Leaf.Content must be bytes');
+    expect(() => decodePacket(withLeaf({ ClassicMerkleRoot: [1, 2, 3] }))).toThrow(
+      'Leaf.ClassicMerkleRoot must be bytes'
+    );
+    expect(() => decodePacket(withLeaf({ Links: 'bafy' }))).toThrow('Leaf.Links must be an array of strings');
+    expect(() => decodePacket(withLeaf({ Links: [1] }))).toThrow('Leaf.Links must be an array of strings');
+    expect(() => decodePacket(withLeaf({ CurrentLinkCount: undefined }))).toThrow(
+      'Leaf.CurrentLinkCount must be a non-negative integer'
+    );
+    expect(() => decodePacket(withLeaf({ LeafCount: -1 }))).toThrow('Leaf.LeafCount must be a non-negative integer');
+    expect(() => decodePacket(withLeaf({ ContentSize: 1.5 }))).toThrow(
+      'Leaf.ContentSize must be a non-negative integer'
+    );
+    expect(() => decodePacket(withLeaf({ DagSize: '10' }))).toThrow('Leaf.DagSize must be a non-negative integer');
+  });
+
+  test('rejects malformed batch packets before they are verified', () => {
+    const batch = getBatchLeafSequence(dag).find((b) => b.ParentHash === dag.Root)!;
+    const wire = cbor.decode(Buffer.from(encodeBatchPacket(batch)));
+    const withBatch = (fields: Record<string, unknown>) => cbor.encode({ ...wire, ...fields });
+    const withProof = (fields: Record<string, unknown>) => withBatch({ Proof: { ...wire.Proof, ...fields } });
+    const withLeaf = (fields: Record<string, unknown>) =>
+      withBatch({ Leaves: [{ ...wire.Leaves[0], ...fields }, ...wire.Leaves.slice(1)] });
+
+    expect(decodeBatchPacket(withBatch({}))).toEqual(batch);
+    expect(() => decodeBatchPacket(cbor.encode({ ParentHash: dag.Root }))).toThrow(
+      'missing ParentHash, Leaves, Indices or Proof'
+    );
+    expect(() => decodeBatchPacket(withLeaf({ Links: 'bafy' }))).toThrow('Leaf.Links must be an array of strings');
+    expect(() => decodeBatchPacket(withLeaf({ Hash: 42 }))).toThrow('Leaf.Hash must be a string');
+    expect(() => decodeBatchPacket(withBatch({ Indices: wire.Indices.slice(1) }))).toThrow('Indices must be');
+    expect(() => decodeBatchPacket(withBatch({ Indices: [-1, ...wire.Indices.slice(1)] }))).toThrow('Indices must be');
+    expect(() => decodeBatchPacket(withBatch({ Indices: ['0', ...wire.Indices.slice(1)] }))).toThrow('Indices must be');
+    expect(() => decodeBatchPacket(withProof({ LeafCount: 2 ** 60 }))).toThrow(
+      'Proof.LeafCount must be a non-negative integer'
+    );
+    expect(() => decodeBatchPacket(withProof({ Siblings: 'abc' }))).toThrow('Proof.Siblings must be an array of bytes');
+  });
+
+  test('full-size default chunks round-trip through packets and frames', async () => {
+    const filePath = path.join(tempDir, 'full.bin');
+    const content = Buffer.alloc(DEFAULT_CHUNK_SIZE + 1);
+    for (let i = 0; i < content.length; i++) {
+      content[i] = (i * 31) % 251;
+    }
+    fs.writeFileSync(filePath, content);
+
+    const fullDag = await createDag(filePath, false);
+    const packet = getLeafSequence(fullDag).find((p) => p.Leaf.Content?.length === DEFAULT_CHUNK_SIZE)!;
+    expect(packet).toBeDefined();
+
+    expect(decodePacket(encodePacket(packet))).toEqual(packet);
+    expect(new PacketFrameDecoder().push(framePacket(packet))).toEqual([packet]);
+  });
+
+  test('frame decoder reassembles packets split at any byte', () => {
+    const stream = concat(sequence.map(framePacket));
+    const decoder = new PacketFrameDecoder();
+    const received: TransmissionPacket[] = [];
+
+    for (let offset = 0; offset < stream.length; offset += 3) {
+      received.push(...decoder.push(stream.subarray(offset, offset + 3)));
+    }
+
+    expect(received).toEqual(sequence);
+    expect(decoder.pending).toBe(0);
+  });
+
+  test('framed packets stream into a receiver', async () => {
+    const stream = concat(sequence.map(framePacket));
+    const receiver = new TransmissionReceiver(dag.Root);
+
+    for await (const packet of readFramedPackets(Readable.from([stream.subarray(0, 50), stream.subarray(50)]))) {
+      await receiver.receive(packet);
+    }
+    expect(receiver.isComplete).toBe(true);
+  });
+
+  test('rejects oversized frames and streams that end mid-frame', async () => {
+    const frame = framePacket(sequence[0]);
+
+    expect(() => new PacketFrameDecoder(frame.length - 5).push(frame)).toThrow('exceeds the');
+
+    const truncated = Readable.from([Buffer.from(frame.subarray(0, frame.length - 1))]);
+    await expect(async () => {
+      for await (const _packet of readFramedPackets(truncated)) {
+        // Drain the stream
+      }
+    }).rejects.toThrow('ended inside a frame');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for parallel DAG building with worker threads
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag, verifyDag } from '../src/dag';
+import { HashWorkerPool } from '../src/workerPool';
+import { DEFAULT_CHUNK_SIZE, LeafType } from '../src/types';
+
+describe('Parallel DAG Building', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parallel-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('parallel and sequential paths produce identical root for a directory', async () => {
+    const inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(inputDir);
+
+    for (let i = 0; i < 40; i++) {
+      fs.writeFileSync(path.join(inputDir, `file${i}.txt`), `content ${i}`);
+    }
+
+    const nested = path.join(inputDir, 'nested', 'deeper');
+    fs.mkdirSync(nested, { recursive: true });
+    fs.writeFileSync(path.join(nested, 'leaf.txt'), 'deep content');
+    fs.writeFileSync(path.join(inputDir, 'empty.txt'), '');
+
+    // Chunked file so chunk ordering is exercised too
+    const large = Buffer.alloc(DEFAULT_CHUNK_SIZE * 2 + 123);
+    for (let i = 0; i < large.length; i++) {
+      large[i] = i % 251;
+    }
+    fs.writeFileSync(path.join(inputDir, 'large.bin'), large);
+
+    const sequential = await createDag(inputDir, false);
+    const parallel = await createDag(inputDir, false, { enableParallel: true, maxWorkers: 3 });
+
+    expect(parallel.Root).toBe(sequential.Root);
+    expect(Object.keys(parallel.Leafs).sort()).toEqual(Object.keys(sequential.Leafs).sort());
+
+    const chunks = Object.values(parallel.Leafs).filter((leaf) => leaf.Type === LeafType.Chunk);
+    expect(chunks.length).toBe(3);
+
+    await verifyDag(parallel);
+  });
+
+  test('parallel path bounds how many files are processed at once', async () => {
+    const inputDir = path.join(tempDir, 'many');
+    for (let d = 0; d < 5; d++) {
+      const subDir = path.join(inputDir, `dir${d}`, 'sub');
+      fs.mkdirSync(subDir, { recursive: true });
+      for (let i = 0; i < 60; i++) {
+        fs.writeFileSync(path.join(inputDir, `dir${d}`, `file${i}.txt`), `content ${d}/${i}`);
+        fs.writeFileSync(path.join(subDir, `file${i}.txt`), `nested ${d}/${i}`);
+      }
+    }
+
+    let calls = 0;
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const original = HashWorkerPool.prototype.hashFileRange;
+    const spy = jest.spyOn(HashWorkerPool.prototype, 'hashFileRange').mockImplementation(async function (
+      this: HashWorkerPool,
+      ...args: Parameters<HashWorkerPool['hashFileRange']>
+    ) {
+      calls++;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      try {
+        return await original.apply(this, args);
+      } finally {
+        inFlight--;
+      }
+    });
+
+    let parallel;
+    try {
+      parallel = await createDag(inputDir, false, { enableParallel: true, maxWorkers: 2 });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(calls).toBe(600);
+    expect(maxInFlight).toBeLessThanOrEqual(4);
+
+    const sequential = await createDag(inputDir, false);
+    expect(parallel.Root).toBe(sequential.Root);
+  });
+
+  test('parallel path stops starting files once one has failed', async () => {
+    const inputDir = path.join(tempDir, 'failing');
+    for (let d = 0; d < 3; d++) {
+      fs.mkdirSync(path.join(inputDir, `dir${d}`), { recursive: true });
+      for (let i = 0; i < 100; i++) {
+        fs.writeFileSync(path.join(inputDir, `dir${d}`, `file${i}.txt`), `content ${d}/${i}`);
+      }
+    }
+
+    let calls = 0;
+    const spy = jest.spyOn(HashWorkerPool.prototype, 'hashFileRange').mockImplementation(async () => {
+      calls++;
+      throw new Error('read failed');
+    });
+
+    try {
+      await expect(createDag(inputDir, false, { enableParallel: true, maxWorkers: 2 })).rejects.toThrow('read failed');
+    } finally {
+      spy.mockRestore();
+    }
+
+    // Only the files already holding a slot when the first one failed are read
+    expect(calls).toBeLessThanOrEqual(4);
+  });
+
+  test('parallel path produces identical root for a single file', async () => {
+    const filePath = path.join(tempDir, 'single.txt');
+    fs.writeFileSync(filePath, 'single file content');
+
+    const sequential = await createDag(filePath, false);
+    const parallel = await createDag(filePath, false, { enableParallel: true });
+
+    expect(parallel.Root).toBe(sequential.Root);
+    await verifyDag(parallel);
+  });
+
+  test('worker pool hashes file ranges', async () => {
+    const filePath = path.join(tempDir, 'range.txt');
+    fs.writeFileSync(filePath, 'abcdefghij');
+
+    const pool = new HashWorkerPool(2);
+    try {
+      expect(pool.size).toBe(2);
+
+      const { data, hash } = await pool.hashFileRange(filePath, 2, 5);
+      expect(Buffer.from(data).toString()).toBe('cdefg');
+
+      const expected = require('crypto').createHash('sha256').update('cdefg').digest();
+      expect(Buffer.from(hash)).toEqual(expected);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  test('worker pool rejects reads past end of file', async () => {
+    const filePath = path.join(tempDir, 'short.txt');
+    fs.writeFileSync(filePath, 'abc');
+
+    const pool = new HashWorkerPool(1);
+    try {
+      await expect(pool.hashFileRange(filePath, 0, 10)).rejects.toThrow('Unexpected end of file');
+    } finally {
+      await pool.close();
+    }
+  });
+});
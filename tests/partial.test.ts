@@ -6,8 +6,20 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { createDag, verifyDag } from '../src/dag';
-import { getPartial, isPartial } from '../src/partial';
-import { LeafType } from '../src/types';
+import {
+  getPartial,
+  getPartialByPaths,
+  getPartialByRange,
+  isPartial,
+  verifyPartialDag,
+  mergeDags,
+  getMissingLeaves,
+} from '../src/partial';
+import { readRange } from '../src/range';
+import { resolvePath } from '../src/lookup';
+import { fromJSON, toJSON } from '../src/serialize';
+import { Dag, DagLeaf, LeafType } from '../src/types';
+import { findLeaf } from './testHelpers';
 
 describe('Partial DAG Support', () => {
   let tempDir: string;
@@ -102,24 +114,22 @@ describe('Partial DAG Support', () => {
     console.log('✓ Links pruned in partial DAG');
   });
 
-  test('getPartial throws for non-existent leaf', () => {
+  test('getPartial throws for non-existent leaf', async () => {
     const testDir = path.join(tempDir, 'test');
     fs.mkdirSync(testDir);
     fs.writeFileSync(path.join(testDir, 'file.txt'), 'content');
 
-    createDag(testDir, false).then((dag) => {
-      expect(() => getPartial(dag, ['bafireinonexistenthash'], false)).toThrow('Leaf not found');
-    });
+    const dag = await createDag(testDir, false);
+    expect(() => getPartial(dag, ['bafireinonexistenthash'], false)).toThrow('Leaf not found');
   });
 
-  test('getPartial throws for empty leaf list', () => {
+  test('getPartial throws for empty leaf list', async () => {
     const testDir = path.join(tempDir, 'test');
     fs.mkdirSync(testDir);
     fs.writeFileSync(path.join(testDir, 'file.txt'), 'content');
 
-    createDag(testDir, false).then((dag) => {
-      expect(() => getPartial(dag, [], false)).toThrow('No leaf hashes provided');
-    });
+    const dag = await createDag(testDir, false);
+    expect(() => getPartial(dag, [], false)).toThrow('No leaf hashes provided');
   });
 
   test('isPartial detects partial DAGs', async () => {
@@ -163,3 +173,503 @@ describe('Partial DAG Support', () => {
     console.log('✓ Partial DAG maintains root reference');
   });
 });
+
+describe('Pruned partial DAGs', () => {
+  let tempDir: string;
+  let dag: Dag;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pruned-partial-test-'));
+    const testDir = path.join(tempDir, 'test');
+    fs.mkdirSync(path.join(testDir, 'docs'), { recursive: true });
+    fs.mkdirSync(path.join(testDir, 'single'));
+
+    for (let i = 0; i < 5; i++) {
+      fs.writeFileSync(path.join(testDir, `file${i}.txt`), `content ${i}`);
+      fs.writeFileSync(path.join(testDir, 'docs', `doc${i}.md`), `# doc ${i}`);
+    }
+    fs.writeFileSync(path.join(testDir, 'docs', 'video.bin'), Buffer.alloc(5000, 7));
+    fs.writeFileSync(path.join(testDir, 'single', 'only.txt'), 'only child');
+
+    dag = await createDag(testDir, false, { chunkSize: 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('keeps link counts and Classic Merkle roots and stores proofs for kept links', async () => {
+    const target = findLeaf(dag, 'doc3.md');
+    const partial = getPartial(dag, [target.Hash], true);
+    const root = partial.Leafs[dag.Root];
+    const docs = findLeaf(dag, 'docs');
+
+    expect(root.CurrentLinkCount).toBe(dag.Leafs[dag.Root].CurrentLinkCount);
+    expect(root.ClassicMerkleRoot).toEqual(dag.Leafs[dag.Root].ClassicMerkleRoot);
+    expect(root.Links).toEqual([docs.Hash]);
+    expect(Object.keys(root.stored_proofs!)).toEqual([docs.Hash]);
+    expect(Object.keys(partial.Leafs[docs.Hash].stored_proofs!)).toEqual([target.Hash]);
+
+    expect(isPartial(partial)).toBe(true);
+    await verifyPartialDag(partial, dag.Root);
+  });
+
+  test('verifies unpruned partials, whole DAGs and several targets', async () => {
+    const targets = [findLeaf(dag, 'file2.txt').Hash, findLeaf(dag, 'only.txt').Hash, findLeaf(dag, 'video.bin').Links![3]];
+
+    await verifyPartialDag(getPartial(dag, targets, false), dag.Root);
+    await verifyPartialDag(getPartial(dag, targets, true), dag.Root);
+    await verifyPartialDag(dag, dag.Root);
+  });
+
+  test('single-link parents need no stored proof', async () => {
+    const only = findLeaf(dag, 'only.txt');
+    const partial = getPartial(dag, [only.Hash], true);
+
+    expect(partial.Leafs[findLeaf(dag, 'single').Hash].stored_proofs).toBeUndefined();
+    await verifyPartialDag(partial, dag.Root);
+  });
+
+  test('a pruned partial can be pruned again using its stored proofs', async () => {
+    const first = findLeaf(dag, 'doc1.md').Hash;
+    const second = findLeaf(dag, 'doc4.md').Hash;
+    const partial = getPartial(dag, [first, second], true);
+    const narrowed = getPartial(partial, [second], true);
+
+    expect(narrowed.Leafs[first]).toBeUndefined();
+    expect(narrowed.Leafs[findLeaf(dag, 'docs').Hash].Links).toEqual([second]);
+    await verifyPartialDag(narrowed, dag.Root);
+  });
+
+  test('stored proofs survive serialization', async () => {
+    const partial = getPartial(dag, [findLeaf(dag, 'doc2.md').Hash], true);
+    await verifyPartialDag(fromJSON(toJSON(partial)), dag.Root);
+  });
+
+  test('rejects a partial for a different root', async () => {
+    const partial = getPartial(dag, [findLeaf(dag, 'file0.txt').Hash], true);
+    await expect(verifyPartialDag(partial, findLeaf(dag, 'docs').Hash)).rejects.toThrow('does not match expected root');
+  });
+
+  test('rejects missing, mismatched and forged proofs', async () => {
+    const target = findLeaf(dag, 'file1.txt').Hash;
+    const other = findLeaf(dag, 'file3.txt').Hash;
+    const full = getPartial(dag, [target, other], true);
+    const partial = getPartial(dag, [target], true);
+    const root = partial.Leafs[dag.Root];
+
+    const withRoot = (leaf: DagLeaf): Dag => ({ Root: dag.Root, Leafs: { ...partial.Leafs, [dag.Root]: leaf } });
+
+    await expect(verifyPartialDag(withRoot({ ...root, stored_proofs: {} }), dag.Root)).rejects.toThrow(
+      'Missing Merkle proof'
+    );
+
+    const mismatched = { [target]: full.Leafs[dag.Root].stored_proofs![other] };
+    await expect(verifyPartialDag(withRoot({ ...root, stored_proofs: mismatched }), dag.Root)).rejects.toThrow(
+      `is for ${other}`
+    );
+
+    const branch = root.stored_proofs![target];
+    const reversed = [...branch.Proof.Siblings].reverse();
+    const forged = { [target]: { ...branch, Proof: { ...branch.Proof, Siblings: reversed } } };
+    await expect(verifyPartialDag(withRoot({ ...root, stored_proofs: forged }), dag.Root)).rejects.toThrow(
+      'Invalid Merkle proof'
+    );
+
+    // A link swapped for another child's is not covered by its proof
+    const swapped = { ...root, Links: [other], stored_proofs: { [other]: { ...branch, Leaf: other } } };
+    await expect(verifyPartialDag(withRoot(swapped), dag.Root)).rejects.toThrow('Invalid Merkle proof');
+  });
+
+  test('rejects rewritten link counts and leaves not linked from the root', async () => {
+    const target = findLeaf(dag, 'file1.txt').Hash;
+    const partial = getPartial(dag, [target], true);
+    const root = partial.Leafs[dag.Root];
+
+    // What pruning used to produce: the root's CID no longer matches
+    const rewritten = { ...root, CurrentLinkCount: 1 };
+    await expect(
+      verifyPartialDag({ Root: dag.Root, Leafs: { ...partial.Leafs, [dag.Root]: rewritten } }, dag.Root)
+    ).rejects.toThrow('Classic Merkle root mismatch');
+
+    const stray = findLeaf(dag, 'doc0.md');
+    await expect(
+      verifyPartialDag({ Root: dag.Root, Leafs: { ...partial.Leafs, [stray.Hash]: stray } }, dag.Root)
+    ).rejects.toThrow(`Leaf ${stray.Hash} is not linked from root`);
+  });
+});
+
+describe('Partial DAGs by path and byte range', () => {
+  const CHUNK_SIZE = 1024;
+  let tempDir: string;
+  let dag: Dag;
+  let video: Buffer;
+
+  function itemNames(partial: Dag): string[] {
+    return Object.values(partial.Leafs)
+      .filter((leaf) => leaf.Type !== LeafType.Chunk)
+      .map((leaf) => leaf.ItemName)
+      .sort();
+  }
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'partial-select-test-'));
+    const testDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(testDir, 'src', 'lib'), { recursive: true });
+    fs.mkdirSync(path.join(testDir, 'media'));
+
+    fs.writeFileSync(path.join(testDir, 'README.md'), '# Project');
+    fs.writeFileSync(path.join(testDir, 'src', 'index.ts'), 'export {};');
+    fs.writeFileSync(path.join(testDir, 'src', 'notes.md'), 'notes');
+    fs.writeFileSync(path.join(testDir, 'src', 'lib', 'util.ts'), 'export const x = 1;');
+
+    video = Buffer.alloc(6 * CHUNK_SIZE + 100);
+    for (let i = 0; i < video.length; i++) {
+      video[i] = (i * 13) % 256;
+    }
+    fs.writeFileSync(path.join(testDir, 'media', 'video.bin'), video);
+
+    dag = await createDag(testDir, false, { chunkSize: CHUNK_SIZE });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('selects files matching globs with their ancestors', async () => {
+    const partial = getPartialByPaths(dag, ['src/**/*.ts']);
+
+    expect(itemNames(partial)).toEqual(['index.ts', 'lib', 'project', 'src', 'util.ts']);
+    expect(partial.Leafs[findLeaf(dag, 'src').Hash].Links).not.toContain(findLeaf(dag, 'notes.md').Hash);
+    await verifyPartialDag(partial, dag.Root);
+  });
+
+  test('a matching file brings all of its chunks', async () => {
+    const partial = getPartialByPaths(dag, ['media/*.bin', 'README.md']);
+    const videoLeaf = findLeaf(dag, 'video.bin');
+
+    expect(itemNames(partial)).toEqual(['README.md', 'media', 'project', 'video.bin']);
+    for (const link of videoLeaf.Links!) {
+      expect(partial.Leafs[link]).toBeDefined();
+    }
+    await verifyPartialDag(partial, dag.Root);
+    expect(Buffer.from(await readRange(partial, videoLeaf.Hash, 0, video.length))).toEqual(video);
+  });
+
+  test('a matching directory brings only its own leaf', async () => {
+    const partial = getPartialByPaths(dag, ['src']);
+    expect(itemNames(partial)).toEqual(['project', 'src']);
+    await verifyPartialDag(partial, dag.Root);
+  });
+
+  test('a leaf linked from several directories matches at each of its paths', async () => {
+    const packageDir = path.join(tempDir, 'package');
+    for (const dir of ['a', 'b']) {
+      fs.mkdirSync(path.join(packageDir, dir), { recursive: true });
+      fs.writeFileSync(path.join(packageDir, dir, '__init__.py'), '');
+      fs.writeFileSync(path.join(packageDir, dir, `${dir}.py`), `name = "${dir}"`);
+    }
+    const packageDag = await createDag(packageDir, false);
+    const shared = Object.values(packageDag.Leafs).filter((leaf) => leaf.ItemName === '__init__.py');
+    expect(shared.length).toBe(1);
+
+    for (const dir of ['a', 'b']) {
+      const byPath = getPartialByPaths(packageDag, [`${dir}/**`]);
+      expect(itemNames(byPath)).toEqual(['__init__.py', dir, `${dir}.py`, 'package']);
+      expect(resolvePath(byPath, `${dir}/__init__.py`).leaf.Hash).toBe(shared[0].Hash);
+      await verifyPartialDag(byPath, packageDag.Root);
+
+      const byRange = getPartialByRange(packageDag, `${dir}/__init__.py`, 0, 0);
+      expect(itemNames(byRange)).toEqual(['__init__.py', dir, 'package']);
+      await verifyPartialDag(byRange, packageDag.Root);
+    }
+
+    const both = getPartialByPaths(packageDag, ['*/__init__.py']);
+    expect(itemNames(both)).toEqual(['__init__.py', 'a', 'b', 'package']);
+    await verifyPartialDag(both, packageDag.Root);
+  });
+
+  test('rejects globs that match nothing', () => {
+    expect(() => getPartialByPaths(dag, ['**/*.py', 'docs/*'])).toThrow('No items match "**/*.py", "docs/*"');
+    expect(() => getPartialByPaths(dag, [])).toThrow('No path globs provided');
+  });
+
+  test('selects exactly the chunks covering a byte range', async () => {
+    const videoLeaf = findLeaf(dag, 'video.bin');
+    const partial = getPartialByRange(dag, 'media/video.bin', CHUNK_SIZE + 10, 2 * CHUNK_SIZE);
+
+    const chunks = Object.values(partial.Leafs).filter((leaf) => leaf.Type === LeafType.Chunk);
+    expect(chunks.map((chunk) => chunk.Hash).sort()).toEqual(videoLeaf.Links!.slice(1, 4).sort());
+    expect(itemNames(partial)).toEqual(['media', 'project', 'video.bin']);
+    expect(partial.Leafs[videoLeaf.Hash].CurrentLinkCount).toBe(videoLeaf.Links!.length);
+    await verifyPartialDag(partial, dag.Root);
+  });
+
+  test('ranges are truncated at the end of the file', async () => {
+    const videoLeaf = findLeaf(dag, 'video.bin');
+    const tail = getPartialByRange(dag, 'media/video.bin', video.length - 10, 1000);
+
+    expect(tail.Leafs[videoLeaf.Hash].Links).toEqual([videoLeaf.Links![6]]);
+    await verifyPartialDag(tail, dag.Root);
+
+    const empty = getPartialByRange(dag, 'media/video.bin', 0, 0);
+    expect(empty.Leafs[videoLeaf.Hash].Links).toEqual([]);
+    await verifyPartialDag(empty, dag.Root);
+  });
+
+  test('a file with inline content needs no chunks', async () => {
+    const partial = getPartialByRange(dag, 'src/index.ts', 2, 4);
+    expect(itemNames(partial)).toEqual(['index.ts', 'project', 'src']);
+    await verifyPartialDag(partial, dag.Root);
+  });
+
+  test('rejects invalid ranges and paths', () => {
+    expect(() => getPartialByRange(dag, 'media/video.bin', -1, 10)).toThrow('Invalid range');
+    expect(() => getPartialByRange(dag, 'media/video.bin', 100 * CHUNK_SIZE, 10)).toThrow('beyond end of file');
+    expect(() => getPartialByRange(dag, 'media/video.bin', video.length + 1, 0)).toThrow('beyond end of file');
+    expect(() => getPartialByRange(dag, 'src/index.ts', 100, 10)).toThrow('beyond end of file');
+    expect(() => getPartialByRange(dag, 'src', 0, 10)).toThrow('is a directory, not a file');
+    expect(() => getPartialByRange(dag, 'src/missing.ts', 0, 10)).toThrow('not found');
+  });
+});
+
+describe('Merging partial DAGs', () => {
+  const CHUNK_SIZE = 1024;
+  let tempDir: string;
+  let dag: Dag;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'partial-merge-test-'));
+    const testDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(testDir, 'docs'), { recursive: true });
+
+    for (let i = 0; i < 6; i++) {
+      fs.writeFileSync(path.join(testDir, 'docs', `doc${i}.md`), `# doc ${i}`);
+    }
+    fs.writeFileSync(path.join(testDir, 'notes.txt'), 'notes');
+    fs.writeFileSync(path.join(testDir, 'video.bin'), Buffer.alloc(5 * CHUNK_SIZE + 10, 3));
+
+    dag = await createDag(testDir, false, { chunkSize: CHUNK_SIZE });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('pruned partials from different peers merge back into the full DAG', async () => {
+    const first = getPartialByPaths(dag, ['docs/doc[0-2].md']);
+    const second = mergeDags(
+      getPartialByPaths(dag, ['docs/doc[3-5].md']),
+      getPartialByRange(dag, 'video.bin', 0, 2000)
+    );
+    const third = mergeDags(
+      getPartialByRange(dag, 'video.bin', 2000, 10000),
+      getPartialByPaths(dag, ['notes.txt'])
+    );
+
+    const partial = mergeDags(first, second);
+    expect(isPartial(partial)).toBe(true);
+    await verifyPartialDag(partial, dag.Root);
+
+    const merged = mergeDags(partial, third);
+    expect(isPartial(merged)).toBe(false);
+    expect(Object.keys(merged.Leafs).sort()).toEqual(Object.keys(dag.Leafs).sort());
+    for (const [hash, leaf] of Object.entries(dag.Leafs)) {
+      expect(merged.Leafs[hash].Links).toEqual(leaf.Links);
+    }
+    await verifyDag(merged);
+  });
+
+  test('merging is order independent and leaves its inputs untouched', async () => {
+    const a = getPartialByPaths(dag, ['docs/doc5.md', 'docs/doc1.md']);
+    const b = getPartialByPaths(dag, ['docs/doc3.md']);
+    const docs = findLeaf(dag, 'docs').Hash;
+
+    expect(mergeDags(a, b).Leafs[docs].Links).toEqual(mergeDags(b, a).Leafs[docs].Links);
+    expect(mergeDags(a, b).Leafs[docs].Links).toEqual(
+      dag.Leafs[docs].Links!.filter((link) => [a, b].some((partial) => partial.Leafs[link]))
+    );
+    expect(a.Leafs[docs].Links).toHaveLength(2);
+    expect(Object.keys(a.Leafs[docs].stored_proofs!)).toHaveLength(2);
+  });
+
+  test('partials of a chunked file merge in chunk order', async () => {
+    const video = findLeaf(dag, 'video.bin');
+    const tail = getPartialByRange(dag, 'video.bin', 4 * CHUNK_SIZE, 2 * CHUNK_SIZE);
+    const head = getPartialByRange(dag, 'video.bin', 0, 2 * CHUNK_SIZE);
+    const middle = getPartialByRange(dag, 'video.bin', 2 * CHUNK_SIZE, 2 * CHUNK_SIZE);
+
+    const partial = mergeDags(tail, head);
+    expect(partial.Leafs[video.Hash].Links).toEqual([...video.Links!.slice(0, 2), ...video.Links!.slice(4)]);
+    await verifyPartialDag(partial, dag.Root);
+
+    const merged = mergeDags(partial, middle);
+    expect(merged.Leafs[video.Hash].Links).toEqual(video.Links);
+    expect(Buffer.from(await readRange(merged, video.Hash, 0, 6 * CHUNK_SIZE))).toEqual(
+      Buffer.alloc(5 * CHUNK_SIZE + 10, 3)
+    );
+  });
+
+  test('rejects pruned links that no valid proof places', () => {
+    const video = findLeaf(dag, 'video.bin');
+    const head = getPartialByRange(dag, 'video.bin', 0, CHUNK_SIZE);
+    const rest = getPartialByRange(dag, 'video.bin', CHUNK_SIZE, 5 * CHUNK_SIZE);
+    const firstChunk = video.Links![0];
+
+    // Without its proof the first chunk could only be guessed into place
+    const stripped = structuredClone(head);
+    delete stripped.Leafs[video.Hash].stored_proofs![firstChunk];
+    expect(() => mergeDags(stripped, rest)).toThrow(`no valid Merkle proof places ${firstChunk}`);
+
+    // A proof for another position does not verify for this link
+    const moved = structuredClone(head);
+    moved.Leafs[video.Hash].stored_proofs![firstChunk] = {
+      ...rest.Leafs[video.Hash].stored_proofs![video.Links![5]],
+      Leaf: firstChunk,
+    };
+    expect(() => mergeDags(moved, rest)).toThrow(`no valid Merkle proof places ${firstChunk}`);
+  });
+
+  test('keeps whichever copy of a proof verifies', async () => {
+    const video = findLeaf(dag, 'video.bin');
+    const head = getPartialByRange(dag, 'video.bin', 0, CHUNK_SIZE);
+    const rest = getPartialByRange(dag, 'video.bin', CHUNK_SIZE, 5 * CHUNK_SIZE);
+    const firstChunk = video.Links![0];
+    const validProof = head.Leafs[video.Hash].stored_proofs![firstChunk];
+
+    const corrupted = structuredClone(head);
+    corrupted.Leafs[video.Hash].stored_proofs![firstChunk] = {
+      ...rest.Leafs[video.Hash].stored_proofs![video.Links![5]],
+      Leaf: firstChunk,
+    };
+
+    for (const merged of [mergeDags(corrupted, head), mergeDags(head, corrupted)]) {
+      expect(merged.Leafs[video.Hash].stored_proofs![firstChunk]).toEqual(validProof);
+      const complete = mergeDags(merged, rest);
+      expect(complete.Leafs[video.Hash].Links).toEqual(video.Links);
+      await verifyPartialDag(complete, dag.Root);
+    }
+  });
+
+  test('a complete link list wins over a pruned one', async () => {
+    const pruned = getPartialByPaths(dag, ['docs/doc2.md']);
+    const unpruned = getPartial(dag, [findLeaf(dag, 'doc4.md').Hash], false);
+    const merged = mergeDags(pruned, unpruned);
+
+    expect(merged.Leafs[findLeaf(dag, 'docs').Hash].Links).toEqual(findLeaf(dag, 'docs').Links);
+    expect(isPartial(merged)).toBe(true);
+    await verifyPartialDag(merged, dag.Root);
+  });
+
+  test('rejects DAGs with different roots', async () => {
+    const other = await createDag(path.join(tempDir, 'project', 'docs'), false);
+    expect(() => mergeDags(dag, other)).toThrow('Cannot merge DAGs with different roots');
+  });
+
+  test('rejects conflicting copies of a leaf', () => {
+    const notes = findLeaf(dag, 'notes.txt');
+    const docs = findLeaf(dag, 'docs');
+    const partial = getPartialByPaths(dag, ['notes.txt', 'docs/doc0.md']);
+
+    const renamedLeaf = { ...notes, ItemName: 'other.txt' };
+    const renamed: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [notes.Hash]: renamedLeaf } };
+    expect(() => mergeDags(partial, renamed)).toThrow(`Conflicting leaves for ${notes.Hash}: ItemName differs`);
+
+    const edited = { ...notes, Content: new TextEncoder().encode('edited') };
+    const withContent: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [notes.Hash]: edited } };
+    expect(() => mergeDags(partial, withContent)).toThrow('Content differs');
+
+    const reordered = { ...docs, Links: [...docs.Links!].reverse() };
+    const withLinks: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [docs.Hash]: reordered } };
+    expect(() => mergeDags(dag, withLinks)).toThrow('Links differs');
+
+    const foreign = { ...docs, Links: [notes.Hash] };
+    const withForeign: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [docs.Hash]: foreign } };
+    expect(() => mergeDags(withForeign, dag)).toThrow('Links differs');
+  });
+});
+
+describe('Missing leaf reports', () => {
+  const CHUNK_SIZE = 1024;
+  let tempDir: string;
+  let dag: Dag;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'partial-missing-test-'));
+    const testDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(testDir, 'docs'), { recursive: true });
+
+    for (let i = 0; i < 4; i++) {
+      fs.writeFileSync(path.join(testDir, 'docs', `doc${i}.md`), `# doc ${i}`);
+    }
+    fs.writeFileSync(path.join(testDir, 'video.bin'), Buffer.alloc(4 * CHUNK_SIZE + 10, 5));
+
+    dag = await createDag(testDir, false, { chunkSize: CHUNK_SIZE });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('a complete DAG is missing nothing', () => {
+    expect(getMissingLeaves(dag)).toEqual({ leaves: [], prunedLinks: 0, missingLeafCount: 0, estimatedSize: 0 });
+  });
+
+  test('lists absent links with their parent and position', () => {
+    const docs = findLeaf(dag, 'docs');
+    const video = findLeaf(dag, 'video.bin');
+    const partial = getPartial(dag, [findLeaf(dag, 'doc2.md').Hash, video.Links![1]], false);
+    const report = getMissingLeaves(partial);
+
+    const missingDocs = report.leaves.filter((leaf) => leaf.parent === docs.Hash);
+    expect(missingDocs.map((leaf) => [leaf.hash, leaf.index])).toEqual(
+      docs.Links!.map((link, i) => [link, i]).filter(([link]) => link !== findLeaf(dag, 'doc2.md').Hash)
+    );
+    expect(missingDocs.every((leaf) => leaf.name === undefined && leaf.type === undefined)).toBe(true);
+
+    // Chunks of a file can be named from the file and their position
+    const missingChunks = report.leaves.filter((leaf) => leaf.parent === video.Hash);
+    expect(missingChunks.map((leaf) => leaf.hash)).toEqual(video.Links!.filter((_, i) => i !== 1));
+    for (const chunk of missingChunks) {
+      expect(chunk.type).toBe(LeafType.Chunk);
+      expect(chunk.name).toBe(dag.Leafs[chunk.hash].ItemName);
+    }
+
+    expect(report.prunedLinks).toBe(0);
+    expect(report.missingLeafCount).toBe(report.leaves.length);
+  });
+
+  test('counts pruned links and estimates the size of what is left', () => {
+    const root = dag.Leafs[dag.Root];
+    const partial = getPartialByPaths(dag, ['docs/doc0.md']);
+    const report = getMissingLeaves(partial);
+
+    expect(report.leaves).toEqual([]);
+    expect(report.prunedLinks).toBe(1 + 3);
+    expect(report.missingLeafCount).toBe(root.LeafCount! - Object.keys(partial.Leafs).length);
+    expect(report.estimatedSize).toBe(Math.round((root.DagSize! / root.LeafCount!) * report.missingLeafCount));
+  });
+
+  test('positions of kept but absent links come from their stored proofs', () => {
+    const video = findLeaf(dag, 'video.bin');
+    const partial = getPartialByRange(dag, 'video.bin', 2 * CHUNK_SIZE, 2 * CHUNK_SIZE);
+    delete partial.Leafs[video.Links![3]];
+
+    const [missing] = getMissingLeaves(partial).leaves;
+    expect(missing).toEqual({
+      hash: video.Links![3],
+      parent: video.Hash,
+      index: 3,
+      name: dag.Leafs[video.Links![3]].ItemName,
+      type: LeafType.Chunk,
+    });
+  });
+
+  test('merging fills in what the report lists', () => {
+    const partial = getPartialByPaths(dag, ['docs/doc1.md']);
+    const rest = getPartialByPaths(dag, ['docs/doc[023].md', 'video.bin']);
+
+    expect(getMissingLeaves(partial).missingLeafCount).toBeGreaterThan(0);
+    expect(getMissingLeaves(mergeDags(partial, rest)).missingLeafCount).toBe(0);
+  });
+});
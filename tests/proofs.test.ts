@@ -0,0 +1,244 @@
+/**
+ * Tests for inclusion and absence proofs
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as cbor from 'cbor';
+import { createDag } from '../src/dag';
+import {
+  proveInclusion,
+  verifyInclusion,
+  proveAbsence,
+  verifyAbsence,
+  proveNameAbsence,
+  verifyNameAbsence,
+} from '../src/proofs';
+import { resolvePath } from '../src/lookup';
+import { encodeCbor } from '../src/serialize';
+import { Dag, InclusionProof } from '../src/types';
+
+describe('Inclusion proofs', () => {
+  let tempDir: string;
+  let dag: Dag;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'proofs-test-'));
+    const inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(path.join(inputDir, 'docs', 'guide'), { recursive: true });
+    for (let i = 0; i < 5; i++) {
+      fs.writeFileSync(path.join(inputDir, `file${i}.txt`), `content ${i}`);
+    }
+    fs.writeFileSync(path.join(inputDir, 'docs', 'guide', 'intro.md'), '# Intro');
+    fs.writeFileSync(path.join(inputDir, 'docs', 'video.bin'), Buffer.alloc(2500, 7));
+
+    dag = await createDag(inputDir, false, { chunkSize: 1024 });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('proves a nested file with the chain from the root', async () => {
+    const intro = resolvePath(dag, 'docs/guide/intro.md').leaf;
+    const proof = proveInclusion(dag, intro.Hash);
+
+    expect(proof.Path.map((step) => step.Leaf.ItemName)).toEqual(['input', 'docs', 'guide']);
+    expect(Buffer.from(proof.Leaf.Content!).toString()).toBe('# Intro');
+    await verifyInclusion(dag.Root, proof);
+  });
+
+  test('proofs are self-contained and survive serialization', async () => {
+    const chunk = resolvePath(dag, 'docs/video.bin').leaf.Links![1];
+    const proof = proveInclusion(dag, chunk);
+
+    // Ancestors carry only the fields their CIDs commit to
+    for (const step of proof.Path) {
+      expect(step.Leaf).not.toHaveProperty('Links');
+      expect(step.Leaf).not.toHaveProperty('Content');
+    }
+
+    const decoded: InclusionProof = cbor.decode(Buffer.from(encodeCbor(proof)));
+    await verifyInclusion(dag.Root, decoded);
+  });
+
+  test('proves the root and every leaf in the DAG', async () => {
+    for (const hash of Object.keys(dag.Leafs)) {
+      await verifyInclusion(dag.Root, proveInclusion(dag, hash));
+    }
+    expect(proveInclusion(dag, dag.Root).Path).toEqual([]);
+  });
+
+  test('rejects proofs for another root', async () => {
+    const proof = proveInclusion(dag, resolvePath(dag, 'file1.txt').leaf.Hash);
+    const other = resolvePath(dag, 'docs').leaf.Hash;
+
+    await expect(verifyInclusion(other, proof)).rejects.toThrow('not at root');
+  });
+
+  test('rejects tampered leaves, ancestors and branches', async () => {
+    const intro = resolvePath(dag, 'docs/guide/intro.md').leaf;
+    const proof = proveInclusion(dag, intro.Hash);
+
+    const tamperedContent = { ...proof, Leaf: { ...proof.Leaf, Content: new TextEncoder().encode('# Evil') } };
+    await expect(verifyInclusion(dag.Root, tamperedContent)).rejects.toThrow('Content hash mismatch');
+
+    const renamed = { ...proof, Leaf: { ...proof.Leaf, ItemName: 'evil.md' } };
+    await expect(verifyInclusion(dag.Root, renamed)).rejects.toThrow('CID mismatch');
+
+    const forged = [...proof.Path];
+    forged[1] = { ...forged[1], Leaf: { ...forged[1].Leaf, ClassicMerkleRoot: new Uint8Array(32) } };
+    await expect(verifyInclusion(dag.Root, { ...proof, Path: forged })).rejects.toThrow('CID mismatch');
+
+    // A valid leaf from elsewhere in the DAG, grafted under "guide"
+    const file = resolvePath(dag, 'file1.txt').leaf;
+    const grafted = proveInclusion(dag, file.Hash).Leaf;
+    const graftPath = [...proof.Path];
+    graftPath[2] = { ...graftPath[2], Branch: { ...graftPath[2].Branch, Leaf: file.Hash } };
+    await expect(verifyInclusion(dag.Root, { Leaf: grafted, Path: graftPath })).rejects.toThrow(
+      'Merkle proof failed'
+    );
+
+    const mismatched = [...proof.Path];
+    mismatched[0] = { ...mismatched[0], Branch: proveInclusion(dag, file.Hash).Path[0].Branch };
+    await expect(verifyInclusion(dag.Root, { ...proof, Path: mismatched })).rejects.toThrow('Branch at depth 0');
+  });
+
+  test('cannot prove leaves that are missing or unreachable', () => {
+    expect(() => proveInclusion(dag, 'bafimissing')).toThrow('not found');
+
+    const orphan = resolvePath(dag, 'file1.txt').leaf;
+    const root = dag.Leafs[dag.Root];
+    const detached: Dag = {
+      Root: dag.Root,
+      Leafs: { ...dag.Leafs, [dag.Root]: { ...root, Links: root.Links!.filter((link) => link !== orphan.Hash) } },
+    };
+    expect(() => proveInclusion(detached, orphan.Hash)).toThrow('not reachable');
+  });
+});
+
+describe('Absence proofs', () => {
+  let tempDir: string;
+  let dag: Dag;
+  let links: string[];
+  let snapshotDir: string;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'absence-test-'));
+    const inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(path.join(inputDir, 'snapshot'), { recursive: true });
+    fs.mkdirSync(path.join(inputDir, 'empty'));
+    // An odd number of entries, so the last link is paired with its own duplicate
+    for (let i = 0; i < 7; i++) {
+      fs.writeFileSync(path.join(inputDir, 'snapshot', `file${i}.txt`), `content ${i}`);
+    }
+    fs.writeFileSync(path.join(inputDir, 'other.txt'), 'not in the snapshot');
+
+    dag = await createDag(inputDir, false);
+    snapshotDir = resolvePath(dag, 'snapshot').leaf.Hash;
+    links = dag.Leafs[snapshotDir].Links!;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('proves absence before, between and after the links', async () => {
+    const outside = resolvePath(dag, 'other.txt').leaf.Hash;
+    const targets = ['a', ...links.map((link) => `${link}a`), outside];
+
+    for (const cid of targets) {
+      const proof = proveAbsence(dag, snapshotDir, cid);
+      expect(proof.Left || proof.Right).toBeDefined();
+      await verifyAbsence(dag.Root, proof);
+    }
+
+    const first = proveAbsence(dag, snapshotDir, 'a');
+    expect(first.Left).toBeUndefined();
+    expect(first.Right!.Leaf).toBe(links[0]);
+
+    const last = proveAbsence(dag, snapshotDir, `${links[6]}a`);
+    expect(last.Left!.Leaf).toBe(links[6]);
+    expect(last.Right).toBeUndefined();
+  });
+
+  test('refuses to prove absence of a present CID', () => {
+    expect(() => proveAbsence(dag, snapshotDir, links[3])).toThrow('is present in directory');
+  });
+
+  test('rejects neighbours that are not adjacent', async () => {
+    const proof = proveAbsence(dag, snapshotDir, `${links[0]}a`);
+    const skipping = { ...proof, Right: proveAbsence(dag, snapshotDir, `${links[1]}a`).Right };
+    await expect(verifyAbsence(dag.Root, skipping)).rejects.toThrow('not adjacent');
+
+    // Dropping the left neighbour claims the CID would be first
+    await expect(verifyAbsence(dag.Root, { ...proof, Left: undefined })).rejects.toThrow('not adjacent');
+    await expect(verifyAbsence(dag.Root, { ...proof, Left: undefined, Right: undefined })).rejects.toThrow(
+      'no neighbours'
+    );
+  });
+
+  test('rejects neighbours that do not bracket the CID', async () => {
+    const proof = proveAbsence(dag, snapshotDir, `${links[2]}a`);
+    await expect(verifyAbsence(dag.Root, { ...proof, Cid: links[3] })).rejects.toThrow('does not sort after');
+    await expect(verifyAbsence(dag.Root, { ...proof, Cid: links[2] })).rejects.toThrow('does not sort before');
+  });
+
+  test('rejects a branch claiming the duplicate position past the last link', async () => {
+    const proof = proveAbsence(dag, snapshotDir, `${links[6]}a`);
+    const left = proof.Left!;
+
+    // The last of 7 links is paired with itself, so flipping its first path bit still verifies
+    const shifted = { ...left, Proof: { ...left.Proof, Path: left.Proof.Path ^ 1 } };
+    await expect(verifyAbsence(dag.Root, { ...proof, Left: shifted })).rejects.toThrow('points past');
+
+    const truncated = { ...left, Proof: { ...left.Proof, Siblings: left.Proof.Siblings.slice(1) } };
+    await expect(verifyAbsence(dag.Root, { ...proof, Left: truncated })).rejects.toThrow('Merkle proof failed');
+  });
+
+  test('empty directories prove any CID absent', async () => {
+    const empty = resolvePath(dag, 'empty').leaf.Hash;
+    const proof = proveAbsence(dag, empty, links[0]);
+
+    expect(proof.Left).toBeUndefined();
+    expect(proof.Right).toBeUndefined();
+    await verifyAbsence(dag.Root, proof);
+    await verifyNameAbsence(dag.Root, proveNameAbsence(dag, empty, 'anything'));
+  });
+
+  test('proves a name is absent from every entry', async () => {
+    const proof = proveNameAbsence(dag, snapshotDir, 'secret.txt');
+    expect(proof.Entries.length).toBe(7);
+    await verifyNameAbsence(dag.Root, proof);
+
+    expect(() => proveNameAbsence(dag, snapshotDir, 'file3.txt')).toThrow('"file3.txt" is present');
+  });
+
+  test('rejects name proofs with hidden, renamed or substituted entries', async () => {
+    const proof = proveNameAbsence(dag, snapshotDir, 'file9.txt');
+
+    const hidden = { ...proof, Entries: proof.Entries.slice(1) };
+    await expect(verifyNameAbsence(dag.Root, hidden)).rejects.toThrow('lists 6 entries');
+
+    const renamed = [...proof.Entries];
+    renamed[0] = { ...renamed[0], ItemName: 'renamed.txt' };
+    await expect(verifyNameAbsence(dag.Root, { ...proof, Entries: renamed })).rejects.toThrow('CID mismatch');
+
+    const substituted = [...proof.Entries];
+    const other = resolvePath(dag, 'other.txt').leaf;
+    substituted[0] = proveInclusion(dag, other.Hash).Leaf;
+    await expect(verifyNameAbsence(dag.Root, { ...proof, Entries: substituted })).rejects.toThrow(
+      'do not match the Classic Merkle root'
+    );
+
+    await expect(verifyNameAbsence(dag.Root, { ...proof, Name: proof.Entries[2].ItemName })).rejects.toThrow(
+      'is present in directory'
+    );
+  });
+
+  test('only directories have absence proofs', () => {
+    expect(() => proveAbsence(dag, links[0], 'a')).toThrow('not a directory');
+    expect(() => proveNameAbsence(dag, 'bafimissing', 'a')).toThrow('not found');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for random-access byte range reads
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag, finalizeDag } from '../src/dag';
+import { CHUNK_SIZE_KEY } from '../src/chunking';
+import { readRange, getFileSize, getChunkSpan } from '../src/range';
+import { MemoryLeafStore, StoredDag } from '../src/store';
+import { Dag, DagLeaf } from '../src/types';
+import { findLeaf } from './testHelpers';
+
+const CHUNK_SIZE = 1024;
+
+function makeContent(size: number): Buffer {
+  const content = Buffer.alloc(size);
+  for (let i = 0; i < size; i++) {
+    content[i] = (i * 7 + 3) % 256;
+  }
+  return content;
+}
+
+describe('readRange', () => {
+  let tempDir: string;
+  let inputDir: string;
+  let content: Buffer;
+  let dag: Dag;
+  let fileLeaf: DagLeaf;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'range-test-'));
+    inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(inputDir);
+
+    content = makeContent(5 * CHUNK_SIZE + 300);
+    fs.writeFileSync(path.join(inputDir, 'video.bin'), content);
+    fs.writeFileSync(path.join(inputDir, 'small.txt'), 'small file content');
+
+    dag = await createDag(inputDir, false, { chunkSize: CHUNK_SIZE });
+    fileLeaf = findLeaf(dag, 'video.bin');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test.each([
+    [0, 10],
+    [0, CHUNK_SIZE],
+    [CHUNK_SIZE - 5, 10],
+    [CHUNK_SIZE, CHUNK_SIZE],
+    [100, 3 * CHUNK_SIZE],
+    [5 * CHUNK_SIZE + 100, 200],
+  ])('returns exactly the bytes at offset %i, length %i', async (offset, length) => {
+    const bytes = await readRange(dag, fileLeaf.Hash, offset, length);
+    expect(Buffer.from(bytes)).toEqual(content.subarray(offset, offset + length));
+  });
+
+  test('truncates ranges that run past the end of the file', async () => {
+    const bytes = await readRange(dag, fileLeaf.Hash, content.length - 10, 1000);
+    expect(Buffer.from(bytes)).toEqual(content.subarray(content.length - 10));
+
+    expect((await readRange(dag, fileLeaf.Hash, content.length, 10)).length).toBe(0);
+    await expect(readRange(dag, fileLeaf.Hash, content.length + 1, 10)).rejects.toThrow('beyond end of file');
+    await expect(readRange(dag, fileLeaf.Hash, content.length + 1, 0)).rejects.toThrow('beyond end of file');
+    await expect(readRange(dag, fileLeaf.Hash, 100 * CHUNK_SIZE, 10)).rejects.toThrow('beyond end of file');
+  });
+
+  test('reads at the end of a chunk-aligned file return nothing', async () => {
+    const aligned = makeContent(3 * CHUNK_SIZE);
+    const filePath = path.join(tempDir, 'aligned.bin');
+    fs.writeFileSync(filePath, aligned);
+    const alignedDag = await createDag(filePath, false, { chunkSize: CHUNK_SIZE });
+    expect(alignedDag.Leafs[alignedDag.Root].Links!.length).toBe(3);
+
+    for (const length of [0, 10]) {
+      expect((await readRange(alignedDag, alignedDag.Root, aligned.length, length)).length).toBe(0);
+    }
+    expect(getChunkSpan(3, CHUNK_SIZE, aligned.length, 10)).toBeUndefined();
+    await expect(readRange(alignedDag, alignedDag.Root, aligned.length + 1, 10)).rejects.toThrow('beyond end of file');
+    expect(() => getChunkSpan(3, CHUNK_SIZE, aligned.length + 1, 10)).toThrow('beyond end of file');
+  });
+
+  test('reads only the chunks that cover the range', async () => {
+    const store = new MemoryLeafStore(dag.Leafs);
+    const requested: string[] = [];
+    const countingStore = Object.assign(Object.create(store), {
+      get: (hash: string) => {
+        requested.push(hash);
+        return store.get(hash);
+      },
+    });
+    const stored: StoredDag = { Root: dag.Root, Store: countingStore };
+
+    await readRange(stored, fileLeaf.Hash, CHUNK_SIZE + 10, CHUNK_SIZE);
+
+    const chunkReads = requested.filter((hash) => fileLeaf.Links!.includes(hash));
+    expect(chunkReads).toEqual([fileLeaf.Links![1], fileLeaf.Links![2]]);
+  });
+
+  test('reads inline file content', async () => {
+    const small = findLeaf(dag, 'small.txt');
+    const bytes = await readRange(dag, small.Hash, 6, 4);
+    expect(Buffer.from(bytes).toString()).toBe('file');
+    expect(await getFileSize(dag, small.Hash)).toBe('small file content'.length);
+  });
+
+  test('reads from a DAG whose root is the file', async () => {
+    const filePath = path.join(inputDir, 'video.bin');
+    const fileDag = await createDag(filePath, false, { chunkSize: CHUNK_SIZE });
+
+    const bytes = await readRange(fileDag, fileDag.Root, 2000, 3000);
+    expect(Buffer.from(bytes)).toEqual(content.subarray(2000, 5000));
+    expect(await getFileSize(fileDag, fileDag.Root)).toBe(content.length);
+  });
+
+  test('getFileSize reports the full length of a chunked file', async () => {
+    expect(await getFileSize(dag, fileLeaf.Hash)).toBe(content.length);
+  });
+
+  test('takes the chunk size from the first chunk when the root does not record it', async () => {
+    // Rebuild the root with the key removed, as another implementation might
+    const { [CHUNK_SIZE_KEY]: recorded, ...rest } = dag.Leafs[dag.Root].AdditionalData!;
+    expect(recorded).toBe(String(CHUNK_SIZE));
+    const unrecorded = await finalizeDag({ ...dag.Leafs[dag.Root], AdditionalData: rest }, { ...dag.Leafs });
+
+    expect(await getFileSize(unrecorded, fileLeaf.Hash)).toBe(content.length);
+    const bytes = await readRange(unrecorded, fileLeaf.Hash, 3 * CHUNK_SIZE - 5, 10);
+    expect(Buffer.from(bytes)).toEqual(content.subarray(3 * CHUNK_SIZE - 5, 3 * CHUNK_SIZE + 5));
+  });
+
+  test('getFileSize rejects a recorded chunk size the first chunk does not match', async () => {
+    const misrecorded = await finalizeDag(dag.Leafs[dag.Root], { ...dag.Leafs }, {
+      [CHUNK_SIZE_KEY]: String(2 * CHUNK_SIZE),
+    });
+
+    await expect(getFileSize(misrecorded, fileLeaf.Hash)).rejects.toThrow(
+      `First chunk is ${CHUNK_SIZE} bytes, expected chunk size ${2 * CHUNK_SIZE}`
+    );
+  });
+
+  test('rejects tampered chunk content', async () => {
+    const link = fileLeaf.Links![2];
+    const tampered = { ...dag.Leafs[link], Content: new Uint8Array(CHUNK_SIZE) };
+    const tamperedDag: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [link]: tampered } };
+
+    await expect(readRange(tamperedDag, fileLeaf.Hash, 2 * CHUNK_SIZE, 10)).rejects.toThrow(
+      'Content hash mismatch'
+    );
+    // Ranges that do not touch the tampered chunk are still served
+    await readRange(tamperedDag, fileLeaf.Hash, 0, CHUNK_SIZE);
+  });
+
+  test('rejects a valid chunk stored under the wrong link', async () => {
+    const [first, second] = fileLeaf.Links!;
+    const swappedDag: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [first]: dag.Leafs[second] } };
+
+    await expect(readRange(swappedDag, fileLeaf.Hash, 0, 10)).rejects.toThrow('CID mismatch for chunk');
+  });
+
+  test('rejects reordered links that the Classic Merkle root does not commit to', async () => {
+    // Links are not part of the CID, so only the Merkle proof catches this
+    const [first, second, ...rest] = fileLeaf.Links!;
+    const reordered = { ...fileLeaf, Links: [second, first, ...rest] };
+    const reorderedDag: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [fileLeaf.Hash]: reordered } };
+
+    await expect(readRange(reorderedDag, fileLeaf.Hash, 0, 10)).rejects.toThrow('Merkle proof failed for chunk 0');
+  });
+
+  test('rejects a file leaf with a forged Classic Merkle root', async () => {
+    const forged = { ...fileLeaf, ClassicMerkleRoot: new Uint8Array(32) };
+    const forgedDag: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs, [fileLeaf.Hash]: forged } };
+
+    await expect(readRange(forgedDag, fileLeaf.Hash, 0, 10)).rejects.toThrow('CID mismatch for file leaf');
+  });
+
+  test('rejects invalid arguments', async () => {
+    await expect(readRange(dag, fileLeaf.Hash, -1, 10)).rejects.toThrow('Invalid range');
+    await expect(readRange(dag, fileLeaf.Hash, 0, -1)).rejects.toThrow('Invalid range');
+    await expect(readRange(dag, 'bafimissing', 0, 10)).rejects.toThrow('not found');
+    await expect(readRange(dag, dag.Root, 0, 10)).rejects.toThrow('not a file');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for bounded-memory DAG building into leaf sinks
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag, createDagToSink, verifyDag } from '../src/dag';
+import { FileLeafSink, readLeavesFromFile, loadDagFromLeafFile } from '../src/sink';
+import { DagLeaf } from '../src/types';
+
+describe('Leaf Sinks', () => {
+  let tempDir: string;
+  let inputDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sink-test-'));
+    inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(path.join(inputDir, 'nested'), { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, 'a.txt'), 'content a');
+    fs.writeFileSync(path.join(inputDir, 'b.txt'), 'content b');
+    // Identical content and name in a subdirectory produces a duplicate leaf
+    fs.writeFileSync(path.join(inputDir, 'nested', 'a.txt'), 'content a');
+    fs.writeFileSync(path.join(inputDir, 'nested', 'large.bin'), Buffer.alloc(5000, 3));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('callback sink receives every leaf once with the same root as createDag', async () => {
+    const config = { chunkSize: 1024 };
+    const expected = await createDag(inputDir, false, config);
+
+    const received: DagLeaf[] = [];
+    const rootLeaf = await createDagToSink(inputDir, { put: (leaf) => { received.push(leaf); } }, false, config);
+
+    expect(rootLeaf.Hash).toBe(expected.Root);
+    expect(received[received.length - 1].Hash).toBe(expected.Root);
+    expect(received.map((leaf) => leaf.Hash).sort()).toEqual(Object.keys(expected.Leafs).sort());
+  });
+
+  test('children are put before their parents', async () => {
+    const received: DagLeaf[] = [];
+    await createDagToSink(inputDir, { put: (leaf) => { received.push(leaf); } }, false, { chunkSize: 1024 });
+
+    const position = new Map(received.map((leaf, i) => [leaf.Hash, i]));
+    for (const leaf of received) {
+      for (const link of leaf.Links || []) {
+        expect(position.get(link)!).toBeLessThan(position.get(leaf.Hash)!);
+      }
+    }
+  });
+
+  test('async sinks are awaited', async () => {
+    const received: string[] = [];
+    const sink = {
+      put: async (leaf: DagLeaf) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        received.push(leaf.Hash);
+      },
+    };
+
+    const rootLeaf = await createDagToSink(inputDir, sink);
+    expect(received[received.length - 1]).toBe(rootLeaf.Hash);
+  });
+
+  test('file sink round-trips into a verifiable DAG', async () => {
+    const leafFile = path.join(tempDir, 'leaves.bin');
+    const sink = new FileLeafSink(leafFile);
+
+    let rootLeaf: DagLeaf;
+    try {
+      rootLeaf = await createDagToSink(inputDir, sink, false, { chunkSize: 1024 });
+    } finally {
+      sink.close();
+    }
+
+    const dag = loadDagFromLeafFile(leafFile);
+    expect(dag.Root).toBe(rootLeaf.Hash);
+    expect(dag.Root).toBe((await createDag(inputDir, false, { chunkSize: 1024 })).Root);
+    await verifyDag(dag);
+  });
+
+  test('file sink keeps leaves larger than 16 KiB', async () => {
+    fs.writeFileSync(path.join(inputDir, 'big.bin'), Buffer.alloc(100 * 1024, 7));
+    const leafFile = path.join(tempDir, 'leaves.bin');
+    const sink = new FileLeafSink(leafFile);
+
+    try {
+      await createDagToSink(inputDir, sink);
+    } finally {
+      sink.close();
+    }
+
+    const dag = loadDagFromLeafFile(leafFile);
+    const big = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'big.bin')!;
+    expect(big.Content!.length).toBe(100 * 1024);
+    expect(dag.Root).toBe((await createDag(inputDir, false)).Root);
+    await verifyDag(dag);
+  });
+
+  test('parallel building into a sink produces the same root', async () => {
+    const sequential = await createDag(inputDir, false, { chunkSize: 1024 });
+
+    const received: DagLeaf[] = [];
+    const rootLeaf = await createDagToSink(
+      inputDir,
+      { put: (leaf) => { received.push(leaf); } },
+      false,
+      { chunkSize: 1024, enableParallel: true, maxWorkers: 2 }
+    );
+
+    expect(rootLeaf.Hash).toBe(sequential.Root);
+    expect(received.length).toBe(Object.keys(sequential.Leafs).length);
+  });
+
+  test('truncated leaf file is rejected', async () => {
+    const leafFile = path.join(tempDir, 'leaves.bin');
+    const sink = new FileLeafSink(leafFile);
+    await createDagToSink(inputDir, sink);
+    sink.close();
+
+    const data = fs.readFileSync(leafFile);
+    fs.writeFileSync(leafFile, data.subarray(0, data.length - 3));
+
+    expect(() => Array.from(readLeavesFromFile(leafFile))).toThrow('Truncated leaf record');
+  });
+
+  test('closed file sink rejects leaves', async () => {
+    const sink = new FileLeafSink(path.join(tempDir, 'leaves.bin'));
+    sink.close();
+
+    await expect(createDagToSink(inputDir, sink)).rejects.toThrow('Leaf sink is closed');
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for leaf stores and running core operations against them
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createDag, createDagToSink, verifyDag, verifyStoredDag } from '../src/dag';
+import { MemoryLeafStore, FsLeafStore, LeafStore, StoredDag, storeDag, loadStoredDag } from '../src/store';
+import { calculateLabels, calculateStoredLabels, getHashesByLabelRange } from '../src/labels';
+import { getLeafSequence, getStoredLeafSequence } from '../src/transmission';
+import { getPartial, getStoredPartial } from '../src/partial';
+import { diff, diffStoredDags } from '../src/diff';
+import { Dag, DagLeaf, LeafType, TransmissionPacket } from '../src/types';
+
+describe('Leaf Stores', () => {
+  let tempDir: string;
+  let inputDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+    inputDir = path.join(tempDir, 'input');
+    fs.mkdirSync(path.join(inputDir, 'nested'), { recursive: true });
+
+    fs.writeFileSync(path.join(inputDir, 'a.txt'), 'content a');
+    fs.writeFileSync(path.join(inputDir, 'b.txt'), 'content b');
+    fs.writeFileSync(path.join(inputDir, 'nested', 'c.txt'), 'content c');
+    fs.writeFileSync(path.join(inputDir, 'nested', 'large.bin'), Buffer.alloc(3000, 7));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, (dir: string) => LeafStore]> = [
+    ['MemoryLeafStore', () => new MemoryLeafStore()],
+    ['FsLeafStore', (dir) => new FsLeafStore(path.join(dir, 'store'))],
+  ];
+
+  describe.each(backends)('%s', (_name, makeStore) => {
+    let store: LeafStore;
+
+    beforeEach(() => {
+      store = makeStore(tempDir);
+    });
+
+    test('put, get, has, delete and iterate', async () => {
+      const dag = await createDag(inputDir, false);
+      const leaf = dag.Leafs[dag.Root];
+
+      expect(await store.has(leaf.Hash)).toBe(false);
+      expect(await store.get(leaf.Hash)).toBeUndefined();
+
+      await store.put(leaf);
+      await store.put(leaf);
+
+      expect(await store.has(leaf.Hash)).toBe(true);
+      const loaded = await store.get(leaf.Hash);
+      expect(loaded?.Hash).toBe(leaf.Hash);
+      expect(loaded?.LeafCount).toBe(leaf.LeafCount);
+
+      const hashes: string[] = [];
+      for await (const hash of store.hashes()) {
+        hashes.push(hash);
+      }
+      expect(hashes).toEqual([leaf.Hash]);
+
+      expect(await store.delete(leaf.Hash)).toBe(true);
+      expect(await store.delete(leaf.Hash)).toBe(false);
+      expect(await store.has(leaf.Hash)).toBe(false);
+    });
+
+    test('inherited property names are not stored leaves', async () => {
+      for (const name of ['constructor', 'toString', 'hasOwnProperty']) {
+        expect(await store.has(name)).toBe(false);
+        expect(await store.get(name)).toBeUndefined();
+        expect(await store.delete(name)).toBe(false);
+      }
+    });
+
+    test('keeps leaves larger than 16 KiB', async () => {
+      fs.writeFileSync(path.join(inputDir, 'big.bin'), Buffer.alloc(100 * 1024, 9));
+      const expected = await createDag(inputDir, false);
+      const rootLeaf = await createDagToSink(inputDir, store);
+
+      const big = Object.values(expected.Leafs).find((leaf) => leaf.ItemName === 'big.bin')!;
+      expect((await store.get(big.Hash))!.Content!.length).toBe(100 * 1024);
+      expect(rootLeaf.Hash).toBe(expected.Root);
+      await verifyStoredDag({ Root: rootLeaf.Hash, Store: store });
+    });
+
+    test('builds directly into the store and verifies', async () => {
+      const expected = await createDag(inputDir, false, { chunkSize: 1024 });
+      const rootLeaf = await createDagToSink(inputDir, store, false, { chunkSize: 1024 });
+      const stored: StoredDag = { Root: rootLeaf.Hash, Store: store };
+
+      expect(stored.Root).toBe(expected.Root);
+      await verifyStoredDag(stored);
+
+      const loaded = await loadStoredDag(stored);
+      expect(Object.keys(loaded.Leafs).sort()).toEqual(Object.keys(expected.Leafs).sort());
+      await verifyDag(loaded);
+    });
+
+    test('verification detects a missing leaf', async () => {
+      const dag = await createDag(inputDir, false);
+      const stored = await storeDag(dag, store);
+      const fileLeaf = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'a.txt')!;
+
+      await store.delete(fileLeaf.Hash);
+
+      await expect(verifyStoredDag(stored)).rejects.toThrow(`Linked leaf ${fileLeaf.Hash} not found`);
+    });
+
+    test('verification detects a tampered leaf', async () => {
+      const dag = await createDag(inputDir, false);
+      const stored = await storeDag(dag, store);
+      const fileLeaf = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'b.txt')!;
+
+      await store.delete(fileLeaf.Hash);
+      await store.put({ ...fileLeaf, ItemName: 'renamed.txt' });
+
+      await expect(verifyStoredDag(stored)).rejects.toThrow('CID mismatch');
+    });
+
+    test('labels match the in-memory DAG', async () => {
+      const dag = await createDag(inputDir, false);
+      const stored = await storeDag(dag, store);
+
+      const count = await calculateLabels(dag);
+      const storedCount = await calculateStoredLabels(stored);
+
+      expect(storedCount).toBe(count);
+      expect(stored.Labels).toEqual(dag.Labels);
+      expect(getHashesByLabelRange(stored, 1, 2)).toEqual(getHashesByLabelRange(dag, 1, 2));
+    });
+
+    test('leaf sequence matches the in-memory DAG', async () => {
+      const dag = await createDag(inputDir, false, { chunkSize: 1024 });
+      const stored = await storeDag(dag, store);
+
+      const packets: TransmissionPacket[] = [];
+      for await (const packet of getStoredLeafSequence(stored)) {
+        packets.push(packet);
+      }
+
+      const expected = getLeafSequence(dag);
+      expect(packets.map((p) => [p.Leaf.Hash, p.ParentHash])).toEqual(
+        expected.map((p) => [p.Leaf.Hash, p.ParentHash])
+      );
+      expect(packets.map((p) => Object.keys(p.proofs || {}))).toEqual(
+        expected.map((p) => Object.keys(p.proofs || {}))
+      );
+    });
+
+    test('partial matches the in-memory DAG', async () => {
+      const dag = await createDag(inputDir, false);
+      const stored = await storeDag(dag, store);
+      const target = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'c.txt')!;
+
+      for (const prune of [false, true]) {
+        const partial = await getStoredPartial(stored, [target.Hash], prune);
+        const expected = getPartial(dag, [target.Hash], prune);
+
+        expect(partial.Root).toBe(expected.Root);
+        expect(Object.keys(partial.Leafs).sort()).toEqual(Object.keys(expected.Leafs).sort());
+        for (const hash of Object.keys(expected.Leafs)) {
+          expect(partial.Leafs[hash].Links).toEqual(expected.Leafs[hash].Links);
+        }
+      }
+
+      await expect(getStoredPartial(stored, ['bafmissing'], false)).rejects.toThrow('Leaf not found');
+    });
+
+    test('diff matches the in-memory DAGs', async () => {
+      const dag1 = await createDag(inputDir, false);
+      fs.writeFileSync(path.join(inputDir, 'nested', 'd.txt'), 'content d');
+      fs.rmSync(path.join(inputDir, 'a.txt'));
+      const dag2 = await createDag(inputDir, false);
+
+      const stored1 = await storeDag(dag1, store);
+      const stored2 = await storeDag(dag2, new MemoryLeafStore());
+
+      const result = await diffStoredDags(stored1, stored2);
+      const expected = diff(dag1, dag2);
+
+      expect(result.summary).toEqual(expected.summary);
+      expect(Object.keys(result.diffs).sort()).toEqual(Object.keys(expected.diffs).sort());
+      for (const [hash, leafDiff] of Object.entries(expected.diffs)) {
+        expect(result.diffs[hash].type).toBe(leafDiff.type);
+      }
+    });
+  });
+
+  test('MemoryLeafStore shares the wrapped record', async () => {
+    const leaves: Record<string, DagLeaf> = {};
+    const store = new MemoryLeafStore(leaves);
+    const dag: Dag = await createDag(path.join(inputDir, 'a.txt'), false);
+
+    await store.put(dag.Leafs[dag.Root]);
+    expect(leaves[dag.Root]).toBe(dag.Leafs[dag.Root]);
+  });
+
+  test('FsLeafStore shards leaves into subdirectories', async () => {
+    const storeDir = path.join(tempDir, 'store');
+    const store = new FsLeafStore(storeDir);
+    const dag = await createDag(inputDir, false);
+    await storeDag(dag, store);
+
+    for (const hash of Object.keys(dag.Leafs)) {
+      expect(fs.existsSync(path.join(storeDir, hash.slice(-3, -1), hash))).toBe(true);
+    }
+
+    // A reopened store sees the same leaves
+    await verifyStoredDag({ Root: dag.Root, Store: new FsLeafStore(storeDir) });
+  });
+
+  test('FsLeafStore ignores temporary files and rejects unsafe hashes', async () => {
+    const storeDir = path.join(tempDir, 'store');
+    const store = new FsLeafStore(storeDir);
+    const dag = await createDag(path.join(inputDir, 'a.txt'), false);
+    await storeDag(dag, store);
+
+    const shardDir = path.join(storeDir, dag.Root.slice(-3, -1));
+    fs.writeFileSync(path.join(shardDir, `${dag.Root}.tmp-1-0`), 'partial');
+
+    const hashes: string[] = [];
+    for await (const hash of store.hashes()) {
+      hashes.push(hash);
+    }
+    expect(hashes).toEqual([dag.Root]);
+
+    await expect(store.get('../escape')).rejects.toThrow('Invalid leaf hash');
+    await expect(store.put({ Hash: 'a/b', ItemName: 'x', Type: LeafType.File, CurrentLinkCount: 0 })).rejects.toThrow(
+      'Invalid leaf hash'
+    );
+  });
+});
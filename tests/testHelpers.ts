@@ -5,6 +5,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { execSync, ExecSyncOptions } from 'child_process';
+import { Dag, DagLeaf } from '../src/types';
 
 /**
  * Find the Go implementation directory
@@ -79,3 +80,10 @@ export function execInGoRepo(command: string, options?: ExecSyncOptions): Buffer
     cwd: goPath,
   });
 }
+
+/**
+ * Find a leaf in a DAG by its item name
+ */
+export function findLeaf(dag: Dag, itemName: string): DagLeaf {
+  return Object.values(dag.Leafs).find((leaf) => leaf.ItemName === itemName)!;
+}
@@ -9,8 +9,17 @@ import { createDag } from '../src/dag';
 import {
   getLeafSequence,
   applyAndVerifyTransmissionPacket,
+  verifyTransmissionPacket,
+  TransmissionReceiver,
+  getLeafSequenceFor,
+  getTransmissionSummary,
+  streamLeafSequence,
+  createLeafSequenceReadable,
+  LeafSequenceOrder,
 } from '../src/transmission';
-import { Dag } from '../src/types';
+import { calculateLabels } from '../src/labels';
+import { MemoryLeafStore, StoredDag } from '../src/store';
+import { Dag, MerkleProof, TransmissionPacket } from '../src/types';
 
 describe('Transmission Protocol', () => {
   let tempDir: string;
@@ -157,3 +166,402 @@ describe('Transmission Protocol', () => {
     console.log('✓ Links preserved through transmission');
   });
 });
+
+describe('Transmission packet verification', () => {
+  let tempDir: string;
+  let dag: Dag;
+  let sequence: TransmissionPacket[];
+
+  /**
+   * Receiver that has applied every packet sent before the given one
+   */
+  async function receiverBefore(packet: TransmissionPacket): Promise<Dag> {
+    const receiver: Dag = { Root: dag.Root, Leafs: {} };
+    for (const earlier of sequence.slice(0, sequence.indexOf(packet))) {
+      await applyAndVerifyTransmissionPacket(receiver, earlier);
+    }
+    return receiver;
+  }
+
+  function packetFor(itemName: string): TransmissionPacket {
+    return sequence.find((packet) => packet.Leaf.ItemName === itemName)!;
+  }
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transmission-verify-test-'));
+    const testDir = path.join(tempDir, 'test');
+    fs.mkdirSync(path.join(testDir, 'single'), { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'file1.txt'), 'content 1');
+    fs.writeFileSync(path.join(testDir, 'file2.txt'), 'content 2');
+    fs.writeFileSync(path.join(testDir, 'single', 'only.txt'), 'only child');
+
+    dag = await createDag(testDir, false);
+    sequence = getLeafSequence(dag);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('rejects a root that is not the expected root', async () => {
+    const receiver: Dag = { Root: packetFor('file1.txt').Leaf.Hash, Leafs: {} };
+    await expect(verifyTransmissionPacket(receiver, sequence[0])).rejects.toThrow('does not match expected root');
+  });
+
+  test('rejects a root with inconsistent statistics', async () => {
+    const receiver: Dag = { Root: '', Leafs: {} };
+    const forged = { ...sequence[0], Leaf: { ...sequence[0].Leaf, LeafCount: 1 } };
+    await expect(verifyTransmissionPacket(receiver, forged)).rejects.toThrow('must have LeafCount of at least 2');
+
+    const negative = { ...sequence[0], Leaf: { ...sequence[0].Leaf, DagSize: -1 } };
+    await expect(verifyTransmissionPacket(receiver, negative)).rejects.toThrow('invalid DagSize');
+  });
+
+  test('rejects a root whose statistics do not match its CID', async () => {
+    const receiver: Dag = { Root: '', Leafs: {} };
+    const forged = { ...sequence[0], Leaf: { ...sequence[0].Leaf, LeafCount: 99 } };
+    await expect(verifyTransmissionPacket(receiver, forged)).rejects.toThrow('CID mismatch');
+  });
+
+  test('rejects a child whose CID was forged', async () => {
+    const packet = packetFor('file1.txt');
+    const receiver = await receiverBefore(packet);
+
+    const forged = { ...packet, Leaf: { ...packet.Leaf, ItemName: 'renamed.txt' } };
+    await expect(verifyTransmissionPacket(receiver, forged)).rejects.toThrow('CID mismatch');
+  });
+
+  test('rejects tampered content', async () => {
+    const packet = packetFor('file1.txt');
+    const receiver = await receiverBefore(packet);
+
+    const tampered = { ...packet, Leaf: { ...packet.Leaf, Content: new TextEncoder().encode('content X') } };
+    await expect(verifyTransmissionPacket(receiver, tampered)).rejects.toThrow('Content hash mismatch');
+  });
+
+  test('rejects missing, mismatched and invalid proofs', async () => {
+    const packet = packetFor('file1.txt');
+    const other = packetFor('file2.txt');
+    const receiver = await receiverBefore(packet);
+
+    await expect(verifyTransmissionPacket(receiver, { ...packet, proofs: {} })).rejects.toThrow(
+      'Missing Merkle proof'
+    );
+
+    const mismatched = { ...packet, proofs: { [packet.Leaf.Hash]: other.proofs![other.Leaf.Hash] } };
+    await expect(verifyTransmissionPacket(receiver, mismatched)).rejects.toThrow(`is for ${other.Leaf.Hash}`);
+
+    const branch = packet.proofs![packet.Leaf.Hash];
+    const invalid = {
+      ...packet,
+      proofs: { [packet.Leaf.Hash]: { ...branch, Proof: { ...branch.Proof, Siblings: [new Uint8Array(32)] } } },
+    };
+    await expect(verifyTransmissionPacket(receiver, invalid)).rejects.toThrow('Invalid Merkle proof');
+  });
+
+  test('rejects proofs whose depth does not match the parent link count', async () => {
+    const packet = packetFor('file1.txt');
+    const receiver = await receiverBefore(packet);
+    const branch = packet.proofs![packet.Leaf.Hash];
+
+    const withProof = (proof: MerkleProof) => ({
+      ...packet,
+      proofs: { [packet.Leaf.Hash]: { ...branch, Proof: proof } },
+    });
+
+    const short = withProof({ Siblings: branch.Proof.Siblings.slice(1), Path: branch.Proof.Path >>> 1 });
+    await expect(verifyTransmissionPacket(receiver, short)).rejects.toThrow('Invalid Merkle proof');
+
+    const oversized = withProof({ Siblings: Array.from({ length: 40 }, () => new Uint8Array(32)), Path: 0 });
+    await expect(verifyTransmissionPacket(receiver, oversized)).rejects.toThrow('Invalid Merkle proof');
+
+    await expect(verifyTransmissionPacket(receiver, withProof(branch.Proof))).resolves.toBeUndefined();
+  });
+
+  test('rejects a leaf that is not the only child of a single-link parent', async () => {
+    const packet = packetFor('only.txt');
+    const receiver = await receiverBefore(packet);
+
+    // A valid leaf from elsewhere in the DAG, claimed to be under "single"
+    const misplaced = { ...packetFor('file1.txt'), ParentHash: packet.ParentHash, proofs: {} };
+    await expect(verifyTransmissionPacket(receiver, misplaced)).rejects.toThrow('is not a child of');
+
+    await verifyTransmissionPacket(receiver, packet);
+  });
+
+  test('rejects children of parents without a Classic Merkle root', async () => {
+    const packet = packetFor('file1.txt');
+    const receiver = await receiverBefore(packet);
+
+    const root = receiver.Leafs[receiver.Root];
+    receiver.Leafs[receiver.Root] = { ...root, ClassicMerkleRoot: undefined };
+    await expect(verifyTransmissionPacket(receiver, packet)).rejects.toThrow('has no children to verify');
+  });
+
+  test('does not apply packets that fail verification', async () => {
+    const packet = packetFor('file1.txt');
+    const receiver = await receiverBefore(packet);
+    const leafCount = Object.keys(receiver.Leafs).length;
+
+    const forged = { ...packet, Leaf: { ...packet.Leaf, ItemName: 'renamed.txt' } };
+    await expect(applyAndVerifyTransmissionPacket(receiver, forged)).rejects.toThrow();
+    expect(Object.keys(receiver.Leafs).length).toBe(leafCount);
+  });
+});
+
+describe('TransmissionReceiver', () => {
+  let tempDir: string;
+  let dag: Dag;
+  let sequence: TransmissionPacket[];
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transmission-receiver-test-'));
+    const testDir = path.join(tempDir, 'test');
+    fs.mkdirSync(path.join(testDir, 'subdir'), { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'file1.txt'), 'content 1');
+    fs.writeFileSync(path.join(testDir, 'subdir', 'nested.txt'), 'nested content');
+    fs.writeFileSync(path.join(testDir, 'subdir', 'zeros.bin'), Buffer.alloc(3000));
+
+    // Identical zero-filled chunks share a hash, so the sequence has fewer packets than links
+    dag = await createDag(testDir, false, { chunkSize: 1024 });
+    sequence = getLeafSequence(dag);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('tracks outstanding leaves and returns the verified DAG on completion', async () => {
+    const receiver = new TransmissionReceiver(dag.Root);
+    expect(receiver.isComplete).toBe(false);
+
+    const first = await receiver.receive(sequence[0]);
+    expect(first.complete).toBe(false);
+    expect(first.outstanding).toBe(dag.Leafs[dag.Root].Links!.length);
+    expect(receiver.getOutstandingLeaves().sort()).toEqual([...dag.Leafs[dag.Root].Links!].sort());
+    expect(() => receiver.getDag()).toThrow('incomplete');
+
+    let result = first;
+    for (const packet of sequence.slice(1)) {
+      expect(result.complete).toBe(false);
+      result = await receiver.receive(packet);
+    }
+
+    expect(result.complete).toBe(true);
+    expect(result.outstanding).toBe(0);
+    expect(receiver.isComplete).toBe(true);
+    expect(receiver.getOutstandingLeaves()).toEqual([]);
+    expect(Object.keys(result.dag!.Leafs).sort()).toEqual(Object.keys(dag.Leafs).sort());
+    expect(receiver.getDag()).toBe(result.dag);
+  });
+
+  test('rejects a root packet for a different DAG', async () => {
+    const otherDir = path.join(tempDir, 'other');
+    fs.mkdirSync(otherDir);
+    fs.writeFileSync(path.join(otherDir, 'file.txt'), 'other content');
+    const otherSequence = getLeafSequence(await createDag(otherDir, false));
+
+    const receiver = new TransmissionReceiver(dag.Root);
+    await expect(receiver.receive(otherSequence[0])).rejects.toThrow('does not match expected root');
+    expect(receiver.isComplete).toBe(false);
+
+    // The session can still receive the DAG it asked for
+    for (const packet of sequence) {
+      await receiver.receive(packet);
+    }
+    expect(receiver.isComplete).toBe(true);
+  });
+
+  test('rejects leaves before the root and ignores duplicates', async () => {
+    const receiver = new TransmissionReceiver(dag.Root);
+    await expect(receiver.receive(sequence[1])).rejects.toThrow('before the root leaf');
+
+    await receiver.receive(sequence[0]);
+    await receiver.receive(sequence[1]);
+    const repeated = await receiver.receive(sequence[1]);
+    expect(repeated.outstanding).toBe(receiver.getOutstandingLeaves().length);
+    expect(receiver.getOutstandingLeaves()).not.toContain(sequence[1].Leaf.Hash);
+  });
+
+  test('requires an expected root', () => {
+    expect(() => new TransmissionReceiver('')).toThrow('Expected root CID is required');
+  });
+});
+
+describe('Resumable transmission', () => {
+  let tempDir: string;
+  let dag: Dag;
+  let sequence: TransmissionPacket[];
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transmission-resume-test-'));
+    const testDir = path.join(tempDir, 'test');
+    for (const dir of ['a', 'b', path.join('b', 'c')]) {
+      fs.mkdirSync(path.join(testDir, dir), { recursive: true });
+      for (let i = 0; i < 4; i++) {
+        fs.writeFileSync(path.join(testDir, dir, `file${i}.txt`), `${dir} content ${i}`);
+      }
+    }
+    fs.writeFileSync(path.join(testDir, 'large.bin'), Buffer.from(Array.from({ length: 5000 }, (_, i) => i % 251)));
+
+    dag = await createDag(testDir, false, { chunkSize: 1024 });
+    sequence = getLeafSequence(dag);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('resumes an interrupted transfer with only the missing leaves', async () => {
+    const receiver = new TransmissionReceiver(dag.Root);
+    const dropAt = Math.floor(sequence.length * 0.6);
+    for (const packet of sequence.slice(0, dropAt)) {
+      await receiver.receive(packet);
+    }
+
+    const summary = receiver.getSummary();
+    expect(summary.root).toBe(dag.Root);
+    expect(summary.have.length).toBe(dropAt);
+    expect(summary.complete).toBe(false);
+    expect(summary.missing.length).toBeGreaterThan(0);
+
+    const resumed = getLeafSequenceFor(dag, summary.have);
+    expect(resumed.length).toBe(sequence.length - dropAt);
+    expect(resumed.map((packet) => packet.Leaf.Hash)).not.toContain(dag.Root);
+
+    let result;
+    for (const packet of resumed) {
+      result = await receiver.receive(packet);
+    }
+    expect(result!.complete).toBe(true);
+    expect(receiver.getSummary()).toMatchObject({ missing: [], complete: true });
+  });
+
+  test('sends children of held leaves with their proofs', async () => {
+    // Receiver holds the whole upper part of the tree but none of "c"'s files
+    const c = Object.values(dag.Leafs).find((leaf) => leaf.ItemName === 'c')!;
+    const partial: Dag = { Root: dag.Root, Leafs: { ...dag.Leafs } };
+    for (const link of c.Links!) {
+      delete partial.Leafs[link];
+    }
+
+    const resumed = getLeafSequenceFor(dag, partial);
+    expect(resumed.map((packet) => packet.Leaf.Hash).sort()).toEqual([...c.Links!].sort());
+    for (const packet of resumed) {
+      expect(packet.ParentHash).toBe(c.Hash);
+      await applyAndVerifyTransmissionPacket(partial, packet);
+    }
+    expect(getTransmissionSummary(partial).complete).toBe(true);
+  });
+
+  test('sends nothing to a receiver that has every leaf', () => {
+    expect(getLeafSequenceFor(dag, dag)).toEqual([]);
+    expect(getLeafSequenceFor(dag, [])).toEqual(sequence);
+    // Strings are iterables of strings too, and must not be probed as DAGs
+    expect(getLeafSequenceFor(dag, '')).toEqual(sequence);
+  });
+
+  test('summary of an empty receiver lists only the root as missing', () => {
+    expect(getTransmissionSummary({ Root: dag.Root, Leafs: {} })).toEqual({
+      root: dag.Root,
+      have: [],
+      missing: [dag.Root],
+      complete: false,
+    });
+  });
+});
+
+describe('Streaming leaf sequences', () => {
+  let tempDir: string;
+  let dag: Dag;
+
+  async function collect(source: AsyncIterable<TransmissionPacket>): Promise<TransmissionPacket[]> {
+    const packets: TransmissionPacket[] = [];
+    for await (const packet of source) {
+      packets.push(packet);
+    }
+    return packets;
+  }
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transmission-stream-test-'));
+    const testDir = path.join(tempDir, 'test');
+    fs.mkdirSync(path.join(testDir, 'sub', 'deeper'), { recursive: true });
+    for (let i = 0; i < 20; i++) {
+      fs.writeFileSync(path.join(testDir, `file${i}.txt`), `content ${i}`);
+    }
+    fs.writeFileSync(path.join(testDir, 'sub', 'a.txt'), 'sub a');
+    fs.writeFileSync(path.join(testDir, 'sub', 'deeper', 'b.txt'), 'deeper b');
+
+    dag = await createDag(testDir, false);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('bfs order matches getLeafSequence', async () => {
+    expect(await collect(streamLeafSequence(dag))).toEqual(getLeafSequence(dag));
+  });
+
+  test.each<LeafSequenceOrder>(['bfs', 'dfs', 'labels'])('%s order reconstructs the DAG', async (order) => {
+    await calculateLabels(dag);
+    const receiver = new TransmissionReceiver(dag.Root);
+
+    const packets = await collect(streamLeafSequence(dag, { order }));
+    expect(packets.length).toBe(Object.keys(dag.Leafs).length);
+    for (const packet of packets) {
+      await receiver.receive(packet);
+    }
+    expect(receiver.isComplete).toBe(true);
+  });
+
+  test('dfs order finishes a subtree before moving on', async () => {
+    const packets = await collect(streamLeafSequence(dag, { order: 'dfs' }));
+    const names = packets.map((packet) => packet.Leaf.ItemName);
+    const sub = names.indexOf('sub');
+
+    expect(names.slice(sub + 1, sub + 4).sort()).toEqual(['a.txt', 'b.txt', 'deeper']);
+  });
+
+  test('labels order follows label numbers', async () => {
+    await calculateLabels(dag);
+    const packets = await collect(streamLeafSequence(dag, { order: 'labels' }));
+
+    packets.slice(1).forEach((packet, i) => {
+      expect(packet.Leaf.Hash).toBe(dag.Labels![(i + 1).toString()]);
+    });
+  });
+
+  test('labels order requires current labels', async () => {
+    await expect(collect(streamLeafSequence(dag, { order: 'labels' }))).rejects.toThrow('DAG has no labels');
+
+    await calculateLabels(dag);
+    [dag.Labels!['1'], dag.Labels!['2']] = [dag.Labels!['2'], dag.Labels!['1']];
+    await expect(collect(streamLeafSequence(dag, { order: 'labels' }))).rejects.toThrow('Labels are out of date');
+  });
+
+  test('Readable only reads leaves as packets are consumed', async () => {
+    const store = new MemoryLeafStore(dag.Leafs);
+    let reads = 0;
+    const countingStore = Object.assign(Object.create(store), {
+      get: (hash: string) => {
+        reads++;
+        return store.get(hash);
+      },
+    });
+    const stored: StoredDag = { Root: dag.Root, Store: countingStore };
+
+    const readable = createLeafSequenceReadable(stored);
+    expect(readable.readableObjectMode).toBe(true);
+
+    // Let the stream fill its buffer without a consumer
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const buffered = reads;
+    expect(buffered).toBeLessThanOrEqual(readable.readableHighWaterMark + 2);
+    expect(buffered).toBeLessThan(Object.keys(dag.Leafs).length);
+
+    const packets = await collect(readable);
+    expect(packets).toEqual(getLeafSequence(dag));
+  });
+});